@@ -5,10 +5,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Sidebar from "@/components/sidebar";
 import POSPage from "@/pages/pos";
+import TablesPage from "@/pages/tables";
+import KitchenPage from "@/pages/kitchen";
 import InventoryPage from "@/pages/inventory";
+import IngredientsPage from "@/pages/ingredients";
+import RecipesPage from "@/pages/recipes";
+import StockControlPage from "@/pages/stock-control";
+import TaxRatesPage from "@/pages/tax-rates";
+import PromotionsPage from "@/pages/promotions";
+import ModifiersPage from "@/pages/modifiers";
 import CostTrackingPage from "@/pages/cost-tracking";
 import AnalyticsPage from "@/pages/analytics";
 import ReportsPage from "@/pages/reports";
+import SummaryPage from "@/pages/summary";
 
 function Router() {
   return (
@@ -18,10 +27,19 @@ function Router() {
         <Switch>
           <Route path="/" component={POSPage} />
           <Route path="/pos" component={POSPage} />
+          <Route path="/tables" component={TablesPage} />
+          <Route path="/kitchen" component={KitchenPage} />
           <Route path="/inventory" component={InventoryPage} />
+          <Route path="/ingredients" component={IngredientsPage} />
+          <Route path="/recipes" component={RecipesPage} />
+          <Route path="/stock" component={StockControlPage} />
+          <Route path="/tax-rates" component={TaxRatesPage} />
+          <Route path="/promotions" component={PromotionsPage} />
+          <Route path="/modifiers" component={ModifiersPage} />
           <Route path="/costs" component={CostTrackingPage} />
           <Route path="/analytics" component={AnalyticsPage} />
           <Route path="/reports" component={ReportsPage} />
+          <Route path="/summary" component={SummaryPage} />
         </Switch>
       </main>
     </div>
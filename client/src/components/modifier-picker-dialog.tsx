@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { ModifierGroupWithOptions, Product } from "@shared/schema";
+import { checkGroupSelection, describeSelectionRule } from "@shared/modifiers";
+
+export interface ProductSelection {
+  modifierIds: number[];
+  bundleChoices: number[]; // for a bundle, the product chosen for each slot
+  note: string;
+}
+
+interface ModifierPickerDialogProps {
+  product: Product | null;
+  groups: ModifierGroupWithOptions[]; // the product's groups, in the order they are asked
+  products: Product[]; // what a bundle's slots can be filled with
+  onConfirm: (selection: ProductSelection) => void;
+  onClose: () => void;
+}
+
+export default function ModifierPickerDialog({ product, groups, products, onConfirm, onClose }: ModifierPickerDialogProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [choices, setChoices] = useState<Array<number | undefined>>([]);
+  const [note, setNote] = useState("");
+  const slots = product?.bundleSlots ?? [];
+
+  useEffect(() => {
+    if (product) {
+      setSelected([]);
+      // A slot with only one choice is already answered
+      setChoices(product.bundleSlots.map(slot => slot.choices.length === 1 ? slot.choices[0].productId : undefined));
+      setNote("");
+    }
+  }, [product]);
+
+  // A group that takes one option swaps it; others toggle up to their maximum
+  const toggleOption = (group: ModifierGroupWithOptions, optionId: number) => {
+    const groupOptionIds = group.options.map(option => option.id);
+    setSelected(prev => {
+      if (prev.includes(optionId)) return prev.filter(id => id !== optionId);
+      if (group.maxSelections === 1) return [...prev.filter(id => !groupOptionIds.includes(id)), optionId];
+      const count = prev.filter(id => groupOptionIds.includes(id)).length;
+      return group.maxSelections !== null && count >= group.maxSelections ? prev : [...prev, optionId];
+    });
+  };
+
+  const problems = [
+    ...slots.map((slot, index) => choices[index] === undefined ? `Choose a ${slot.name.toLowerCase()}` : undefined),
+    ...groups.map(group => checkGroupSelection(group, group.options.filter(option => selected.includes(option.id)).length))
+  ].filter((problem): problem is string => problem !== undefined);
+  const upcharges = slots.reduce((sum, slot, index) =>
+    sum + (slot.choices.find(choice => choice.productId === choices[index])?.upcharge ?? 0), 0);
+  const price = parseFloat(product?.price ?? "0") + upcharges + groups
+    .flatMap(group => group.options)
+    .filter(option => selected.includes(option.id))
+    .reduce((sum, option) => sum + parseFloat(option.priceDelta), 0);
+
+  return (
+    <Dialog open={product !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product?.name}</DialogTitle>
+          <DialogDescription>${price.toFixed(2)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {slots.map((slot, slotIndex) => (
+            <div key={slotIndex}>
+              <div className="flex items-center justify-between mb-2">
+                <Label>{slot.name}</Label>
+                {slot.quantity > 1 && <span className="text-xs text-neutral-500">× {slot.quantity}</span>}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {slot.choices.map(choice => (
+                  <Button
+                    key={choice.productId}
+                    type="button"
+                    size="sm"
+                    variant={choices[slotIndex] === choice.productId ? "default" : "outline"}
+                    onClick={() => setChoices(prev => prev.map((value, index) => index === slotIndex ? choice.productId : value))}
+                  >
+                    {products.find(candidate => candidate.id === choice.productId)?.name ?? `Product #${choice.productId}`}
+                    {choice.upcharge > 0 && <span className="ml-1 text-xs opacity-75">+${choice.upcharge.toFixed(2)}</span>}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {groups.map(group => (
+            <div key={group.id}>
+              <div className="flex items-center justify-between mb-2">
+                <Label>{group.name}</Label>
+                <span className="text-xs text-neutral-500">{describeSelectionRule(group)}</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {group.options.filter(option => option.isActive).map(option => {
+                  const delta = parseFloat(option.priceDelta);
+                  return (
+                    <Button
+                      key={option.id}
+                      type="button"
+                      size="sm"
+                      variant={selected.includes(option.id) ? "default" : "outline"}
+                      onClick={() => toggleOption(group, option.id)}
+                    >
+                      {option.name}
+                      {delta !== 0 && <span className="ml-1 text-xs opacity-75">{delta > 0 ? "+" : "-"}${Math.abs(delta).toFixed(2)}</span>}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <Label htmlFor="modifier-note">Cooking instructions</Label>
+            <Input
+              id="modifier-note"
+              placeholder="e.g., no onions, well done"
+              maxLength={200}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-xs text-amber-700 space-y-1">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={problems.length > 0} onClick={() => onConfirm({
+            modifierIds: selected,
+            bundleChoices: choices.filter((choice): choice is number => choice !== undefined),
+            note: note.trim()
+          })}>
+            Add to Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
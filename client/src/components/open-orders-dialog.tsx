@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowRightLeft, Merge, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { OpenOrder } from "@shared/schema";
+import { openOrderLabel, orderItemCount } from "@shared/orders";
+
+interface OpenOrdersDialogProps {
+  open: boolean;
+  currentOrderId: number | null; // the order loaded on this till, if any
+  onResume: (order: OpenOrder) => void;
+  onClose: () => void;
+}
+
+const minutesSince = (date: Date | string | null) =>
+  date ? Math.max(Math.floor((Date.now() - new Date(date).getTime()) / 60000), 0) : 0;
+
+export default function OpenOrdersDialog({ open, currentOrderId, onResume, onClose }: OpenOrdersDialogProps) {
+  const { toast } = useToast();
+  const [transferringId, setTransferringId] = useState<number | null>(null);
+  const [transferTable, setTransferTable] = useState("");
+
+  // Other terminals change orders too, so the list refreshes while it is open
+  const { data: orders = [] } = useQuery<OpenOrder[]>({
+    queryKey: ["/api/open-orders"],
+    enabled: open,
+    refetchInterval: open ? 10000 : false,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    // apiRequest errors read "<status>: <body>"; 400 and 409 bodies say what went wrong
+    const body = /^(400|409):/.test(error.message) ? JSON.parse(error.message.slice(4)) as { message?: string } : {};
+    queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+    toast({ title: "Error", description: body.message ?? fallback, variant: "destructive" });
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: async ({ id, tableNumber }: { id: number; tableNumber: string }) => {
+      const res = await apiRequest("POST", `/api/open-orders/${id}/transfer`, { tableNumber });
+      return res.json();
+    },
+    onSuccess: (order: OpenOrder) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      setTransferringId(null);
+      setTransferTable("");
+      toast({ title: "Success", description: `${openOrderLabel(order)} moved to table ${order.tableNumber}` });
+    },
+    onError: (error: Error) => showError(error, "Failed to transfer order"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, intoOrderId }: { id: number; intoOrderId: number }) => {
+      const res = await apiRequest("POST", `/api/open-orders/${id}/merge`, { intoOrderId });
+      return res.json();
+    },
+    onSuccess: (order: OpenOrder) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      toast({ title: "Success", description: `Merged into ${openOrderLabel(order)}` });
+    },
+    onError: (error: Error) => showError(error, "Failed to merge orders"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/open-orders/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      toast({ title: "Success", description: "Order deleted" });
+    },
+    onError: (error: Error) => showError(error, "Failed to delete order"),
+  });
+
+  const handleDelete = (order: OpenOrder) => {
+    if (confirm(`Delete ${openOrderLabel(order)} and everything on it?`)) {
+      deleteMutation.mutate(order.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Open Orders</DialogTitle>
+          <DialogDescription>Tabs and table orders waiting to be paid</DialogDescription>
+        </DialogHeader>
+
+        {orders.length === 0 ? (
+          <div className="text-center text-neutral-500 py-8">No open orders</div>
+        ) : (
+          <div className="border border-neutral-200 rounded-lg divide-y divide-neutral-100">
+            {orders.map(order => {
+              const busy = order.status !== "open";
+              const others = orders.filter(other => other.id !== order.id && other.status === "open");
+              return (
+                <div key={order.id} className="px-3 py-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-neutral-900">{openOrderLabel(order)}</span>
+                        {order.name && order.tableNumber && <Badge variant="outline">Table {order.tableNumber}</Badge>}
+                        {order.id === currentOrderId && <Badge>On this till</Badge>}
+                        {order.status === "settling" && <Badge variant="secondary">Being paid</Badge>}
+                      </div>
+                      <div className="text-sm text-neutral-500">
+                        {orderItemCount(order.items)} items{order.covers ? ` · ${order.covers} covers` : ""} · opened {minutesSince(order.createdAt)} min ago by {order.openedBy}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button size="sm" disabled={busy || order.id === currentOrderId} onClick={() => onResume(order)}>
+                        <Play className="w-4 h-4 mr-1" />
+                        Resume
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Move to another table"
+                        disabled={busy}
+                        onClick={() => setTransferringId(transferringId === order.id ? null : order.id)}
+                      >
+                        <ArrowRightLeft className="w-4 h-4" />
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="sm" variant="ghost" title="Merge into another order" disabled={busy || others.length === 0}>
+                            <Merge className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Merge into</DropdownMenuLabel>
+                          {others.map(other => (
+                            <DropdownMenuItem
+                              key={other.id}
+                              onSelect={() => mergeMutation.mutate({ id: order.id, intoOrderId: other.id })}
+                            >
+                              {openOrderLabel(other)}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-neutral-400 hover:text-red-500"
+                        disabled={busy || deleteMutation.isPending}
+                        onClick={() => handleDelete(order)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {transferringId === order.id && (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        placeholder="Table"
+                        value={transferTable}
+                        onChange={(e) => setTransferTable(e.target.value)}
+                        className="w-32 h-8"
+                      />
+                      <Button
+                        size="sm"
+                        disabled={!transferTable.trim() || transferMutation.isPending}
+                        onClick={() => transferMutation.mutate({ id: order.id, tableNumber: transferTable.trim() })}
+                      >
+                        Move
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
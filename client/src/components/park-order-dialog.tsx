@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface ParkOrderDialogProps {
+  open: boolean;
+  isPending: boolean;
+  onConfirm: (details: { name: string | null; tableNumber: string | null; covers: number | null }) => void;
+  onClose: () => void;
+}
+
+export default function ParkOrderDialog({ open, isPending, onConfirm, onClose }: ParkOrderDialogProps) {
+  const [name, setName] = useState("");
+  const [tableNumber, setTableNumber] = useState("");
+  const [covers, setCovers] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setTableNumber("");
+      setCovers("");
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Park Order</DialogTitle>
+          <DialogDescription>Keep the order open to add to it or take payment later, from any till.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="park-name">Tab name</Label>
+            <Input id="park-name" placeholder="e.g., Sam" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <Label htmlFor="park-table">Table</Label>
+            <Input id="park-table" placeholder="e.g., 12" value={tableNumber} onChange={(e) => setTableNumber(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <Label htmlFor="park-covers">Covers</Label>
+            <Input id="park-covers" type="number" min="1" placeholder="Guests" value={covers} onChange={(e) => setCovers(e.target.value)} className="mt-1" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            disabled={(!name.trim() && !tableNumber.trim()) || isPending}
+            onClick={() => onConfirm({
+              name: name.trim() || null,
+              tableNumber: tableNumber.trim() || null,
+              covers: parseInt(covers) > 0 ? parseInt(covers) : null
+            })}
+          >
+            Park Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
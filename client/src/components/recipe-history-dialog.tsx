@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { RecipeVersion, RecipeVersionDiff, RecipeVersionLine } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+
+interface RecipeHistoryDialogProps {
+  recipeId: number | null;
+  recipeName: string;
+  onClose: () => void;
+}
+
+const formatLine = (line: RecipeVersionLine) =>
+  `${line.quantity} ${line.unit ?? ""} ${line.name}`.replace(/\s+/g, " ");
+
+const formatChange = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+
+export default function RecipeHistoryDialog({ recipeId, recipeName, onClose }: RecipeHistoryDialogProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: versions = [] } = useQuery<RecipeVersion[]>({
+    queryKey: [`/api/recipes/${recipeId}/versions`],
+    enabled: recipeId !== null,
+  });
+
+  const selected = versions.find(version => version.version === selectedVersion) ?? versions[0];
+  const previous = selected ? versions.find(version => version.version < selected.version) : undefined;
+
+  const { data: diff } = useQuery<RecipeVersionDiff>({
+    queryKey: [`/api/recipes/${recipeId}/versions/diff?from=${previous?.version}&to=${selected?.version}`],
+    enabled: recipeId !== null && !!selected && !!previous,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (version: number) => apiRequest("POST", `/api/recipes/${recipeId}/versions/${version}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/recipes/${recipeId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
+      setSelectedVersion(null);
+      toast({ title: "Success", description: "Recipe restored successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to restore recipe", variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setSelectedVersion(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={recipeId !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>{recipeName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {versions.map(version => (
+              <button
+                key={version.id}
+                type="button"
+                onClick={() => setSelectedVersion(version.version)}
+                className={`w-full text-left border rounded-lg p-3 transition-colors ${
+                  selected?.version === version.version ? "border-primary bg-primary/5" : "border-neutral-200 hover:bg-neutral-50"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-neutral-900">v{version.version}</span>
+                  <span className="text-sm text-neutral-600">${parseFloat(version.totalCost).toFixed(2)}</span>
+                </div>
+                {version.createdAt && (
+                  <p className="text-xs text-neutral-500 mt-1">{new Date(version.createdAt).toLocaleString()}</p>
+                )}
+                {version.note && <p className="text-xs text-neutral-600 mt-1">{version.note}</p>}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            {selected && (
+              <>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium text-neutral-900">Version {selected.version}</h4>
+                    <p className="text-sm text-neutral-600">
+                      ${parseFloat(selected.totalCost).toFixed(2)} total · ${parseFloat(selected.costPerServing).toFixed(2)} per serving
+                    </p>
+                  </div>
+                  {selected.version !== versions[0]?.version && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(selected.version)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+
+                <div className="border border-neutral-200 rounded-lg divide-y divide-neutral-100">
+                  {selected.lines.map((line, index) => (
+                    <div key={index} className="flex justify-between px-3 py-2 text-sm">
+                      <span className="text-neutral-700">{formatLine(line)}</span>
+                      <span className="text-neutral-900">${line.cost.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {diff && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-neutral-900">Changes since v{diff.fromVersion}</h4>
+                    <div className="flex gap-2">
+                      <Badge variant="outline">Total {formatChange(diff.totalCostChange)}</Badge>
+                      <Badge variant="outline">Per serving {formatChange(diff.costPerServingChange)}</Badge>
+                    </div>
+                    <ul className="text-sm space-y-1">
+                      {diff.fieldChanges.map(change => (
+                        <li key={change.field} className="text-neutral-700">
+                          {change.field}: {String(change.from ?? "—")} → {String(change.to ?? "—")}
+                        </li>
+                      ))}
+                      {diff.added.map((line, index) => (
+                        <li key={`added-${index}`} className="text-green-700">+ {formatLine(line)}</li>
+                      ))}
+                      {diff.removed.map((line, index) => (
+                        <li key={`removed-${index}`} className="text-red-700">− {formatLine(line)}</li>
+                      ))}
+                      {diff.changed.map((change, index) => (
+                        <li key={`changed-${index}`} className="text-neutral-700">
+                          {change.name}: {formatLine(change.from)} (${change.from.cost.toFixed(2)}) → {formatLine(change.to)} (${change.to.cost.toFixed(2)})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { RecipeWithDetails, ScaledRecipe } from "@shared/schema";
+
+interface RecipeScaleDialogProps {
+  recipe: RecipeWithDetails | null;
+  onClose: () => void;
+}
+
+export default function RecipeScaleDialog({ recipe, onClose }: RecipeScaleDialogProps) {
+  const [target, setTarget] = useState("");
+
+  // Prep items are scaled by batch yield, dishes by servings
+  const byYield = !!recipe?.isPrepItem && !!recipe.yieldUnit;
+
+  useEffect(() => {
+    if (recipe) {
+      setTarget(byYield ? recipe.yieldQuantity ?? "" : recipe.servings.toString());
+    }
+  }, [recipe, byYield]);
+
+  const targetValid = parseFloat(target) > 0;
+  const params = byYield ? `yieldQuantity=${target}` : `servings=${target}`;
+  const scaleUrl = `/api/recipes/${recipe?.id}/scale?${params}`;
+
+  const { data: scaled } = useQuery<ScaledRecipe>({
+    queryKey: [scaleUrl],
+    enabled: recipe !== null && targetValid,
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <Dialog open={recipe !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scale Recipe</DialogTitle>
+          <DialogDescription>{recipe?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          <div className="flex-1">
+            <Label htmlFor="scale-target">
+              {byYield ? `Batch yield (${recipe?.yieldUnit})` : "Servings"}
+            </Label>
+            <Input
+              id="scale-target"
+              type="number"
+              step="any"
+              min="0"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <Button variant="outline" asChild disabled={!targetValid}>
+            <a href={`${scaleUrl}&format=html`} target="_blank" rel="noreferrer">
+              <Printer className="w-4 h-4 mr-2" />
+              Print Prep Sheet
+            </a>
+          </Button>
+        </div>
+
+        {scaled && (
+          <div className="space-y-4">
+            <div className="flex justify-between bg-neutral-50 rounded-lg p-3 text-sm">
+              <span className="text-neutral-600">
+                Batch cost: <span className="font-semibold text-primary">${scaled.batchCost.toFixed(2)}</span>
+              </span>
+              <span className="text-neutral-600">
+                Per serving: <span className="font-medium text-neutral-900">${scaled.costPerServing.toFixed(2)}</span>
+              </span>
+            </div>
+
+            {scaled.warnings.length > 0 && (
+              <ul className="text-xs text-amber-700 space-y-1">
+                {scaled.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+
+            {scaled.sections.map(section => (
+              <div key={section.recipeId} className="border border-neutral-200 rounded-lg">
+                <div className="flex justify-between px-3 py-2 bg-neutral-50 border-b border-neutral-200">
+                  <span className="font-medium text-neutral-900">
+                    {section.name}{" "}
+                    <span className="text-sm font-normal text-neutral-600">
+                      × {section.isPrepItem && section.yieldQuantity !== null
+                        ? `${section.yieldQuantity} ${section.yieldUnit}`
+                        : `${section.servings} servings`}
+                    </span>
+                  </span>
+                  <span className="text-sm text-neutral-900">${section.cost.toFixed(2)}</span>
+                </div>
+                <div className="divide-y divide-neutral-100">
+                  {section.lines.map(line => (
+                    <div
+                      key={line.ingredientId !== null ? `ingredient:${line.ingredientId}` : `prep:${line.subRecipeId}`}
+                      className="flex justify-between px-3 py-2 text-sm"
+                    >
+                      <span className="text-neutral-700">{line.name}</span>
+                      <span className="text-neutral-900">
+                        {line.quantity} {line.unit}
+                        <span className="text-neutral-500 ml-3">${line.cost.toFixed(2)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
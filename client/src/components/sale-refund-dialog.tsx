@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Sale, SaleItem, SaleRefund, SaleVoid, SaleWithDetails } from "@shared/schema";
+import { isSameShift, refundableQuantities } from "@shared/refunds";
+import { describeModifiers } from "@shared/modifiers";
+import { describeComponents } from "@shared/bundles";
+import { TENDER_TYPES, type TenderType } from "@shared/tendering";
+
+interface SaleRefundDialogProps {
+  sale: SaleWithDetails | null;
+  offsets: Sale[]; // refunds and voids already made against the sale
+  onClose: () => void;
+}
+
+export default function SaleRefundDialog({ sale, offsets, onClose }: SaleRefundDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"refund" | "void">("refund");
+  const [quantities, setQuantities] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [approvedBy, setApprovedBy] = useState("");
+  const [tenderType, setTenderType] = useState<TenderType | "">("");
+  const [restoreStock, setRestoreStock] = useState(true);
+
+  // Refund lines are indexes into the sale's items, which keep lines for deleted products
+  const items = (sale?.items ?? []) as SaleItem[];
+  const productName = (productId: number) =>
+    sale?.itemDetails.find(item => item.product.id === productId)?.product.name ?? `Product #${productId}`;
+  const refundable = sale ? refundableQuantities(sale, offsets) : [];
+  const canVoid = !!sale && offsets.length === 0 && !!sale.createdAt && isSameShift(new Date(sale.createdAt), new Date());
+  const splitPayment = !!sale && new Set(sale.tenders.map(tender => tender.type)).size > 1;
+
+  useEffect(() => {
+    if (sale) {
+      setMode("refund");
+      setQuantities((sale.items as SaleItem[]).map(() => ""));
+      setReason("");
+      setApprovedBy("");
+      setTenderType("");
+      setRestoreStock(true);
+    }
+  }, [sale]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    // apiRequest errors read "<status>: <body>"; a 400 body explains what cannot be given back
+    const body = error.message.startsWith("400:") ? JSON.parse(error.message.slice(4)) as { message?: string } : {};
+    toast({ title: "Error", description: body.message ?? fallback, variant: "destructive" });
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async (data: SaleRefund): Promise<Sale> => {
+      const res = await apiRequest("POST", `/api/sales/${sale?.id}/refund`, data);
+      return res.json();
+    },
+    onSuccess: (refund) => {
+      invalidate();
+      toast({ title: "Success", description: `Refunded $${(-parseFloat(refund.totalAmount)).toFixed(2)}` });
+      onClose();
+    },
+    onError: (error: Error) => showError(error, "Failed to refund sale"),
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async (data: SaleVoid): Promise<Sale> => {
+      const res = await apiRequest("POST", `/api/sales/${sale?.id}/void`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: `Sale #${sale?.id} voided` });
+      onClose();
+    },
+    onError: (error: Error) => showError(error, "Failed to void sale"),
+  });
+
+  const lines = quantities
+    .map((quantity, line) => ({ line, quantity: parseFloat(quantity) }))
+    .filter(entry => entry.quantity > 0);
+  const linesValid = lines.length > 0 && lines.every(entry => entry.quantity <= refundable[entry.line]);
+  const canSubmit = reason.trim() !== "" && (mode === "void"
+    ? canVoid
+    : linesValid && approvedBy.trim() !== "" && (!splitPayment || tenderType !== ""));
+
+  const handleSubmit = () => {
+    if (mode === "void") {
+      voidMutation.mutate({ reason, approvedBy: approvedBy.trim() || null, cashierId: "cashier01", restoreStock });
+    } else {
+      refundMutation.mutate({
+        lines,
+        reason,
+        approvedBy,
+        cashierId: "cashier01",
+        tenderType: tenderType || undefined,
+        restoreStock
+      });
+    }
+  };
+
+  return (
+    <Dialog open={sale !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund or Void</DialogTitle>
+          <DialogDescription>
+            Sale #{sale?.id} · ${sale ? parseFloat(sale.totalAmount).toFixed(2) : "0.00"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2">
+          <Button variant={mode === "refund" ? "default" : "outline"} size="sm" onClick={() => setMode("refund")}>
+            Refund items
+          </Button>
+          <Button variant={mode === "void" ? "default" : "outline"} size="sm" disabled={!canVoid} onClick={() => setMode("void")}>
+            Void sale
+          </Button>
+        </div>
+        {!canVoid && (
+          <p className="text-xs text-neutral-500">
+            Only sales from the current shift with nothing refunded yet can be voided.
+          </p>
+        )}
+
+        {mode === "refund" && sale && (
+          <div className="border border-neutral-200 rounded-lg divide-y divide-neutral-100">
+            {items.map((item, line) => (
+              <div key={line} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div>
+                  <div className="font-medium text-neutral-900">{productName(item.productId)}</div>
+                  {(item.components?.length || item.modifiers?.length || item.note) && (
+                    <div className="text-xs text-neutral-500">
+                      {[describeComponents(item.components), describeModifiers(item.modifiers), item.note].filter(Boolean).join(" · ")}
+                    </div>
+                  )}
+                  <div className="text-neutral-500">
+                    {item.quantity} sold · {refundable[line] ?? 0} refundable · ${(item.total - (item.discount ?? 0)).toFixed(2)}
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={refundable[line] ?? 0}
+                  step="any"
+                  placeholder="0"
+                  value={quantities[line] ?? ""}
+                  disabled={(refundable[line] ?? 0) <= 0}
+                  onChange={(e) => setQuantities(prev => prev.map((value, index) => index === line ? e.target.value : value))}
+                  className="w-24"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mode === "void" && sale && (
+          <p className="text-sm text-neutral-600">
+            Every line of the sale is reversed and each tender is paid back as it was taken.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Input id="refund-reason" value={reason} onChange={(e) => setReason(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <Label htmlFor="refund-approver">Approved by{mode === "void" ? " (optional)" : ""}</Label>
+            <Input id="refund-approver" value={approvedBy} onChange={(e) => setApprovedBy(e.target.value)} className="mt-1" />
+          </div>
+          {mode === "refund" && (
+            <div>
+              <Label>Refund to</Label>
+              <Select value={tenderType} onValueChange={(value) => setTenderType(value as TenderType)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder={splitPayment ? "Choose tender" : "As paid"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {TENDER_TYPES.map(tender => (
+                    <SelectItem key={tender.key} value={tender.key}>{tender.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox id="refund-restock" checked={restoreStock} onCheckedChange={(checked) => setRestoreStock(checked === true)} />
+          <Label htmlFor="refund-restock">Put items back into stock</Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            disabled={!canSubmit || refundMutation.isPending || voidMutation.isPending}
+            onClick={handleSubmit}
+          >
+            {mode === "void" ? "Void Sale" : "Refund"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { ShoppingCart, Package, DollarSign, BarChart3, Brain, User, Moon, Sun } from "lucide-react";
+import { ShoppingCart, Package, DollarSign, BarChart3, Brain, Carrot, ChefHat, ClipboardList, Percent, Tag, SlidersHorizontal, FileText, LayoutGrid, CookingPot, User, Moon, Sun } from "lucide-react";
 import { useState } from "react";
 
 export default function Sidebar() {
@@ -8,10 +8,19 @@ export default function Sidebar() {
 
   const navItems = [
     { path: "/pos", label: "Point of Sale", icon: ShoppingCart },
+    { path: "/tables", label: "Tables", icon: LayoutGrid },
+    { path: "/kitchen", label: "Kitchen", icon: CookingPot },
     { path: "/inventory", label: "Inventory", icon: Package },
+    { path: "/ingredients", label: "Ingredients", icon: Carrot },
+    { path: "/recipes", label: "Recipes", icon: ChefHat },
+    { path: "/stock", label: "Stock Control", icon: ClipboardList },
+    { path: "/tax-rates", label: "Tax Rates", icon: Percent },
+    { path: "/promotions", label: "Promotions", icon: Tag },
+    { path: "/modifiers", label: "Modifiers", icon: SlidersHorizontal },
     { path: "/costs", label: "Cost Tracking", icon: DollarSign },
     { path: "/analytics", label: "AI Insights", icon: Brain },
     { path: "/reports", label: "Reports", icon: BarChart3 },
+    { path: "/summary", label: "Cost Summary", icon: FileText },
   ];
 
   const isActive = (path: string) => {
@@ -1,19 +1,58 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Brain, TrendingUp, DollarSign, Target, AlertCircle, Lightbulb } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from "recharts";
-import type { SalesAnalytics, ProductWithMargin, InventoryAlert } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell, ScatterChart, Scatter, ReferenceLine, Legend } from "recharts";
+import type { SalesAnalytics, InventoryAlert, MenuEngineeringReport, MenuEngineeringItem, MenuEngineeringClass } from "@shared/schema";
 
 const COLORS = ['#6366F1', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4'];
 
+const MENU_QUADRANTS: Record<MenuEngineeringClass, {
+  label: string;
+  color: string;
+  className: string;
+  recommendation: string;
+}> = {
+  star: {
+    label: "Stars",
+    color: "#10B981",
+    className: "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200",
+    recommendation: "Popular and profitable. Keep quality and portion consistent, give them prime menu placement and test small price increases.",
+  },
+  plowhorse: {
+    label: "Plowhorses",
+    color: "#F59E0B",
+    className: "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200",
+    recommendation: "Popular but low margin. Re-cost the recipe, trim portions or cheaper garnishes, raise prices gradually, or pair with high-margin sides.",
+  },
+  puzzle: {
+    label: "Puzzles",
+    color: "#6366F1",
+    className: "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200",
+    recommendation: "Profitable but rarely ordered. Reposition on the menu, rename or describe better, have staff recommend them, or run a feature.",
+  },
+  dog: {
+    label: "Dogs",
+    color: "#EF4444",
+    className: "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200",
+    recommendation: "Unpopular and low margin. Remove them, or rework the recipe and price if they must stay.",
+  },
+};
+
+const MENU_QUADRANT_ORDER: MenuEngineeringClass[] = ["star", "plowhorse", "puzzle", "dog"];
+
 export default function AnalyticsPage() {
+  const [matrixDays, setMatrixDays] = useState("30");
+
   const { data: analytics, isLoading: analyticsLoading } = useQuery<SalesAnalytics>({
     queryKey: ["/api/analytics"],
   });
 
-  const { data: products = [] } = useQuery<ProductWithMargin[]>({
-    queryKey: ["/api/products/with-margin"],
+  const { data: menuEngineering } = useQuery<MenuEngineeringReport>({
+    queryKey: [`/api/analytics/menu-engineering?days=${matrixDays}`],
+    placeholderData: keepPreviousData,
   });
 
   const { data: alerts = [] } = useQuery<InventoryAlert[]>({
@@ -37,8 +76,9 @@ export default function AnalyticsPage() {
   }
 
   // AI Insights calculations
-  const lowMarginProducts = products.filter(p => p.marginPercentage < 30);
-  const highMarginProducts = products.filter(p => p.marginPercentage > 70);
+  const menuItems = menuEngineering?.items ?? [];
+  const itemsByQuadrant = (quadrant: MenuEngineeringClass) =>
+    menuItems.filter(item => item.classification === quadrant);
   const criticalAlerts = alerts.filter(a => a.severity === 'critical');
 
   const pieData = Object.entries(analytics.salesByCategory).map(([category, value], index) => ({
@@ -141,16 +181,16 @@ export default function AnalyticsPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {lowMarginProducts.length > 0 && (
+            {itemsByQuadrant("plowhorse").length > 0 && (
               <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
                 <h4 className="font-medium text-amber-800 dark:text-amber-200 mb-2">Optimize Pricing</h4>
                 <p className="text-sm text-amber-700 dark:text-amber-300 mb-2">
-                  {lowMarginProducts.length} products have margins below 30%. Consider increasing prices:
+                  {itemsByQuadrant("plowhorse").length} popular products earn below-average margins. {MENU_QUADRANTS.plowhorse.recommendation}
                 </p>
                 <div className="space-y-1">
-                  {lowMarginProducts.slice(0, 3).map(product => (
-                    <div key={product.id} className="text-xs text-amber-600 dark:text-amber-400">
-                      • {product.name} ({product.marginPercentage.toFixed(1)}% margin)
+                  {itemsByQuadrant("plowhorse").slice(0, 3).map(item => (
+                    <div key={item.productId} className="text-xs text-amber-600 dark:text-amber-400">
+                      • {item.name} (${item.contributionMargin.toFixed(2)} margin, {item.unitsSold} sold)
                     </div>
                   ))}
                 </div>
@@ -189,16 +229,16 @@ export default function AnalyticsPage() {
               </div>
             )}
 
-            {highMarginProducts.length > 0 && (
+            {itemsByQuadrant("puzzle").length > 0 && (
               <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
                 <h4 className="font-medium text-blue-800 dark:text-blue-200 mb-2">High Margin Opportunities</h4>
                 <p className="text-sm text-blue-700 dark:text-blue-300 mb-2">
-                  Promote these profitable items:
+                  Profitable items that rarely sell. {MENU_QUADRANTS.puzzle.recommendation}
                 </p>
                 <div className="space-y-1">
-                  {highMarginProducts.slice(0, 3).map(product => (
-                    <div key={product.id} className="text-xs text-blue-600 dark:text-blue-400">
-                      • {product.name} ({product.marginPercentage.toFixed(1)}% margin)
+                  {itemsByQuadrant("puzzle").slice(0, 3).map(item => (
+                    <div key={item.productId} className="text-xs text-blue-600 dark:text-blue-400">
+                      • {item.name} (${item.contributionMargin.toFixed(2)} margin, {item.unitsSold} sold)
                     </div>
                   ))}
                 </div>
@@ -259,6 +299,90 @@ export default function AnalyticsPage() {
         </Card>
       </div>
 
+      {/* Menu Engineering */}
+      <Card className="bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800 mb-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-neutral-900 dark:text-white">Menu Engineering</CardTitle>
+            <Select value={matrixDays} onValueChange={setMatrixDays}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="365">Last year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {menuEngineering && menuItems.length > 0 ? (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <ResponsiveContainer width="100%" height={360}>
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="unitsSold" name="Units sold" tick={{ fontSize: 12 }} label={{ value: "Units sold", position: "insideBottom", offset: -10, fontSize: 12 }} />
+                    <YAxis type="number" dataKey="contributionMargin" name="Contribution margin" tick={{ fontSize: 12 }} tickFormatter={(value) => `$${value}`} />
+                    <Tooltip
+                      cursor={{ strokeDasharray: "3 3" }}
+                      content={({ active, payload }) => {
+                        const item = active ? (payload?.[0]?.payload as MenuEngineeringItem | undefined) : undefined;
+                        if (!item) return null;
+                        return (
+                          <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 rounded-md p-2 text-xs shadow">
+                            <div className="font-medium text-neutral-900 dark:text-white">{item.name}</div>
+                            <div className="text-neutral-600 dark:text-neutral-400">{item.unitsSold} sold ({item.menuMixPercentage}% of mix)</div>
+                            <div className="text-neutral-600 dark:text-neutral-400">${item.contributionMargin.toFixed(2)} margin each</div>
+                          </div>
+                        );
+                      }}
+                    />
+                    <Legend verticalAlign="top" />
+                    <ReferenceLine x={menuEngineering.popularityThreshold} stroke="#9CA3AF" strokeDasharray="4 4" />
+                    <ReferenceLine y={menuEngineering.averageContributionMargin} stroke="#9CA3AF" strokeDasharray="4 4" />
+                    {MENU_QUADRANT_ORDER.map(quadrant => (
+                      <Scatter
+                        key={quadrant}
+                        name={MENU_QUADRANTS[quadrant].label}
+                        data={itemsByQuadrant(quadrant)}
+                        fill={MENU_QUADRANTS[quadrant].color}
+                      />
+                    ))}
+                  </ScatterChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+                  Popular at {menuEngineering.popularityThreshold} units or more (70% of the average menu mix);
+                  average contribution margin ${menuEngineering.averageContributionMargin.toFixed(2)}.
+                </p>
+              </div>
+              <div className="space-y-3">
+                {MENU_QUADRANT_ORDER.map(quadrant => (
+                  <div key={quadrant} className={`p-3 rounded-lg border ${MENU_QUADRANTS[quadrant].className}`}>
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="font-medium">{MENU_QUADRANTS[quadrant].label}</h4>
+                      <Badge variant="outline">{itemsByQuadrant(quadrant).length}</Badge>
+                    </div>
+                    <p className="text-xs mb-1">{MENU_QUADRANTS[quadrant].recommendation}</p>
+                    {itemsByQuadrant(quadrant).length > 0 && (
+                      <p className="text-xs font-medium">
+                        {itemsByQuadrant(quadrant).map(item => item.name).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="h-[200px] flex items-center justify-center text-neutral-500">
+              No menu data available
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Sales Trend and Top Products */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Sales Trend */}
@@ -9,9 +9,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { insertIngredientSchema } from "@shared/schema";
 import type { Ingredient, InsertIngredient } from "@shared/schema";
+import { ALLERGENS, DIETARY_FLAGS } from "@shared/allergens";
+import { NUTRIENTS, emptyNutrition, getNutritionBasisUnit } from "@shared/nutrition";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
@@ -65,6 +68,13 @@ export default function IngredientsPage() {
       unit: "",
       costPerUnit: 0,
       category: "",
+      supplier: "",
+      densityGPerMl: null,
+      pieceWeightG: null,
+      yieldPercentage: 100,
+      allergens: [],
+      dietaryFlags: [],
+      nutritionPer100: null,
     },
   });
 
@@ -85,6 +95,9 @@ export default function IngredientsPage() {
       apiRequest("PUT", `/api/ingredients/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
       setEditingIngredient(null);
       form.reset();
       toast({ title: "Success", description: "Ingredient updated successfully" });
@@ -120,6 +133,13 @@ export default function IngredientsPage() {
       unit: ingredient.unit,
       costPerUnit: parseFloat(ingredient.costPerUnit),
       category: ingredient.category,
+      supplier: ingredient.supplier || "",
+      densityGPerMl: ingredient.densityGPerMl ? parseFloat(ingredient.densityGPerMl) : null,
+      pieceWeightG: ingredient.pieceWeightG ? parseFloat(ingredient.pieceWeightG) : null,
+      yieldPercentage: parseFloat(ingredient.yieldPercentage),
+      allergens: ingredient.allergens,
+      dietaryFlags: ingredient.dietaryFlags,
+      nutritionPer100: ingredient.nutritionPer100,
     });
   };
 
@@ -255,6 +275,129 @@ export default function IngredientsPage() {
                     )}
                   </div>
 
+                  <div>
+                    <Label htmlFor="yieldPercentage">Usable Yield (%)</Label>
+                    <Input
+                      id="yieldPercentage"
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="100"
+                      placeholder="100"
+                      {...form.register("yieldPercentage", { valueAsNumber: true })}
+                    />
+                    {form.formState.errors.yieldPercentage && (
+                      <p className="text-sm text-red-500 mt-1">
+                        {form.formState.errors.yieldPercentage.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="densityGPerMl">Density (g/mL)</Label>
+                      <Input
+                        id="densityGPerMl"
+                        type="number"
+                        step="0.01"
+                        placeholder="Optional"
+                        {...form.register("densityGPerMl", { setValueAs: (v) => (v === "" || v === null ? null : parseFloat(v)) })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="pieceWeightG">Each weighs (g)</Label>
+                      <Input
+                        id="pieceWeightG"
+                        type="number"
+                        step="0.1"
+                        placeholder="Optional"
+                        {...form.register("pieceWeightG", { setValueAs: (v) => (v === "" || v === null ? null : parseFloat(v)) })}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label>Allergens</Label>
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                      {ALLERGENS.map((allergen) => (
+                        <label key={allergen.key} className="flex items-center space-x-2 text-sm text-neutral-700">
+                          <Checkbox
+                            checked={form.watch("allergens")?.includes(allergen.key)}
+                            onCheckedChange={(checked) => {
+                              const current = form.getValues("allergens") || [];
+                              form.setValue("allergens", checked
+                                ? [...current, allergen.key]
+                                : current.filter(key => key !== allergen.key));
+                            }}
+                          />
+                          <span>{allergen.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label>Dietary</Label>
+                    <div className="grid grid-cols-2 gap-2 mt-2">
+                      {DIETARY_FLAGS.map((flag) => (
+                        <label key={flag.key} className="flex items-center space-x-2 text-sm text-neutral-700">
+                          <Checkbox
+                            checked={form.watch("dietaryFlags")?.includes(flag.key)}
+                            onCheckedChange={(checked) => {
+                              const current = form.getValues("dietaryFlags") || [];
+                              form.setValue("dietaryFlags", checked
+                                ? [...current, flag.key]
+                                : current.filter(key => key !== flag.key));
+                            }}
+                          />
+                          <span>{flag.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="hasNutrition"
+                        checked={!!form.watch("nutritionPer100")}
+                        onCheckedChange={(checked) => form.setValue("nutritionPer100", checked ? emptyNutrition() : null)}
+                      />
+                      <Label htmlFor="hasNutrition">
+                        Nutrition per 100 {getNutritionBasisUnit(form.watch("unit") || "") === "ml" ? "mL" : "g"}
+                      </Label>
+                    </div>
+                    {form.watch("nutritionPer100") && (
+                      <div className="grid grid-cols-2 gap-2 mt-2">
+                        {NUTRIENTS.map((nutrient) => (
+                          <div key={nutrient.key}>
+                            <Label htmlFor={nutrient.key} className="text-xs text-neutral-600">
+                              {nutrient.label} ({nutrient.unit})
+                            </Label>
+                            <Input
+                              id={nutrient.key}
+                              type="number"
+                              step="0.1"
+                              min="0"
+                              {...form.register(`nutritionPer100.${nutrient.key}`, {
+                                setValueAs: (v) => (v === "" ? 0 : parseFloat(v)),
+                              })}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="supplier">Supplier</Label>
+                    <Input
+                      id="supplier"
+                      placeholder="e.g., Fresh Foods"
+                      {...form.register("supplier")}
+                    />
+                  </div>
+
                   <div className="flex space-x-2">
                     <Button
                       type="submit"
@@ -320,6 +463,9 @@ export default function IngredientsPage() {
                           <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Category</th>
                           <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Unit</th>
                           <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Cost/Unit</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Yield</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">In Stock</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Supplier</th>
                           <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Actions</th>
                         </tr>
                       </thead>
@@ -328,6 +474,11 @@ export default function IngredientsPage() {
                           <tr key={ingredient.id} className="border-t border-neutral-100 hover:bg-neutral-50">
                             <td className="py-4 px-6">
                               <div className="font-medium text-neutral-900">{ingredient.name}</div>
+                              {ingredient.allergens.length > 0 && (
+                                <div className="text-xs text-red-600 mt-1">
+                                  Contains: {ingredient.allergens.map(key => ALLERGENS.find(a => a.key === key)?.label ?? key).join(", ")}
+                                </div>
+                              )}
                             </td>
                             <td className="py-4 px-6">
                               <Badge 
@@ -340,6 +491,11 @@ export default function IngredientsPage() {
                             <td className="py-4 px-6 font-medium text-neutral-900">
                               ${parseFloat(ingredient.costPerUnit).toFixed(2)}
                             </td>
+                            <td className="py-4 px-6 text-neutral-600">{parseFloat(ingredient.yieldPercentage)}%</td>
+                            <td className={`py-4 px-6 ${parseFloat(ingredient.stockQuantity) < 0 ? "text-red-600" : "text-neutral-600"}`}>
+                              {parseFloat(ingredient.stockQuantity)} {ingredient.unit}
+                            </td>
+                            <td className="py-4 px-6 text-neutral-600">{ingredient.supplier || "-"}</td>
                             <td className="py-4 px-6">
                               <div className="flex items-center space-x-2">
                                 <Button
@@ -1,8 +1,8 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Plus, Search, Edit, Trash2, AlertTriangle } from "lucide-react";
+import { Plus, Search, Edit, Trash2, AlertTriangle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,15 +10,138 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { insertProductSchema } from "@shared/schema";
-import type { Product, InsertProduct, ProductWithMargin, InventoryAlert } from "@shared/schema";
+import type { Product, InsertProduct, ProductWithMargin, InventoryAlert, RecipeWithDetails, TaxRate, ModifierGroupWithOptions } from "@shared/schema";
+import { isBundle } from "@shared/bundles";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
 const categories = ["Beverages", "Food", "Pastries", "Snacks", "Desserts"];
 const units = ["piece", "cup", "plate", "bottle", "kg", "g", "L", "mL"];
 
+// The products one bundle slot offers, each with what it costs on top of the bundle
+function SlotChoices({ form, slotIndex, products }: {
+  form: UseFormReturn<InsertProduct>;
+  slotIndex: number;
+  products: Product[];
+}) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `bundleSlots.${slotIndex}.choices`,
+  });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) => {
+        const productId = form.watch(`bundleSlots.${slotIndex}.choices.${index}.productId`);
+        return (
+          <div key={field.id} className="flex items-center space-x-2">
+            <Select
+              value={productId ? productId.toString() : undefined}
+              onValueChange={(value) => form.setValue(`bundleSlots.${slotIndex}.choices.${index}.productId`, parseInt(value))}
+            >
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue placeholder="Product..." />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id.toString()}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="+$0.00"
+              title="Upcharge for choosing this product"
+              className="w-20 h-8"
+              {...form.register(`bundleSlots.${slotIndex}.choices.${index}.upcharge`, { valueAsNumber: true })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => remove(index)}
+              className="p-1 text-neutral-400 hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => append({ productId: 0, upcharge: 0 })}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Choice
+      </Button>
+    </div>
+  );
+}
+
+// Slots that make a product a bundle, such as "sandwich + drink + pastry"
+function BundleSlots({ form, products }: {
+  form: UseFormReturn<InsertProduct>;
+  products: Product[];
+}) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "bundleSlots",
+  });
+
+  return (
+    <div>
+      <Label>Bundle</Label>
+      <div className="space-y-3 mt-1">
+        {fields.map((field, index) => (
+          <div key={field.id} className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Slot, e.g., Drink"
+                className="flex-1 h-8"
+                {...form.register(`bundleSlots.${index}.name`)}
+              />
+              <Input
+                type="number"
+                min="1"
+                title="How many of the chosen product come in the bundle"
+                className="w-16 h-8"
+                {...form.register(`bundleSlots.${index}.quantity`, { valueAsNumber: true })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(index)}
+                className="p-1 text-neutral-400 hover:text-red-500"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <SlotChoices form={form} slotIndex={index} products={products} />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: "", quantity: 1, choices: [{ productId: 0, upcharge: 0 }] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Slot
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export default function InventoryPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
@@ -33,6 +156,18 @@ export default function InventoryPage() {
     queryKey: ["/api/inventory/alerts"],
   });
 
+  const { data: recipes = [] } = useQuery<RecipeWithDetails[]>({
+    queryKey: ["/api/recipes"],
+  });
+
+  const { data: taxRates = [] } = useQuery<TaxRate[]>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const { data: modifierGroups = [] } = useQuery<ModifierGroupWithOptions[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
   const form = useForm<InsertProduct>({
     resolver: zodResolver(insertProductSchema),
     defaultValues: {
@@ -45,14 +180,31 @@ export default function InventoryPage() {
       supplier: "",
       minStock: 5,
       isActive: true,
+      recipeId: null,
+      recipePortions: 1,
+      taxRateId: null,
+      modifierGroupIds: [],
+      bundleSlots: [],
     },
   });
 
+  const linkedRecipe = recipes.find(recipe => recipe.id === form.watch("recipeId"));
+  const linkedPortions = form.watch("recipePortions") || 1;
+  const linkedCost = linkedRecipe ? linkedRecipe.costPerServing * linkedPortions : undefined;
+
+  // Keep the submitted cost in step with the linked recipe; the server derives it anyway
+  useEffect(() => {
+    if (linkedCost !== undefined) {
+      form.setValue("cost", Math.round(linkedCost * 100) / 100);
+    }
+  }, [linkedCost, form]);
+
   const createMutation = useMutation({
     mutationFn: (data: InsertProduct) => apiRequest("POST", "/api/products", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
       queryClient.invalidateQueries({ queryKey: ["/api/inventory/alerts"] });
       form.reset();
       toast({ title: "Success", description: "Product added successfully" });
@@ -68,6 +220,7 @@ export default function InventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
       queryClient.invalidateQueries({ queryKey: ["/api/inventory/alerts"] });
       setEditingProduct(null);
       form.reset();
@@ -83,6 +236,7 @@ export default function InventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
       queryClient.invalidateQueries({ queryKey: ["/api/inventory/alerts"] });
       toast({ title: "Success", description: "Product deleted successfully" });
     },
@@ -112,6 +266,11 @@ export default function InventoryPage() {
       minStock: product.minStock || 5,
       isActive: product.isActive || true,
       barcode: product.barcode || "",
+      recipeId: product.recipeId,
+      recipePortions: parseFloat(product.recipePortions || "1"),
+      taxRateId: product.taxRateId,
+      modifierGroupIds: product.modifierGroupIds,
+      bundleSlots: product.bundleSlots,
     });
   };
 
@@ -207,12 +366,49 @@ export default function InventoryPage() {
                   </div>
                   <div>
                     <Label htmlFor="cost">Cost ($)</Label>
+                    {linkedCost !== undefined ? (
+                      <Input id="cost" value={linkedCost.toFixed(2)} disabled />
+                    ) : (
+                      <Input
+                        id="cost"
+                        type="number"
+                        step="0.01"
+                        placeholder="0.00"
+                        {...form.register("cost", { valueAsNumber: true })}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="recipeId">Recipe</Label>
+                    <Select
+                      value={form.watch("recipeId")?.toString() ?? "none"}
+                      onValueChange={(value) => form.setValue("recipeId", value === "none" ? null : parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="No recipe" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No recipe</SelectItem>
+                        {recipes.map((recipe) => (
+                          <SelectItem key={recipe.id} value={recipe.id.toString()}>
+                            {recipe.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="recipePortions">Portions</Label>
                     <Input
-                      id="cost"
+                      id="recipePortions"
                       type="number"
-                      step="0.01"
-                      placeholder="0.00"
-                      {...form.register("cost", { valueAsNumber: true })}
+                      step="0.5"
+                      placeholder="1"
+                      disabled={!linkedRecipe}
+                      {...form.register("recipePortions", { valueAsNumber: true })}
                     />
                   </div>
                 </div>
@@ -254,6 +450,54 @@ export default function InventoryPage() {
                   </Select>
                 </div>
 
+                <div>
+                  <Label htmlFor="taxRateId">Tax Rate</Label>
+                  <Select
+                    value={form.watch("taxRateId")?.toString() ?? "category"}
+                    onValueChange={(value) => form.setValue("taxRateId", value === "category" ? null : parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="category">Category rate</SelectItem>
+                      {taxRates.map((rate) => (
+                        <SelectItem key={rate.id} value={rate.id.toString()}>
+                          {rate.name} ({parseFloat(rate.dineInRate)}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {modifierGroups.length > 0 && (
+                  <div>
+                    <Label>Modifiers</Label>
+                    <div className="grid grid-cols-2 gap-2 mt-1">
+                      {modifierGroups.map((group) => {
+                        const selected = form.watch("modifierGroupIds") ?? [];
+                        return (
+                          <div key={group.id} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`modifier-group-${group.id}`}
+                              checked={selected.includes(group.id)}
+                              onCheckedChange={(checked) => form.setValue("modifierGroupIds", checked
+                                ? [...selected, group.id]
+                                : selected.filter(id => id !== group.id))}
+                            />
+                            <Label htmlFor={`modifier-group-${group.id}`} className="text-sm font-normal">{group.name}</Label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <BundleSlots
+                  form={form}
+                  products={products.filter(product => product.id !== editingProduct?.id && !isBundle(product))}
+                />
+
                 <div>
                   <Label htmlFor="supplier">Supplier</Label>
                   <Input
@@ -356,14 +600,18 @@ export default function InventoryPage() {
                             </Badge>
                           </td>
                           <td className="py-4 px-6">
-                            <div className="flex items-center space-x-2">
-                              <span className={`font-medium ${product.isLowStock ? 'text-red-600 dark:text-red-400' : 'text-neutral-900 dark:text-white'}`}>
-                                {product.stock}
-                              </span>
-                              {product.isLowStock && (
-                                <AlertTriangle className="w-4 h-4 text-red-500" />
-                              )}
-                            </div>
+                            {isBundle(product) ? (
+                              <Badge variant="outline">Bundle</Badge>
+                            ) : (
+                              <div className="flex items-center space-x-2">
+                                <span className={`font-medium ${product.isLowStock ? 'text-red-600 dark:text-red-400' : 'text-neutral-900 dark:text-white'}`}>
+                                  {product.stock}
+                                </span>
+                                {product.isLowStock && (
+                                  <AlertTriangle className="w-4 h-4 text-red-500" />
+                                )}
+                              </div>
+                            )}
                           </td>
                           <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">
                             ${parseFloat(product.price).toFixed(2)}
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Plus, Settings, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import type { CategoryStation, KitchenStation, KitchenTicket, Product } from "@shared/schema";
+import { courseLabel, ticketSeconds } from "@shared/kitchen";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const formatTimer = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+// Tickets turn amber after 10 minutes on the screen and red after 20
+const ageStyle = (seconds: number) =>
+  seconds >= 20 * 60 ? "bg-red-500 text-white" : seconds >= 10 * 60 ? "bg-amber-400 text-neutral-900" : "bg-neutral-800 text-white";
+
+export default function KitchenPage() {
+  const [stationId, setStationId] = useState<number | null>(null);
+  const [setup, setSetup] = useState(false);
+  const [newStationName, setNewStationName] = useState("");
+  const [now, setNow] = useState(Date.now());
+  const { toast } = useToast();
+
+  const ticketsUrl = stationId ? `/api/kitchen-tickets?stationId=${stationId}` : "/api/kitchen-tickets";
+  const { data: tickets = [] } = useQuery<KitchenTicket[]>({
+    queryKey: [ticketsUrl],
+    refetchInterval: 5000,
+  });
+
+  const { data: stations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+
+  const { data: categoryStations = [] } = useQuery<CategoryStation[]>({
+    queryKey: ["/api/kitchen-stations/categories"],
+    enabled: setup,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: setup,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const invalidateTickets = () => {
+    queryClient.invalidateQueries({ queryKey: [ticketsUrl] });
+  };
+
+  const ticketMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: "bump" | "recall" }) =>
+      apiRequest("POST", `/api/kitchen-tickets/${id}/${action}`),
+    onSuccess: () => invalidateTickets(),
+    onError: () => {
+      invalidateTickets();
+      toast({ title: "Error", description: "Another screen has already moved that ticket", variant: "destructive" });
+    },
+  });
+
+  const createStationMutation = useMutation({
+    mutationFn: (name: string) => apiRequest("POST", "/api/kitchen-stations", { name, sortOrder: stations.length }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      setNewStationName("");
+      toast({ title: "Success", description: "Station added" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to add station", variant: "destructive" });
+    },
+  });
+
+  const deleteStationMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/kitchen-stations/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations/categories"] });
+      setStationId(null);
+      toast({ title: "Success", description: "Station deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete station", variant: "destructive" });
+    },
+  });
+
+  const categoryMutation = useMutation({
+    mutationFn: (data: { category: string; stationId: number | null }) =>
+      apiRequest("PUT", "/api/kitchen-stations/categories", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations/categories"] });
+      toast({ title: "Success", description: "Category routing saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save category routing", variant: "destructive" });
+    },
+  });
+
+  const handleDeleteStation = (station: KitchenStation) => {
+    if (confirm(`Delete ${station.name}? Its categories will no longer be sent to the kitchen.`)) {
+      deleteStationMutation.mutate(station.id);
+    }
+  };
+
+  const stationName = (id: number) => stations.find(station => station.id === id)?.name ?? `Station ${id}`;
+  const pending = tickets.filter(ticket => ticket.status === "pending");
+  const bumped = tickets
+    .filter(ticket => ticket.status === "bumped")
+    .sort((a, b) => new Date(b.bumpedAt!).getTime() - new Date(a.bumpedAt!).getTime());
+  const categories = Array.from(new Set(products.map(product => product.category))).sort();
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-neutral-900">Kitchen</h2>
+            <p className="text-neutral-600 mt-1">Tickets for each station, oldest first</p>
+          </div>
+          <Button variant={setup ? "default" : "outline"} onClick={() => setSetup(!setup)}>
+            <Settings className="w-4 h-4 mr-2" />
+            {setup ? "Done" : "Stations"}
+          </Button>
+        </div>
+      </header>
+
+      <div className="p-8 space-y-6">
+        {setup && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Stations</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {stations.map(station => (
+                  <div key={station.id} className="flex items-center justify-between">
+                    <span className="font-medium text-neutral-900">{station.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-1.5 text-neutral-400 hover:text-red-500"
+                      disabled={deleteStationMutation.isPending}
+                      onClick={() => handleDeleteStation(station)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center space-x-2 pt-2">
+                  <Input
+                    placeholder="e.g., Grill"
+                    value={newStationName}
+                    onChange={(e) => setNewStationName(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={!newStationName.trim() || createStationMutation.isPending}
+                    onClick={() => createStationMutation.mutate(newStationName.trim())}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <p className="text-sm text-neutral-600">
+                  Order lines go to the station that makes their category; categories without one are not sent
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {categories.length === 0 ? (
+                  <div className="text-center text-neutral-500">No product categories yet</div>
+                ) : (
+                  categories.map(category => {
+                    const assigned = categoryStations.find(entry => entry.category === category);
+                    return (
+                      <div key={category} className="flex items-center justify-between">
+                        <span className="font-medium text-neutral-900">{category}</span>
+                        <Select
+                          value={assigned ? assigned.stationId.toString() : "none"}
+                          onValueChange={(value) => categoryMutation.mutate({
+                            category,
+                            stationId: value === "none" ? null : parseInt(value),
+                          })}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not sent</SelectItem>
+                            {stations.map(station => (
+                              <SelectItem key={station.id} value={station.id.toString()}>{station.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Station filter */}
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant={stationId === null ? "default" : "outline"} onClick={() => setStationId(null)}>
+            All Stations
+          </Button>
+          {stations.map(station => (
+            <Button
+              key={station.id}
+              size="sm"
+              variant={stationId === station.id ? "default" : "outline"}
+              onClick={() => setStationId(station.id)}
+            >
+              {station.name}
+            </Button>
+          ))}
+        </div>
+
+        {/* Tickets */}
+        {pending.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-neutral-500">No tickets waiting</CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            {pending.map(ticket => {
+              const seconds = ticketSeconds(ticket, now);
+              return (
+                <Card key={ticket.id} className="overflow-hidden flex flex-col">
+                  <div className={`px-4 py-2 flex items-center justify-between ${ageStyle(seconds)}`}>
+                    <span className="font-semibold">{ticket.label}</span>
+                    <span className="font-mono">{formatTimer(seconds)}</span>
+                  </div>
+                  <CardContent className="p-4 flex-1 flex flex-col">
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      <Badge variant="outline">{courseLabel(ticket.course)}</Badge>
+                      {stationId === null && <Badge variant="secondary">{stationName(ticket.stationId)}</Badge>}
+                    </div>
+                    <ul className="space-y-2 flex-1">
+                      {ticket.items.map((item, index) => (
+                        <li key={index}>
+                          <div className="font-medium text-neutral-900">{item.quantity}× {item.name}</div>
+                          {item.modifiers.length > 0 && (
+                            <div className="text-sm text-neutral-600">{item.modifiers.join(", ")}</div>
+                          )}
+                          {item.bundle && <div className="text-xs text-neutral-500">in {item.bundle}</div>}
+                          {item.note && <div className="text-sm italic text-amber-700">{item.note}</div>}
+                        </li>
+                      ))}
+                    </ul>
+                    <Button
+                      className="w-full mt-4"
+                      disabled={ticketMutation.isPending}
+                      onClick={() => ticketMutation.mutate({ id: ticket.id, action: "bump" })}
+                    >
+                      <Check className="w-4 h-4 mr-2" />
+                      Bump
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Recently bumped */}
+        {bumped.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recently Bumped</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-neutral-100">
+                {bumped.map(ticket => (
+                  <div key={ticket.id} className="flex items-center justify-between px-6 py-3">
+                    <div>
+                      <span className="font-medium text-neutral-900">{ticket.label}</span>
+                      <span className="text-sm text-neutral-500 ml-2">
+                        {courseLabel(ticket.course)} · {stationName(ticket.stationId)} · made in {formatTimer(ticketSeconds(ticket))}
+                      </span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={ticketMutation.isPending}
+                      onClick={() => ticketMutation.mutate({ id: ticket.id, action: "recall" })}
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      Recall
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
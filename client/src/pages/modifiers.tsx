@@ -0,0 +1,410 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Edit, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { insertModifierGroupSchema } from "@shared/schema";
+import type { Ingredient, InsertModifierGroup, ModifierGroupWithOptions } from "@shared/schema";
+import { describeSelectionRule } from "@shared/modifiers";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+
+const emptyOption: InsertModifierGroup["options"][number] = {
+  name: "",
+  priceDelta: 0,
+  costDelta: 0,
+  ingredientDeltas: [],
+  isActive: true,
+};
+
+const emptyGroup: InsertModifierGroup = {
+  name: "",
+  minSelections: 0,
+  maxSelections: 1,
+  options: [emptyOption],
+};
+
+const toOptionalNumber = (value: string | number | null) =>
+  value === "" || value === null ? null : typeof value === "number" ? value : parseFloat(value);
+
+const formatDelta = (value: string) => {
+  const amount = parseFloat(value);
+  return amount === 0 ? "" : `${amount > 0 ? "+" : "-"}$${Math.abs(amount).toFixed(2)}`;
+};
+
+// The ingredients one option adds or leaves out, per item sold
+function OptionIngredients({ form, optionIndex, ingredients }: {
+  form: UseFormReturn<InsertModifierGroup>;
+  optionIndex: number;
+  ingredients: Ingredient[];
+}) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `options.${optionIndex}.ingredientDeltas`,
+  });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) => {
+        const ingredientId = form.watch(`options.${optionIndex}.ingredientDeltas.${index}.ingredientId`);
+        const ingredient = ingredients.find(candidate => candidate.id === ingredientId);
+        return (
+          <div key={field.id} className="flex items-center space-x-2">
+            <Select
+              value={ingredientId ? ingredientId.toString() : undefined}
+              onValueChange={(value) => form.setValue(`options.${optionIndex}.ingredientDeltas.${index}.ingredientId`, parseInt(value))}
+            >
+              <SelectTrigger className="flex-1 h-8">
+                <SelectValue placeholder="Ingredient..." />
+              </SelectTrigger>
+              <SelectContent>
+                {ingredients.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id.toString()}>{candidate.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="any"
+              placeholder="Qty"
+              title="Per item, in the ingredient's unit; negative leaves it out"
+              className="w-20 h-8"
+              {...form.register(`options.${optionIndex}.ingredientDeltas.${index}.quantity`, { valueAsNumber: true })}
+            />
+            <span className="text-xs text-neutral-500 w-10">{ingredient?.unit}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => remove(index)}
+              className="p-1 text-neutral-400 hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => append({ ingredientId: 0, quantity: 0 })}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Ingredient
+      </Button>
+    </div>
+  );
+}
+
+export default function ModifiersPage() {
+  const [editingGroup, setEditingGroup] = useState<ModifierGroupWithOptions | null>(null);
+  const { toast } = useToast();
+
+  const { data: groups = [] } = useQuery<ModifierGroupWithOptions[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
+  const { data: ingredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
+  const form = useForm<InsertModifierGroup>({
+    resolver: zodResolver(insertModifierGroupSchema),
+    defaultValues: emptyGroup,
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "options",
+  });
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    // apiRequest errors read "<status>: <body>"; a 400 body explains what is wrong
+    const body = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(body).message ?? fallback;
+    } catch {}
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/modifier-groups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertModifierGroup) => apiRequest("POST", "/api/modifier-groups", data),
+    onSuccess: () => {
+      invalidate();
+      form.reset(emptyGroup);
+      toast({ title: "Success", description: "Modifier group added successfully" });
+    },
+    onError: onMutationError("Failed to add modifier group"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: InsertModifierGroup }) =>
+      apiRequest("PUT", `/api/modifier-groups/${id}`, data),
+    onSuccess: () => {
+      invalidate();
+      setEditingGroup(null);
+      form.reset(emptyGroup);
+      toast({ title: "Success", description: "Modifier group updated successfully" });
+    },
+    onError: onMutationError("Failed to update modifier group"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/modifier-groups/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Modifier group deleted successfully" });
+    },
+    onError: onMutationError("Failed to delete modifier group"),
+  });
+
+  const onSubmit = (data: InsertModifierGroup) => {
+    if (editingGroup) {
+      updateMutation.mutate({ id: editingGroup.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (group: ModifierGroupWithOptions) => {
+    setEditingGroup(group);
+    form.reset({
+      name: group.name,
+      minSelections: group.minSelections,
+      maxSelections: group.maxSelections,
+      options: group.options.map(option => ({
+        id: option.id,
+        name: option.name,
+        priceDelta: parseFloat(option.priceDelta),
+        costDelta: parseFloat(option.costDelta),
+        ingredientDeltas: option.ingredientDeltas,
+        isActive: option.isActive,
+      })),
+    });
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm("Are you sure you want to delete this modifier group?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const cancelEdit = () => {
+    setEditingGroup(null);
+    form.reset(emptyGroup);
+  };
+
+  const errors = form.formState.errors;
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-neutral-900">Modifiers</h2>
+          <p className="text-neutral-600 mt-1">Sizes, extras and cooking choices offered when a product is rung up</p>
+        </div>
+      </header>
+
+      <div className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Form */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle>{editingGroup ? "Edit Modifier Group" : "Add Modifier Group"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div>
+                    <Label htmlFor="name">Name</Label>
+                    <Input id="name" placeholder="e.g., Milk" {...form.register("name")} />
+                    {errors.name && <p className="text-sm text-red-500 mt-1">{errors.name.message}</p>}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="minSelections">Minimum</Label>
+                      <Input
+                        id="minSelections"
+                        type="number"
+                        min="0"
+                        {...form.register("minSelections", { valueAsNumber: true })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="maxSelections">Maximum</Label>
+                      <Input
+                        id="maxSelections"
+                        type="number"
+                        min="1"
+                        placeholder="No limit"
+                        {...form.register("maxSelections", { setValueAs: toOptionalNumber })}
+                      />
+                    </div>
+                  </div>
+                  {errors.maxSelections && <p className="text-sm text-red-500">{errors.maxSelections.message}</p>}
+                  <p className="text-xs text-neutral-500">A minimum above zero makes the group required.</p>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <Label>Options</Label>
+                      <Button type="button" variant="outline" size="sm" onClick={() => append(emptyOption)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Option
+                      </Button>
+                    </div>
+                    {errors.options?.message && <p className="text-sm text-red-500 mb-2">{errors.options.message}</p>}
+
+                    <div className="space-y-3">
+                      {fields.map((field, index) => (
+                        <div key={field.id} className="p-3 border border-neutral-200 rounded-lg space-y-2">
+                          <div className="flex items-center space-x-2">
+                            <Input placeholder="Option name" {...form.register(`options.${index}.name`)} />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              className="p-1.5 text-neutral-400 hover:text-red-500"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          {errors.options?.[index]?.name && (
+                            <p className="text-sm text-red-500">{errors.options[index]?.name?.message}</p>
+                          )}
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <Label className="text-xs">Price +/-</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                className="h-8"
+                                {...form.register(`options.${index}.priceDelta`, { valueAsNumber: true })}
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Cost +/-</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                className="h-8"
+                                {...form.register(`options.${index}.costDelta`, { valueAsNumber: true })}
+                              />
+                            </div>
+                          </div>
+                          <OptionIngredients form={form} optionIndex={index} ingredients={ingredients} />
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`option-active-${index}`}
+                              checked={form.watch(`options.${index}.isActive`)}
+                              onCheckedChange={(checked) => form.setValue(`options.${index}.isActive`, checked === true)}
+                            />
+                            <Label htmlFor={`option-active-${index}`} className="text-sm">Available</Label>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button type="submit" className="flex-1" disabled={createMutation.isPending || updateMutation.isPending}>
+                      {editingGroup ? "Update Group" : "Add Group"}
+                    </Button>
+                    {editingGroup && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Groups Table */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Modifier Groups</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {groups.length === 0 ? (
+                  <div className="p-8 text-center text-neutral-500">No modifier groups set up yet</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-neutral-50">
+                        <tr>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Name</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Selection</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Options</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {groups.map((group) => (
+                          <tr key={group.id} className="border-t border-neutral-100 hover:bg-neutral-50">
+                            <td className="py-4 px-6 font-medium text-neutral-900">{group.name}</td>
+                            <td className="py-4 px-6 text-sm text-neutral-600">{describeSelectionRule(group)}</td>
+                            <td className="py-4 px-6">
+                              <div className="flex flex-wrap gap-1">
+                                {group.options.map(option => (
+                                  <Badge key={option.id} variant={option.isActive ? "secondary" : "outline"}>
+                                    {option.name} {formatDelta(option.priceDelta)}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="py-4 px-6">
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(group)}
+                                  className="p-1.5 text-neutral-400 hover:text-primary"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(group.id)}
+                                  className="p-1.5 text-neutral-400 hover:text-red-500"
+                                  disabled={deleteMutation.isPending}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,45 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Minus, X, CreditCard, Banknote, Printer, Search } from "lucide-react";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Plus, Minus, X, CreditCard, Banknote, Printer, Search, ShieldAlert, UtensilsCrossed, ShoppingBag, ClipboardList, PauseCircle, CookingPot, Flame } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import type { Product, InsertSale } from "@shared/schema";
+import { COURSES } from "@shared/schema";
+import type { ModifierGroupWithOptions, OpenOrder, OrderType, Product, Sale, ProductWithAllergens, SaleRequest, StockShortage } from "@shared/schema";
+import { roundMoney, type PricedSale } from "@shared/pricing";
+import { TENDER_TYPES, tenderLabel, type Tender, type TenderType } from "@shared/tendering";
+import { ALLERGENS, DIETARY_FLAGS, type Allergen } from "@shared/allergens";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { isBundle } from "@shared/bundles";
+import { openOrderLabel } from "@shared/orders";
+import { courseLabel } from "@shared/kitchen";
+import ModifierPickerDialog, { type ProductSelection } from "@/components/modifier-picker-dialog";
+import OpenOrdersDialog from "@/components/open-orders-dialog";
+import ParkOrderDialog from "@/components/park-order-dialog";
 
+// Lines with the same product, choices, options, note and course share a key and are rung up together
 interface CartItem {
+  key: string;
   product: Product;
   quantity: number;
+  modifierIds: number[];
+  modifierNames: string[];
+  bundleChoices: number[];
+  componentNames: string[];
+  note: string;
+  course: number;
+  unitPrice: number;
   total: number;
 }
 
+const cartKey = (productId: number, bundleChoices: number[], modifierIds: number[], note: string, course: number) =>
+  `${productId}:${bundleChoices.join(",")}:${[...modifierIds].sort((a, b) => a - b).join(",")}:${note}:${course}`;
+
 const categoryColors: Record<string, string> = {
   "Beverages": "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
   "Food": "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
@@ -26,79 +50,380 @@ export default function POSPage() {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "card">("card");
+  const [tenderType, setTenderType] = useState<TenderType>("card");
+  const [tenderAmount, setTenderAmount] = useState("");
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [cashTendered, setCashTendered] = useState("");
+  const [excludedAllergens, setExcludedAllergens] = useState<Allergen[]>([]);
+  const [discountPercentage, setDiscountPercentage] = useState("");
+  const [discountApprovedBy, setDiscountApprovedBy] = useState("");
+  const [orderType, setOrderType] = useState<OrderType>("dine_in");
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [pickingProduct, setPickingProduct] = useState<Product | null>(null);
+  // The open order (tab or table) loaded on this till; the cart is saved back to it
+  const [currentOrder, setCurrentOrder] = useState<OpenOrder | null>(null);
+  const [showOpenOrders, setShowOpenOrders] = useState(false);
+  const [parking, setParking] = useState(false);
+  const [, navigate] = useLocation();
+  // The Tables page opens a table's order here with ?order=<id>
+  const requestedOrderId = new URLSearchParams(useSearch()).get("order");
   const { toast } = useToast();
 
-  const { data: products = [], isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: products = [], isLoading } = useQuery<ProductWithAllergens[]>({
+    queryKey: ["/api/products/with-allergens"],
+  });
+
+  const { data: modifierGroups = [] } = useQuery<ModifierGroupWithOptions[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
+  const productGroups = (product: Product | null) => (product?.modifierGroupIds ?? [])
+    .map(groupId => modifierGroups.find(group => group.id === groupId))
+    .filter((group): group is ModifierGroupWithOptions => group !== undefined);
+
+  const cartLines = cart.map(item => ({
+    productId: item.product.id,
+    quantity: item.quantity,
+    ...(item.modifierIds.length > 0 ? { modifierIds: item.modifierIds } : {}),
+    ...(item.bundleChoices.length > 0 ? { bundleChoices: item.bundleChoices } : {}),
+    ...(item.note ? { note: item.note } : {}),
+    ...(item.course > 1 ? { course: item.course } : {})
+  }));
+  const discountValue = parseFloat(discountPercentage);
+  const discount = discountValue > 0 && discountValue <= 100
+    ? { type: "percentage" as const, value: discountValue }
+    : null;
+
+  // Totals always come from the server so the till shows exactly what will be charged
+  const { data: quote, isFetching: isQuoting, error: quoteError } = useQuery<PricedSale>({
+    queryKey: ["/api/sales/quote", cartLines, discount, couponCode, orderType],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/sales/quote", {
+        items: cartLines,
+        discount,
+        couponCode,
+        orderType,
+        cashierId: "cashier01"
+      });
+      return res.json();
+    },
+    enabled: cart.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  // The quote is refused when the coupon does not match a running promotion
+  useEffect(() => {
+    if (quoteError && couponCode) {
+      setCouponCode(null);
+      toast({ title: "Coupon not applied", description: `${couponCode} is not a valid coupon code`, variant: "destructive" });
+    }
+  }, [quoteError, couponCode, toast]);
+
+  const clearOrder = () => {
+    setCart([]);
+    setCurrentOrder(null);
+    setDiscountPercentage("");
+    setDiscountApprovedBy("");
+    setCouponInput("");
+    setCouponCode(null);
+    setTenders([]);
+    setTenderAmount("");
+    setCashTendered("");
+  };
+
+  // apiRequest errors read "<status>: <body>"; a 400 or 409 body says what went wrong
+  const showOrderError = (error: Error, fallback: string) => {
+    const body = /^(400|409):/.test(error.message) ? JSON.parse(error.message.slice(4)) as { message?: string } : {};
+    queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+    toast({ title: "Error", description: body.message ?? fallback, variant: "destructive" });
+  };
+
+  // Saves the cart to the loaded order, or opens a new one with it
+  const saveOrder = async (details?: { name: string | null; tableNumber: string | null; covers: number | null }): Promise<OpenOrder> => {
+    const res = currentOrder
+      ? await apiRequest("PUT", `/api/open-orders/${currentOrder.id}`, { items: cartLines, orderType, version: currentOrder.version })
+      : await apiRequest("POST", "/api/open-orders", { ...details, items: cartLines, orderType, openedBy: "cashier01" });
+    return res.json();
+  };
+
+  const parkMutation = useMutation({
+    mutationFn: saveOrder,
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      clearOrder();
+      setParking(false);
+      toast({ title: "Success", description: `${openOrderLabel(order)} parked` });
+    },
+    onError: (error: Error) => showOrderError(error, "Failed to park order"),
+  });
+
+  // Saves the cart to the order and sends what is new on it to the kitchen
+  const sendMutation = useMutation({
+    mutationFn: async (): Promise<OpenOrder> => {
+      const saved = await saveOrder();
+      setCurrentOrder(saved);
+      const res = await apiRequest("POST", `/api/open-orders/${saved.id}/send`);
+      return res.json();
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      setCurrentOrder(order);
+      toast({ title: "Success", description: `${openOrderLabel(order)} sent to the kitchen` });
+    },
+    onError: (error: Error) => showOrderError(error, "Failed to send order to the kitchen"),
+  });
+
+  const fireMutation = useMutation({
+    mutationFn: async (course: number): Promise<OpenOrder> => {
+      const res = await apiRequest("POST", `/api/open-orders/${currentOrder!.id}/fire`, { course });
+      return res.json();
+    },
+    onSuccess: (order) => {
+      setCurrentOrder(order);
+      toast({ title: "Success", description: `${courseLabel(order.firedCourse)} fired for ${openOrderLabel(order)}` });
+    },
+    onError: (error: Error) => showOrderError(error, "Failed to fire course"),
   });
 
   const createSaleMutation = useMutation({
-    mutationFn: (data: InsertSale) => apiRequest("POST", "/api/sales", data),
-    onSuccess: () => {
+    mutationFn: async (data: SaleRequest): Promise<Sale> => {
+      if (currentOrder) {
+        // The order is saved first so payment is taken for exactly what is in the cart
+        const saved = await saveOrder();
+        setCurrentOrder(saved);
+        const { items, orderType, ...payment } = data;
+        const res = await apiRequest("POST", `/api/open-orders/${saved.id}/settle`, { ...payment, version: saved.version });
+        return res.json();
+      }
+      const res = await apiRequest("POST", "/api/sales", data);
+      return res.json();
+    },
+    onSuccess: (sale) => {
       queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      setCart([]);
-      toast({ title: "Success", description: "Sale completed successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+      clearOrder();
+      const change = parseFloat(sale.changeDue);
+      toast({
+        title: "Success",
+        description: change > 0 ? `Sale completed. Change due: $${change.toFixed(2)}` : "Sale completed successfully"
+      });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to complete sale", variant: "destructive" });
+    onError: (error: Error) => {
+      // apiRequest errors read "<status>: <body>"; a 409 body lists what is out of stock
+      if (error.message.startsWith("409:")) {
+        const body = JSON.parse(error.message.slice(4)) as { products?: StockShortage[]; mismatches?: string[]; promotion?: string };
+        if (body.promotion) {
+          setCouponCode(null);
+          queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+          toast({ title: "Promotion ended", description: `${body.promotion} is no longer available`, variant: "destructive" });
+          return;
+        }
+        if (body.mismatches) {
+          queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
+          toast({ title: "Prices changed", description: "Please check the updated total and try again", variant: "destructive" });
+          return;
+        }
+        if (!body.products) {
+          showOrderError(error, "Failed to complete sale");
+          return;
+        }
+        const shortages = body.products ?? [];
+        const names = shortages.map(shortage => shortage.ingredients.length > 0
+          ? `${shortage.productName} (${shortage.ingredients.map(ingredient => ingredient.name).join(", ")})`
+          : `${shortage.productName} (${shortage.available ?? 0} left)`);
+        toast({ title: "Not enough stock", description: names.join("; "), variant: "destructive" });
+        return;
+      }
+      // A 400 says what to fix, such as a discount that needs approving
+      showOrderError(error, "Failed to complete sale");
     },
   });
 
-  const addToCart = (product: Product) => {
+  // Bundles and products with modifier groups are configured in the picker before they reach the cart
+  const selectProduct = (product: Product) => {
+    if (isBundle(product) || productGroups(product).length > 0) {
+      setPickingProduct(product);
+    } else {
+      addToCart(product);
+    }
+  };
+
+  // A cart line for a product as configured; its price is a preview until the server quotes it
+  const cartItem = (product: Product, selection: ProductSelection, quantity: number, course: number = 1): CartItem => {
+    const { modifierIds, bundleChoices, note } = selection;
+    const options = productGroups(product)
+      .flatMap(group => group.options)
+      .filter(option => modifierIds.includes(option.id));
+    const upcharges = product.bundleSlots.reduce((sum, slot, index) =>
+      sum + (slot.choices.find(choice => choice.productId === bundleChoices[index])?.upcharge ?? 0), 0);
+    const unitPrice = roundMoney(
+      parseFloat(product.price) + upcharges + options.reduce((sum, option) => sum + parseFloat(option.priceDelta), 0)
+    );
+    return {
+      key: cartKey(product.id, bundleChoices, modifierIds, note, course),
+      product,
+      quantity,
+      modifierIds,
+      modifierNames: options.map(option => option.name),
+      bundleChoices,
+      componentNames: bundleChoices.map(productId => products.find(candidate => candidate.id === productId)?.name ?? `Product #${productId}`),
+      note,
+      course,
+      unitPrice,
+      total: roundMoney(unitPrice * quantity)
+    };
+  };
+
+  const addToCart = (product: Product, selection: ProductSelection = { modifierIds: [], bundleChoices: [], note: "" }) => {
+    const added = cartItem(product, selection, 1);
     setCart(prev => {
-      const existingItem = prev.find(item => item.product.id === product.id);
+      const existingItem = prev.find(item => item.key === added.key);
       if (existingItem) {
         return prev.map(item =>
-          item.product.id === product.id
-            ? { ...item, quantity: item.quantity + 1, total: (item.quantity + 1) * parseFloat(product.price) }
+          item.key === added.key
+            ? { ...item, quantity: item.quantity + 1, total: roundMoney((item.quantity + 1) * item.unitPrice) }
             : item
         );
       } else {
-        return [...prev, { product, quantity: 1, total: parseFloat(product.price) }];
+        return [...prev, added];
+      }
+    });
+  };
+
+  // Loads an open order into the cart; lines for products since deleted are left out
+  const resumeOrder = (order: OpenOrder) => {
+    if (cart.length > 0 && !currentOrder && !confirm("Replace the items in the cart with this order?")) return;
+    const items: CartItem[] = [];
+    order.items.forEach(line => {
+      const product = products.find(candidate => candidate.id === line.productId);
+      if (!product) return;
+      const item = cartItem(product, {
+        modifierIds: line.modifierIds ?? [],
+        bundleChoices: line.bundleChoices ?? [],
+        note: line.note ?? ""
+      }, line.quantity, line.course ?? 1);
+      const existingItem = items.find(existing => existing.key === item.key);
+      if (existingItem) {
+        existingItem.quantity += item.quantity;
+        existingItem.total = roundMoney(existingItem.quantity * existingItem.unitPrice);
+      } else {
+        items.push(item);
       }
     });
+
+    clearOrder();
+    setCart(items);
+    setOrderType(order.orderType as OrderType);
+    setCurrentOrder(order);
+    setShowOpenOrders(false);
+    const missing = order.items.filter(line => !products.some(product => product.id === line.productId)).length;
+    if (missing > 0) {
+      toast({ title: "Some items left out", description: `${missing} line(s) are no longer on the menu`, variant: "destructive" });
+    }
+  };
+
+  useEffect(() => {
+    if (!requestedOrderId || products.length === 0) return;
+    navigate("/pos", { replace: true });
+    apiRequest("GET", `/api/open-orders/${requestedOrderId}`)
+      .then(res => res.json())
+      .then((order: OpenOrder) => resumeOrder(order))
+      .catch(() => toast({ title: "Error", description: "Failed to load order", variant: "destructive" }));
+  }, [requestedOrderId, products.length]);
+
+  // Moves a line on to the next course, back round to the first after the last. A line
+  // moved onto an identical one joins it.
+  const cycleCourse = (key: string) => {
+    setCart(prev => {
+      const item = prev.find(entry => entry.key === key);
+      if (!item) return prev;
+      const course = item.course % COURSES.length + 1;
+      const movedKey = cartKey(item.product.id, item.bundleChoices, item.modifierIds, item.note, course);
+      const existingItem = prev.find(entry => entry.key === movedKey);
+      if (!existingItem) {
+        return prev.map(entry => entry.key === key ? { ...entry, course, key: movedKey } : entry);
+      }
+      const quantity = existingItem.quantity + item.quantity;
+      return prev
+        .filter(entry => entry.key !== key)
+        .map(entry => entry.key === movedKey ? { ...entry, quantity, total: roundMoney(quantity * entry.unitPrice) } : entry);
+    });
   };
 
-  const updateQuantity = (productId: number, newQuantity: number) => {
+  const updateQuantity = (key: string, newQuantity: number) => {
     if (newQuantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(key);
       return;
     }
     setCart(prev =>
       prev.map(item =>
-        item.product.id === productId
-          ? { ...item, quantity: newQuantity, total: newQuantity * parseFloat(item.product.price) }
+        item.key === key
+          ? { ...item, quantity: newQuantity, total: roundMoney(newQuantity * item.unitPrice) }
           : item
       )
     );
   };
 
-  const removeFromCart = (productId: number) => {
-    setCart(prev => prev.filter(item => item.product.id !== productId));
+  const removeFromCart = (key: string) => {
+    setCart(prev => prev.filter(item => item.key !== key));
   };
 
-  const subtotal = cart.reduce((sum, item) => sum + item.total, 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const total = subtotal + tax;
+  const subtotal = quote?.subtotal ?? cart.reduce((sum, item) => sum + item.total, 0);
+  // The loaded order's next course that the kitchen has not been told to start on
+  const nextCourse = currentOrder
+    ? cart.map(item => item.course).filter(course => course > currentOrder.firedCourse).sort((a, b) => a - b)[0] ?? null
+    : null;
+  const appliedPromotions = quote?.promotions ?? [];
+  const taxBreakdown = quote?.taxBreakdown ?? [];
+  const total = quote?.totalAmount ?? subtotal;
+
+  // With no tenders added, the selected tender pays the whole total
+  const paymentTenders = tenders.length > 0 ? tenders : [{ type: tenderType, amount: total }];
+  const remaining = roundMoney(total - paymentTenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const cashDue = roundMoney(paymentTenders.filter(tender => tender.type === "cash").reduce((sum, tender) => sum + tender.amount, 0));
+  const cashGiven = parseFloat(cashTendered);
+  const changeDue = cashDue > 0 && cashGiven >= cashDue ? roundMoney(cashGiven - cashDue) : 0;
+
+  const addTender = () => {
+    const balance = roundMoney(total - tenders.reduce((sum, tender) => sum + tender.amount, 0));
+    const amount = tenderAmount ? parseFloat(tenderAmount) : balance;
+    if (!(amount > 0) || amount > balance + 0.005) {
+      toast({ title: "Error", description: `Enter an amount up to $${balance.toFixed(2)}`, variant: "destructive" });
+      return;
+    }
+    setTenders(prev => [...prev, { type: tenderType, amount: roundMoney(amount) }]);
+    setTenderAmount("");
+  };
 
   const handleCheckout = () => {
     if (cart.length === 0) {
       toast({ title: "Error", description: "Cart is empty", variant: "destructive" });
       return;
     }
+    if (remaining !== 0) {
+      toast({ title: "Error", description: `$${remaining.toFixed(2)} still to pay`, variant: "destructive" });
+      return;
+    }
+    if (cashDue > 0 && cashTendered && !(cashGiven >= cashDue)) {
+      toast({ title: "Error", description: `Cash tendered must be at least $${cashDue.toFixed(2)}`, variant: "destructive" });
+      return;
+    }
 
-    const saleData: InsertSale = {
-      totalAmount: total,
-      taxAmount: tax,
-      paymentMethod,
-      items: cart.map(item => ({
-        productId: item.product.id,
-        quantity: item.quantity,
-        price: parseFloat(item.product.price),
-        total: item.total
-      })),
+    const saleData: SaleRequest = {
+      items: cartLines,
+      discount,
+      discountApprovedBy: discount && discountApprovedBy.trim() ? discountApprovedBy.trim() : null,
+      couponCode,
+      orderType,
+      // Sent so the server refuses the sale if prices moved since the quote
+      totalAmount: quote?.totalAmount,
+      tenders: paymentTenders,
+      cashTendered: cashDue > 0 && cashTendered ? cashGiven : null,
       cashierId: "cashier01"
     };
 
@@ -108,7 +433,10 @@ export default function POSPage() {
   const filteredProducts = products.filter(product => {
     const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = selectedCategory === "all" || product.category === selectedCategory;
-    return matchesSearch && matchesCategory && product.isActive;
+    // With a filter on, products whose allergens are unknown cannot be shown as safe
+    const matchesAllergens = excludedAllergens.length === 0
+      || (product.allergensKnown && !product.allergens.some(allergen => excludedAllergens.includes(allergen)));
+    return matchesSearch && matchesCategory && matchesAllergens && product.isActive;
   });
 
   const categories = ["all", ...Array.from(new Set(products.map(p => p.category)))];
@@ -141,6 +469,33 @@ export default function POSPage() {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant={excludedAllergens.length > 0 ? "default" : "outline"} size="sm">
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                {excludedAllergens.length > 0 ? `Hiding ${excludedAllergens.length} allergens` : "Allergens"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Hide items containing</DropdownMenuLabel>
+              <p className="px-2 pb-1 text-xs text-neutral-500">Items without allergen information are hidden too</p>
+              <DropdownMenuSeparator />
+              {ALLERGENS.map(allergen => (
+                <DropdownMenuCheckboxItem
+                  key={allergen.key}
+                  checked={excludedAllergens.includes(allergen.key)}
+                  onCheckedChange={(checked) =>
+                    setExcludedAllergens(prev => checked
+                      ? [...prev, allergen.key]
+                      : prev.filter(key => key !== allergen.key))
+                  }
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {allergen.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <div className="flex space-x-2">
             {categories.map(category => (
               <Button
@@ -162,7 +517,7 @@ export default function POSPage() {
             <Card
               key={product.id}
               className="cursor-pointer hover:shadow-lg transition-all duration-200 transform hover:scale-[1.02] bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800"
-              onClick={() => addToCart(product)}
+              onClick={() => selectProduct(product)}
             >
               <CardContent className="p-4">
                 <div className="aspect-square bg-gradient-to-br from-neutral-100 to-neutral-200 dark:from-neutral-800 dark:to-neutral-700 rounded-lg mb-3 flex items-center justify-center">
@@ -172,9 +527,30 @@ export default function POSPage() {
                 <Badge className={categoryColors[product.category] || "bg-gray-100 text-gray-700"} variant="secondary">
                   {product.category}
                 </Badge>
+                {(product.allergens.length > 0 || product.dietaryFlags.length > 0 || !product.allergensKnown) && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {!product.allergensKnown && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-amber-200 text-amber-700 dark:border-amber-800 dark:text-amber-300">
+                        Allergens unknown
+                      </Badge>
+                    )}
+                    {product.allergens.map(key => (
+                      <Badge key={key} variant="outline" className="text-[10px] px-1.5 py-0 capitalize border-red-200 text-red-700 dark:border-red-800 dark:text-red-300">
+                        {key}
+                      </Badge>
+                    ))}
+                    {product.dietaryFlags.map(key => (
+                      <Badge key={key} variant="outline" className="text-[10px] px-1.5 py-0 border-green-200 text-green-700 dark:border-green-800 dark:text-green-300">
+                        {DIETARY_FLAGS.find(flag => flag.key === key)?.label ?? key}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <div className="flex items-center justify-between mt-2">
                   <span className="text-lg font-bold text-primary">${parseFloat(product.price).toFixed(2)}</span>
-                  <span className="text-sm text-neutral-500 dark:text-neutral-400">Stock: {product.stock}</span>
+                  <span className="text-sm text-neutral-500 dark:text-neutral-400">
+                    {isBundle(product) ? "Bundle" : `Stock: ${product.stock}`}
+                  </span>
                 </div>
               </CardContent>
             </Card>
@@ -185,8 +561,71 @@ export default function POSPage() {
       {/* Cart Panel */}
       <div className="w-96 bg-white dark:bg-neutral-900 border-l border-neutral-200 dark:border-neutral-800 flex flex-col">
         <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
-          <h2 className="text-xl font-semibold text-neutral-900 dark:text-white">Current Order</h2>
-          <p className="text-sm text-neutral-600 dark:text-neutral-400">{cart.length} items</p>
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-neutral-900 dark:text-white">
+                {currentOrder ? openOrderLabel(currentOrder) : "Current Order"}
+              </h2>
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">{cart.length} items</p>
+            </div>
+            <div className="flex space-x-2">
+              {currentOrder && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Send to kitchen"
+                  disabled={cart.length === 0 || sendMutation.isPending}
+                  onClick={() => sendMutation.mutate()}
+                >
+                  <CookingPot className="w-4 h-4" />
+                </Button>
+              )}
+              <Button variant="outline" size="sm" title="Open orders" onClick={() => setShowOpenOrders(true)}>
+                <ClipboardList className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                title={currentOrder ? "Save and park" : "Park order"}
+                disabled={(cart.length === 0 && !currentOrder) || parkMutation.isPending}
+                onClick={() => currentOrder ? parkMutation.mutate(undefined) : setParking(true)}
+              >
+                <PauseCircle className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex space-x-2 mt-3">
+            <Button
+              variant={orderType === "dine_in" ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setOrderType("dine_in")}
+            >
+              <UtensilsCrossed className="w-4 h-4 mr-2" />
+              Dine In
+            </Button>
+            <Button
+              variant={orderType === "takeaway" ? "default" : "outline"}
+              size="sm"
+              className="flex-1"
+              onClick={() => setOrderType("takeaway")}
+            >
+              <ShoppingBag className="w-4 h-4 mr-2" />
+              Takeaway
+            </Button>
+          </div>
+          {nextCourse !== null && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full mt-2"
+              disabled={fireMutation.isPending}
+              onClick={() => fireMutation.mutate(nextCourse)}
+            >
+              <Flame className="w-4 h-4 mr-2" />
+              Fire {courseLabel(nextCourse)}
+            </Button>
+          )}
         </div>
 
         {/* Cart Items */}
@@ -197,17 +636,33 @@ export default function POSPage() {
             </div>
           ) : (
             cart.map(item => (
-              <div key={item.product.id} className="flex items-center space-x-3 p-3 bg-neutral-50 dark:bg-neutral-800 rounded-lg">
+              <div key={item.key} className="flex items-center space-x-3 p-3 bg-neutral-50 dark:bg-neutral-800 rounded-lg">
                 <div className="flex-1">
                   <h4 className="font-medium text-neutral-900 dark:text-white text-sm">{item.product.name}</h4>
-                  <p className="text-xs text-neutral-600 dark:text-neutral-400">${parseFloat(item.product.price).toFixed(2)} each</p>
+                  {item.componentNames.length > 0 && (
+                    <p className="text-xs text-neutral-700 dark:text-neutral-300">{item.componentNames.join(" + ")}</p>
+                  )}
+                  {item.modifierNames.length > 0 && (
+                    <p className="text-xs text-neutral-700 dark:text-neutral-300">{item.modifierNames.join(", ")}</p>
+                  )}
+                  {item.note && <p className="text-xs italic text-neutral-500 dark:text-neutral-400">{item.note}</p>}
+                  {orderType === "dine_in" && (
+                    <button
+                      className="text-xs text-primary hover:underline"
+                      title="Change course"
+                      onClick={() => cycleCourse(item.key)}
+                    >
+                      {courseLabel(item.course)}
+                    </button>
+                  )}
+                  <p className="text-xs text-neutral-600 dark:text-neutral-400">${item.unitPrice.toFixed(2)} each</p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Button
                     size="sm"
                     variant="outline"
                     className="w-8 h-8 p-0"
-                    onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                    onClick={() => updateQuantity(item.key, item.quantity - 1)}
                   >
                     <Minus className="w-3 h-3" />
                   </Button>
@@ -216,7 +671,7 @@ export default function POSPage() {
                     size="sm"
                     variant="outline"
                     className="w-8 h-8 p-0"
-                    onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
+                    onClick={() => updateQuantity(item.key, item.quantity + 1)}
                   >
                     <Plus className="w-3 h-3" />
                   </Button>
@@ -228,7 +683,7 @@ export default function POSPage() {
                   size="sm"
                   variant="ghost"
                   className="w-8 h-8 p-0 text-neutral-400 hover:text-red-500"
-                  onClick={() => removeFromCart(item.product.id)}
+                  onClick={() => removeFromCart(item.key)}
                 >
                   <X className="w-4 h-4" />
                 </Button>
@@ -245,52 +700,177 @@ export default function POSPage() {
                 <span className="text-neutral-600 dark:text-neutral-400">Subtotal</span>
                 <span className="text-neutral-900 dark:text-white">${subtotal.toFixed(2)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-neutral-600 dark:text-neutral-400">Tax (8%)</span>
-                <span className="text-neutral-900 dark:text-white">${tax.toFixed(2)}</span>
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-neutral-600 dark:text-neutral-400">Discount %</span>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={discountPercentage}
+                  onChange={(e) => setDiscountPercentage(e.target.value)}
+                  className="w-20 h-8 text-right"
+                />
+              </div>
+              {discount && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">Approved by</span>
+                  <Input
+                    placeholder="Manager, if over the limit"
+                    value={discountApprovedBy}
+                    onChange={(e) => setDiscountApprovedBy(e.target.value)}
+                    className="w-44 h-8"
+                  />
+                </div>
+              )}
+              <div className="flex justify-between items-center text-sm space-x-2">
+                <Input
+                  placeholder="Coupon code"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value)}
+                  className="h-8"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8"
+                  onClick={() => setCouponCode(couponInput.trim() ? couponInput.trim().toUpperCase() : null)}
+                >
+                  Apply
+                </Button>
               </div>
+              {appliedPromotions.map((promotion, index) => (
+                <div key={`${promotion.promotionId}:${index}`} className="flex justify-between text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">
+                    {promotion.name}{promotion.couponCode ? ` (${promotion.couponCode})` : ""}
+                  </span>
+                  <span className="text-green-600 dark:text-green-400">-${promotion.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {taxBreakdown.map(entry => (
+                <div key={`${entry.taxRateId}:${entry.rate}`} className="flex justify-between text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">
+                    {entry.name} ({entry.rate}%{entry.inclusive ? ", included" : ""})
+                  </span>
+                  <span className="text-neutral-900 dark:text-white">${entry.taxAmount.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="flex justify-between text-lg font-semibold border-t pt-2">
                 <span className="text-neutral-900 dark:text-white">Total</span>
                 <span className="text-primary">${total.toFixed(2)}</span>
               </div>
             </div>
 
-            {/* Payment Method */}
+            {/* Payment */}
             <div className="space-y-2">
-              <p className="text-sm font-medium text-neutral-900 dark:text-white">Payment Method</p>
+              <p className="text-sm font-medium text-neutral-900 dark:text-white">Payment</p>
+              <div className="grid grid-cols-3 gap-2">
+                {TENDER_TYPES.map(tender => (
+                  <Button
+                    key={tender.key}
+                    variant={tenderType === tender.key ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setTenderType(tender.key)}
+                  >
+                    {tender.key === "cash" ? <Banknote className="w-4 h-4 mr-1" /> : tender.key === "card" ? <CreditCard className="w-4 h-4 mr-1" /> : null}
+                    {tender.label}
+                  </Button>
+                ))}
+              </div>
               <div className="flex space-x-2">
-                <Button
-                  variant={paymentMethod === "card" ? "default" : "outline"}
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => setPaymentMethod("card")}
-                >
-                  <CreditCard className="w-4 h-4 mr-2" />
-                  Card
-                </Button>
-                <Button
-                  variant={paymentMethod === "cash" ? "default" : "outline"}
-                  size="sm"
-                  className="flex-1"
-                  onClick={() => setPaymentMethod("cash")}
-                >
-                  <Banknote className="w-4 h-4 mr-2" />
-                  Cash
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={`Split amount (max $${roundMoney(total - tenders.reduce((sum, tender) => sum + tender.amount, 0)).toFixed(2)})`}
+                  value={tenderAmount}
+                  onChange={(e) => setTenderAmount(e.target.value)}
+                  className="h-8"
+                />
+                <Button size="sm" variant="outline" className="h-8" onClick={addTender} disabled={!quote}>
+                  Add
                 </Button>
               </div>
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex justify-between items-center text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">{tenderLabel(tender.type)}</span>
+                  <span className="flex items-center text-neutral-900 dark:text-white">
+                    ${tender.amount.toFixed(2)}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="w-6 h-6 p-0 ml-1 text-neutral-400 hover:text-red-500"
+                      onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+              {tenders.length > 0 && remaining !== 0 && (
+                <div className="flex justify-between text-sm font-medium text-amber-600">
+                  <span>Remaining</span>
+                  <span>${remaining.toFixed(2)}</span>
+                </div>
+              )}
+              {cashDue > 0 && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-neutral-600 dark:text-neutral-400">Cash tendered</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={cashDue.toFixed(2)}
+                    value={cashTendered}
+                    onChange={(e) => setCashTendered(e.target.value)}
+                    className="w-24 h-8 text-right"
+                  />
+                </div>
+              )}
+              {changeDue > 0 && (
+                <div className="flex justify-between text-sm font-semibold">
+                  <span className="text-neutral-900 dark:text-white">Change due</span>
+                  <span className="text-primary">${changeDue.toFixed(2)}</span>
+                </div>
+              )}
             </div>
 
             {/* Checkout Button */}
             <Button
               className="w-full h-12 text-lg font-semibold bg-gradient-to-r from-primary to-secondary hover:from-primary/90 hover:to-secondary/90"
               onClick={handleCheckout}
-              disabled={createSaleMutation.isPending}
+              disabled={createSaleMutation.isPending || !quote || isQuoting}
             >
               {createSaleMutation.isPending ? "Processing..." : "Complete Sale"}
             </Button>
           </div>
         )}
       </div>
+
+      <ModifierPickerDialog
+        product={pickingProduct}
+        groups={productGroups(pickingProduct)}
+        products={products}
+        onConfirm={(selection) => {
+          if (pickingProduct) addToCart(pickingProduct, selection);
+          setPickingProduct(null);
+        }}
+        onClose={() => setPickingProduct(null)}
+      />
+
+      <OpenOrdersDialog
+        open={showOpenOrders}
+        currentOrderId={currentOrder?.id ?? null}
+        onResume={resumeOrder}
+        onClose={() => setShowOpenOrders(false)}
+      />
+
+      <ParkOrderDialog
+        open={parking}
+        isPending={parkMutation.isPending}
+        onConfirm={(details) => parkMutation.mutate(details)}
+        onClose={() => setParking(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,482 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Edit, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { insertPromotionSchema } from "@shared/schema";
+import type { InsertPromotion, Product, Promotion, PromotionType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage off",
+  fixed: "Amount off",
+  buy_x_get_y: "Buy X get Y",
+};
+
+const emptyPromotion: InsertPromotion = {
+  name: "",
+  type: "percentage",
+  scope: "line",
+  value: 10,
+  buyQuantity: null,
+  getQuantity: null,
+  productIds: [],
+  categories: [],
+  minSubtotal: null,
+  daysOfWeek: [],
+  startTime: null,
+  endTime: null,
+  startsAt: null,
+  endsAt: null,
+  couponCode: null,
+  usageLimit: null,
+  isActive: true,
+};
+
+const toOptionalNumber = (value: string | number | null) =>
+  value === "" || value === null ? null : typeof value === "number" ? value : parseFloat(value);
+
+const toDateInput = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toISOString().split("T")[0] : "";
+
+// A one-line description of when and to what a promotion applies
+function describePromotion(promotion: Promotion, products: Product[]): string {
+  const value = parseFloat(promotion.value);
+  const amount = promotion.type === "buy_x_get_y"
+    ? `Buy ${promotion.buyQuantity} get ${promotion.getQuantity}${value < 100 ? ` ${value}% off` : " free"}`
+    : promotion.type === "percentage" ? `${value}% off` : `$${value.toFixed(2)} off`;
+  const targets = [
+    ...promotion.categories,
+    ...promotion.productIds.map(id => products.find(product => product.id === id)?.name ?? `#${id}`),
+  ];
+  const scope = promotion.type !== "buy_x_get_y" && promotion.scope === "order"
+    ? "the order"
+    : targets.length > 0 ? targets.join(", ") : "every item";
+  const when = [
+    promotion.daysOfWeek.length > 0 ? promotion.daysOfWeek.map(day => DAYS[day]).join("/") : "",
+    promotion.startTime && promotion.endTime ? `${promotion.startTime}–${promotion.endTime}` : "",
+  ].filter(Boolean).join(" ");
+  return `${amount} ${scope}${when ? `, ${when}` : ""}`;
+}
+
+export default function PromotionsPage() {
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const { toast } = useToast();
+
+  const { data: promotions = [] } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const form = useForm<InsertPromotion>({
+    resolver: zodResolver(insertPromotionSchema),
+    defaultValues: emptyPromotion,
+  });
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    // apiRequest errors read "<status>: <body>"; 400 and 409 bodies explain what is wrong
+    const body = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(body).message ?? fallback;
+    } catch {}
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertPromotion) => apiRequest("POST", "/api/promotions", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+      form.reset(emptyPromotion);
+      toast({ title: "Success", description: "Promotion added successfully" });
+    },
+    onError: onMutationError("Failed to add promotion"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<InsertPromotion> }) =>
+      apiRequest("PUT", `/api/promotions/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+      setEditingPromotion(null);
+      form.reset(emptyPromotion);
+      toast({ title: "Success", description: "Promotion updated successfully" });
+    },
+    onError: onMutationError("Failed to update promotion"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/promotions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+      toast({ title: "Success", description: "Promotion deleted successfully" });
+    },
+    onError: onMutationError("Failed to delete promotion"),
+  });
+
+  const onSubmit = (data: InsertPromotion) => {
+    if (editingPromotion) {
+      updateMutation.mutate({ id: editingPromotion.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    form.reset({
+      name: promotion.name,
+      type: promotion.type as PromotionType,
+      scope: promotion.scope as InsertPromotion["scope"],
+      value: parseFloat(promotion.value),
+      buyQuantity: promotion.buyQuantity,
+      getQuantity: promotion.getQuantity,
+      productIds: promotion.productIds,
+      categories: promotion.categories,
+      minSubtotal: promotion.minSubtotal ? parseFloat(promotion.minSubtotal) : null,
+      daysOfWeek: promotion.daysOfWeek,
+      startTime: promotion.startTime,
+      endTime: promotion.endTime,
+      startsAt: promotion.startsAt ? new Date(promotion.startsAt) : null,
+      endsAt: promotion.endsAt ? new Date(promotion.endsAt) : null,
+      couponCode: promotion.couponCode,
+      usageLimit: promotion.usageLimit,
+      isActive: promotion.isActive,
+    });
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm("Are you sure you want to delete this promotion?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const cancelEdit = () => {
+    setEditingPromotion(null);
+    form.reset(emptyPromotion);
+  };
+
+  const toggleListValue = <T,>(field: "productIds" | "categories" | "daysOfWeek", value: T, checked: boolean) => {
+    const current = (form.getValues(field) ?? []) as T[];
+    form.setValue(field, (checked ? [...current, value] : current.filter(item => item !== value)) as never);
+  };
+
+  const type = form.watch("type");
+  const scope = form.watch("scope");
+  const categories = Array.from(new Set(products.map(product => product.category))).sort();
+  const targetsItems = type === "buy_x_get_y" || scope === "line";
+  const errors = form.formState.errors;
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-neutral-900">Promotions</h2>
+          <p className="text-neutral-600 mt-1">Discounts, happy hours and coupon codes applied at checkout</p>
+        </div>
+      </header>
+
+      <div className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Form */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle>{editingPromotion ? "Edit Promotion" : "Add Promotion"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div>
+                    <Label htmlFor="name">Name</Label>
+                    <Input id="name" placeholder="e.g., Happy Hour Drinks" {...form.register("name")} />
+                    {errors.name && <p className="text-sm text-red-500 mt-1">{errors.name.message}</p>}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label>Type</Label>
+                      <Select value={type} onValueChange={(value) => form.setValue("type", value as PromotionType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(TYPE_LABELS).map(([key, label]) => (
+                            <SelectItem key={key} value={key}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Applies to</Label>
+                      <Select
+                        value={type === "buy_x_get_y" ? "line" : scope}
+                        onValueChange={(value) => form.setValue("scope", value as InsertPromotion["scope"])}
+                        disabled={type === "buy_x_get_y"}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="line">Items</SelectItem>
+                          <SelectItem value="order">Whole order</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {type === "buy_x_get_y" && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="buyQuantity">Buy</Label>
+                        <Input
+                          id="buyQuantity"
+                          type="number"
+                          min="1"
+                          {...form.register("buyQuantity", { setValueAs: toOptionalNumber })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="getQuantity">Get</Label>
+                        <Input
+                          id="getQuantity"
+                          type="number"
+                          min="1"
+                          {...form.register("getQuantity", { setValueAs: toOptionalNumber })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="value">
+                        {type === "fixed" ? (scope === "order" ? "Amount off ($)" : "Off each item ($)") : type === "buy_x_get_y" ? "Off free items (%)" : "Percent off (%)"}
+                      </Label>
+                      <Input id="value" type="number" step="0.01" {...form.register("value", { valueAsNumber: true })} />
+                      {errors.value && <p className="text-sm text-red-500 mt-1">Enter a positive value</p>}
+                    </div>
+                    <div>
+                      <Label htmlFor="minSubtotal">Min. order ($)</Label>
+                      <Input
+                        id="minSubtotal"
+                        type="number"
+                        step="0.01"
+                        placeholder="None"
+                        {...form.register("minSubtotal", { setValueAs: toOptionalNumber })}
+                      />
+                    </div>
+                  </div>
+
+                  {targetsItems && (
+                    <div>
+                      <Label>Products</Label>
+                      <p className="text-xs text-neutral-500">Leave everything unticked to include all products</p>
+                      <div className="max-h-40 overflow-y-auto border border-neutral-200 rounded-md p-2 mt-1 space-y-1">
+                        {categories.map((category) => (
+                          <label key={`category:${category}`} className="flex items-center space-x-2 text-sm font-medium text-neutral-900">
+                            <Checkbox
+                              checked={form.watch("categories")?.includes(category)}
+                              onCheckedChange={(checked) => toggleListValue("categories", category, checked === true)}
+                            />
+                            <span>All {category}</span>
+                          </label>
+                        ))}
+                        {products.map((product) => (
+                          <label key={product.id} className="flex items-center space-x-2 text-sm text-neutral-700">
+                            <Checkbox
+                              checked={form.watch("productIds")?.includes(product.id)}
+                              onCheckedChange={(checked) => toggleListValue("productIds", product.id, checked === true)}
+                            />
+                            <span>{product.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <Label>Happy hour</Label>
+                    <div className="flex flex-wrap gap-3 mt-1">
+                      {DAYS.map((day, index) => (
+                        <label key={day} className="flex items-center space-x-1 text-sm text-neutral-700">
+                          <Checkbox
+                            checked={form.watch("daysOfWeek")?.includes(index)}
+                            onCheckedChange={(checked) => toggleListValue("daysOfWeek", index, checked === true)}
+                          />
+                          <span>{day}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 mt-2">
+                      <Input
+                        type="time"
+                        value={form.watch("startTime") ?? ""}
+                        onChange={(e) => form.setValue("startTime", e.target.value || null)}
+                      />
+                      <Input
+                        type="time"
+                        value={form.watch("endTime") ?? ""}
+                        onChange={(e) => form.setValue("endTime", e.target.value || null)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="startsAt">Starts</Label>
+                      <Input
+                        id="startsAt"
+                        type="date"
+                        value={toDateInput(form.watch("startsAt"))}
+                        onChange={(e) => form.setValue("startsAt", e.target.value ? new Date(`${e.target.value}T00:00:00`) : null)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="endsAt">Ends</Label>
+                      <Input
+                        id="endsAt"
+                        type="date"
+                        value={toDateInput(form.watch("endsAt"))}
+                        onChange={(e) => form.setValue("endsAt", e.target.value ? new Date(`${e.target.value}T23:59:59`) : null)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="couponCode">Coupon code</Label>
+                      <Input
+                        id="couponCode"
+                        placeholder="Automatic"
+                        value={form.watch("couponCode") ?? ""}
+                        onChange={(e) => form.setValue("couponCode", e.target.value.trim() ? e.target.value.toUpperCase() : null)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="usageLimit">Usage limit</Label>
+                      <Input
+                        id="usageLimit"
+                        type="number"
+                        min="1"
+                        placeholder="Unlimited"
+                        {...form.register("usageLimit", { setValueAs: toOptionalNumber })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="isActive"
+                      checked={form.watch("isActive")}
+                      onCheckedChange={(checked) => form.setValue("isActive", checked === true)}
+                    />
+                    <Label htmlFor="isActive">Active</Label>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button
+                      type="submit"
+                      className="flex-1 bg-primary text-white hover:bg-primary/90"
+                      disabled={createMutation.isPending || updateMutation.isPending}
+                    >
+                      {editingPromotion ? "Update Promotion" : "Add Promotion"}
+                    </Button>
+                    {editingPromotion && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Promotions */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Promotions</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {promotions.length === 0 ? (
+                  <div className="p-8 text-center text-neutral-500">No promotions set up yet</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-neutral-50">
+                        <tr>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Name</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Offer</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Coupon</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Used</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {promotions.map((promotion) => (
+                          <tr key={promotion.id} className="border-t border-neutral-100 hover:bg-neutral-50">
+                            <td className="py-4 px-6">
+                              <span className="font-medium text-neutral-900">{promotion.name}</span>
+                              {!promotion.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                            </td>
+                            <td className="py-4 px-6 text-sm text-neutral-600">{describePromotion(promotion, products)}</td>
+                            <td className="py-4 px-6">
+                              {promotion.couponCode ? <Badge variant="secondary">{promotion.couponCode}</Badge> : <span className="text-neutral-400">-</span>}
+                            </td>
+                            <td className="py-4 px-6 text-neutral-600">
+                              {promotion.usageCount}{promotion.usageLimit !== null ? ` / ${promotion.usageLimit}` : ""}
+                            </td>
+                            <td className="py-4 px-6">
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(promotion)}
+                                  className="p-1.5 text-neutral-400 hover:text-primary"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(promotion.id)}
+                                  className="p-1.5 text-neutral-400 hover:text-red-500"
+                                  disabled={deleteMutation.isPending}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,16 +2,22 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Plus, Search, Edit, Trash2, Copy } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Copy, FileText, History, Scale } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import RecipeHistoryDialog from "@/components/recipe-history-dialog";
+import RecipeScaleDialog from "@/components/recipe-scale-dialog";
 import { insertRecipeSchema } from "@shared/schema";
 import type { Ingredient, InsertRecipe, RecipeWithDetails } from "@shared/schema";
+import { convertQuantity, getCompatibleUnits, getConversionProfile, UNITS } from "@shared/units";
+import { ALLERGENS, DIETARY_FLAGS } from "@shared/allergens";
+import { NUTRIENTS } from "@shared/nutrition";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
@@ -33,9 +39,40 @@ const categoryColors: Record<string, string> = {
   "Soups": "bg-orange-100 text-orange-700"
 };
 
+const emptyRecipe: InsertRecipe = {
+  name: "",
+  category: "",
+  servings: 1,
+  isPrepItem: false,
+  yieldQuantity: null,
+  yieldUnit: null,
+  ingredients: [{ ingredientId: 0, quantity: 0 }],
+};
+
+// Ingredient and prep item lines in the shape the form edits
+const toFormLines = (recipe: RecipeWithDetails): InsertRecipe["ingredients"] => [
+  ...recipe.ingredientDetails.map(detail => ({
+    ingredientId: detail.ingredient.id,
+    quantity: detail.quantity,
+    unit: detail.unit,
+    // Only keep the yield when it overrides the ingredient default
+    yieldPercentage: detail.yieldPercentage !== parseFloat(detail.ingredient.yieldPercentage)
+      ? detail.yieldPercentage
+      : undefined
+  })),
+  ...recipe.subRecipeDetails.map(detail => ({
+    ingredientId: 0,
+    subRecipeId: detail.recipe.id,
+    quantity: detail.quantity,
+    unit: detail.unit
+  })),
+];
+
 export default function RecipesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [editingRecipe, setEditingRecipe] = useState<RecipeWithDetails | null>(null);
+  const [historyRecipe, setHistoryRecipe] = useState<RecipeWithDetails | null>(null);
+  const [scalingRecipe, setScalingRecipe] = useState<RecipeWithDetails | null>(null);
   const { toast } = useToast();
 
   const { data: ingredients = [] } = useQuery<Ingredient[]>({
@@ -48,12 +85,7 @@ export default function RecipesPage() {
 
   const form = useForm<InsertRecipe>({
     resolver: zodResolver(insertRecipeSchema),
-    defaultValues: {
-      name: "",
-      category: "",
-      servings: 1,
-      ingredients: [{ ingredientId: 0, quantity: 0 }],
-    },
+    defaultValues: emptyRecipe,
   });
 
   const { fields, append, remove } = useFieldArray({
@@ -65,7 +97,7 @@ export default function RecipesPage() {
     mutationFn: (data: InsertRecipe) => apiRequest("POST", "/api/recipes", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
-      form.reset({ name: "", category: "", servings: 1, ingredients: [{ ingredientId: 0, quantity: 0 }] });
+      form.reset(emptyRecipe);
       toast({ title: "Success", description: "Recipe saved successfully" });
     },
     onError: () => {
@@ -78,8 +110,11 @@ export default function RecipesPage() {
       apiRequest("PUT", `/api/recipes/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/with-allergens"] });
       setEditingRecipe(null);
-      form.reset({ name: "", category: "", servings: 1, ingredients: [{ ingredientId: 0, quantity: 0 }] });
+      form.reset(emptyRecipe);
       toast({ title: "Success", description: "Recipe updated successfully" });
     },
     onError: () => {
@@ -100,7 +135,9 @@ export default function RecipesPage() {
 
   const onSubmit = (data: InsertRecipe) => {
     // Filter out empty ingredient entries
-    const validIngredients = data.ingredients.filter(ing => ing.ingredientId > 0 && ing.quantity > 0);
+    const validIngredients = data.ingredients.filter(
+      ing => (ing.ingredientId > 0 || (ing.subRecipeId ?? 0) > 0) && ing.quantity > 0
+    );
     
     if (validIngredients.length === 0) {
       toast({ title: "Error", description: "Please add at least one ingredient", variant: "destructive" });
@@ -118,15 +155,15 @@ export default function RecipesPage() {
 
   const handleEdit = (recipe: RecipeWithDetails) => {
     setEditingRecipe(recipe);
-    const recipeIngredients = recipe.ingredientDetails.map(detail => ({
-      ingredientId: detail.ingredient.id,
-      quantity: detail.quantity
-    }));
+    const recipeIngredients = toFormLines(recipe);
     
     form.reset({
       name: recipe.name,
       category: recipe.category,
       servings: recipe.servings,
+      isPrepItem: recipe.isPrepItem,
+      yieldQuantity: recipe.yieldQuantity ? parseFloat(recipe.yieldQuantity) : null,
+      yieldUnit: recipe.yieldUnit,
       ingredients: recipeIngredients.length > 0 ? recipeIngredients : [{ ingredientId: 0, quantity: 0 }],
     });
   };
@@ -138,15 +175,15 @@ export default function RecipesPage() {
   };
 
   const handleDuplicate = (recipe: RecipeWithDetails) => {
-    const recipeIngredients = recipe.ingredientDetails.map(detail => ({
-      ingredientId: detail.ingredient.id,
-      quantity: detail.quantity
-    }));
+    const recipeIngredients = toFormLines(recipe);
     
     form.reset({
       name: `${recipe.name} (Copy)`,
       category: recipe.category,
       servings: recipe.servings,
+      isPrepItem: recipe.isPrepItem,
+      yieldQuantity: recipe.yieldQuantity ? parseFloat(recipe.yieldQuantity) : null,
+      yieldUnit: recipe.yieldUnit,
       ingredients: recipeIngredients,
     });
     setEditingRecipe(null);
@@ -154,17 +191,41 @@ export default function RecipesPage() {
 
   const cancelEdit = () => {
     setEditingRecipe(null);
-    form.reset({ name: "", category: "", servings: 1, ingredients: [{ ingredientId: 0, quantity: 0 }] });
+    form.reset(emptyRecipe);
   };
 
+  // Preview only; the server recalculates the authoritative cost on save
+  const calculateLineCost = (ingredient: Ingredient | undefined, quantity: number, unit?: string, yieldOverride?: number) => {
+    if (!ingredient || !(quantity > 0)) return 0;
+    try {
+      const purchaseQuantity = convertQuantity(quantity, unit || ingredient.unit, ingredient.unit, getConversionProfile(ingredient));
+      const yieldPercentage = yieldOverride || parseFloat(ingredient.yieldPercentage);
+      return (parseFloat(ingredient.costPerUnit) * purchaseQuantity) / (yieldPercentage / 100);
+    } catch {
+      return 0;
+    }
+  };
+
+  const calculatePrepLineCost = (prepItem: RecipeWithDetails | undefined, quantity: number, unit?: string) => {
+    if (!prepItem?.yieldUnit || prepItem.costPerYieldUnit === null || !(quantity > 0)) return 0;
+    try {
+      return prepItem.costPerYieldUnit * convertQuantity(quantity, unit || prepItem.yieldUnit, prepItem.yieldUnit);
+    } catch {
+      return 0;
+    }
+  };
+
+  const prepItems = recipes.filter(recipe => recipe.isPrepItem && recipe.id !== editingRecipe?.id);
+
   const calculateTotalCost = () => {
     const formIngredients = form.watch("ingredients") || [];
     return formIngredients.reduce((total, recipeIngredient) => {
-      const ingredient = ingredients.find(ing => ing.id === recipeIngredient.ingredientId);
-      if (ingredient && recipeIngredient.quantity > 0) {
-        return total + (parseFloat(ingredient.costPerUnit) * recipeIngredient.quantity);
+      if (recipeIngredient.subRecipeId) {
+        const prepItem = prepItems.find(recipe => recipe.id === recipeIngredient.subRecipeId);
+        return total + calculatePrepLineCost(prepItem, recipeIngredient.quantity, recipeIngredient.unit);
       }
-      return total;
+      const ingredient = ingredients.find(ing => ing.id === recipeIngredient.ingredientId);
+      return total + calculateLineCost(ingredient, recipeIngredient.quantity, recipeIngredient.unit, recipeIngredient.yieldPercentage);
     }, 0);
   };
 
@@ -193,10 +254,18 @@ export default function RecipesPage() {
             <h2 className="text-2xl font-semibold text-neutral-900">Recipes</h2>
             <p className="text-neutral-600 mt-1">Create and manage your dish recipes with automatic cost calculation</p>
           </div>
-          <Button onClick={() => form.reset({ name: "", category: "", servings: 1, ingredients: [{ ingredientId: 0, quantity: 0 }] })}>
-            <Plus className="w-4 h-4 mr-2" />
-            New Recipe
-          </Button>
+          <div className="flex items-center space-x-3">
+            <Button variant="outline" asChild>
+              <a href="/api/menu/allergen-matrix?format=html" target="_blank" rel="noreferrer">
+                <FileText className="w-4 h-4 mr-2" />
+                Allergen Matrix
+              </a>
+            </Button>
+            <Button onClick={() => form.reset(emptyRecipe)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Recipe
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -263,6 +332,49 @@ export default function RecipesPage() {
                     )}
                   </div>
 
+                  <div className="space-y-3">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="isPrepItem"
+                        checked={form.watch("isPrepItem")}
+                        onCheckedChange={(checked) => form.setValue("isPrepItem", checked === true)}
+                      />
+                      <Label htmlFor="isPrepItem">Prep item (usable as an ingredient in other recipes)</Label>
+                    </div>
+                    {form.watch("isPrepItem") && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <Label htmlFor="yieldQuantity">Batch Yield</Label>
+                          <Input
+                            id="yieldQuantity"
+                            type="number"
+                            step="0.01"
+                            placeholder="e.g., 2"
+                            {...form.register("yieldQuantity", { setValueAs: (v) => (v === "" || v === null ? null : parseFloat(v)) })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="yieldUnit">Yield Unit</Label>
+                          <Select
+                            value={form.watch("yieldUnit") || undefined}
+                            onValueChange={(value) => form.setValue("yieldUnit", value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select unit..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UNITS.map((unit) => (
+                                <SelectItem key={unit.key} value={unit.label}>
+                                  {unit.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   <div>
                     <div className="flex items-center justify-between mb-3">
                       <Label>Recipe Ingredients</Label>
@@ -279,28 +391,53 @@ export default function RecipesPage() {
                     
                     <div className="space-y-3">
                       {fields.map((field, index) => {
-                        const selectedIngredient = ingredients.find(
+                        const subRecipeId = form.watch(`ingredients.${index}.subRecipeId`);
+                        const selectedPrepItem = subRecipeId ? prepItems.find(recipe => recipe.id === subRecipeId) : undefined;
+                        const selectedIngredient = subRecipeId ? undefined : ingredients.find(
                           ing => ing.id === form.watch(`ingredients.${index}.ingredientId`)
                         );
                         const quantity = form.watch(`ingredients.${index}.quantity`) || 0;
-                        const cost = selectedIngredient ? parseFloat(selectedIngredient.costPerUnit) * quantity : 0;
+                        const lineUnit = form.watch(`ingredients.${index}.unit`);
+                        const lineYield = form.watch(`ingredients.${index}.yieldPercentage`);
+                        const cost = selectedPrepItem
+                          ? calculatePrepLineCost(selectedPrepItem, quantity, lineUnit)
+                          : calculateLineCost(selectedIngredient, quantity, lineUnit, lineYield);
+                        const baseUnit = selectedPrepItem?.yieldUnit ?? selectedIngredient?.unit;
+                        const unitOptions = selectedPrepItem?.yieldUnit
+                          ? getCompatibleUnits(selectedPrepItem.yieldUnit)
+                          : selectedIngredient
+                            ? getCompatibleUnits(selectedIngredient.unit, getConversionProfile(selectedIngredient))
+                            : [];
+                        const itemValue = selectedPrepItem
+                          ? `prep:${selectedPrepItem.id}`
+                          : selectedIngredient ? `ingredient:${selectedIngredient.id}` : undefined;
 
                         return (
                           <div key={field.id} className="flex items-center space-x-3 p-3 border border-neutral-200 rounded-lg">
                             <Select
-                              onValueChange={(value) => 
-                                form.setValue(`ingredients.${index}.ingredientId`, parseInt(value))
-                              }
+                              value={itemValue}
+                              onValueChange={(value) => {
+                                const [kind, id] = value.split(":");
+                                form.setValue(`ingredients.${index}.ingredientId`, kind === "ingredient" ? parseInt(id) : 0);
+                                form.setValue(`ingredients.${index}.subRecipeId`, kind === "prep" ? parseInt(id) : undefined);
+                                form.setValue(`ingredients.${index}.unit`, undefined);
+                                form.setValue(`ingredients.${index}.yieldPercentage`, undefined);
+                              }}
                             >
                               <SelectTrigger className="flex-1">
                                 <SelectValue placeholder="Select ingredient..." />
                               </SelectTrigger>
                               <SelectContent>
                                 {ingredients.map((ingredient) => (
-                                  <SelectItem key={ingredient.id} value={ingredient.id.toString()}>
+                                  <SelectItem key={`ingredient:${ingredient.id}`} value={`ingredient:${ingredient.id}`}>
                                     {ingredient.name}
                                   </SelectItem>
                                 ))}
+                                {prepItems.map((prepItem) => (
+                                  <SelectItem key={`prep:${prepItem.id}`} value={`prep:${prepItem.id}`}>
+                                    {prepItem.name} (prep)
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
 
@@ -312,9 +449,37 @@ export default function RecipesPage() {
                               {...form.register(`ingredients.${index}.quantity`, { valueAsNumber: true })}
                             />
 
-                            <span className="text-sm text-neutral-500 w-12">
-                              {selectedIngredient?.unit.split(' ')[0] || ''}
-                            </span>
+                            <Select
+                              value={lineUnit || baseUnit || ""}
+                              onValueChange={(value) => form.setValue(`ingredients.${index}.unit`, value)}
+                              disabled={!baseUnit}
+                            >
+                              <SelectTrigger className="w-24">
+                                <SelectValue placeholder="Unit" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {baseUnit && !unitOptions.some(unit => unit.label === baseUnit) && (
+                                  <SelectItem value={baseUnit}>{baseUnit}</SelectItem>
+                                )}
+                                {unitOptions.map((unit) => (
+                                  <SelectItem key={unit.key} value={unit.label}>
+                                    {unit.key}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+
+                            <Input
+                              type="number"
+                              step="1"
+                              placeholder={selectedIngredient ? `${parseFloat(selectedIngredient.yieldPercentage)}%` : "Yield"}
+                              title="Usable yield % for this line"
+                              className="w-20"
+                              disabled={!selectedIngredient}
+                              {...form.register(`ingredients.${index}.yieldPercentage`, {
+                                setValueAs: (v) => (v === "" || v === null || v === undefined ? undefined : parseFloat(v)),
+                              })}
+                            />
 
                             <span className="text-sm font-medium text-neutral-700 w-16">
                               ${cost.toFixed(2)}
@@ -399,15 +564,54 @@ export default function RecipesPage() {
                                 {recipe.category}
                               </Badge>
                               <span className="text-sm text-neutral-600">• {recipe.servings} servings</span>
+                              {recipe.isPrepItem && (
+                                <Badge variant="outline">
+                                  Prep • yields {recipe.yieldQuantity && parseFloat(recipe.yieldQuantity)} {recipe.yieldUnit}
+                                </Badge>
+                              )}
                             </div>
                             <div className="flex items-center space-x-4 mt-3">
                               <span className="text-sm text-neutral-600">
-                                Total Cost: <span className="font-medium text-neutral-900">${recipe.totalCost}</span>
+                                Total Cost: <span className="font-medium text-neutral-900">${recipe.totalCost.toFixed(2)}</span>
                               </span>
                               <span className="text-sm text-neutral-600">
                                 Per Serving: <span className="font-medium text-neutral-900">${recipe.costPerServing.toFixed(2)}</span>
                               </span>
                             </div>
+                            <div className="flex items-center space-x-4 mt-1">
+                              <span className="text-xs text-neutral-500">
+                                As purchased: ${recipe.asPurchasedCost.toFixed(2)}
+                              </span>
+                              <span className="text-xs text-neutral-500">
+                                Trim loss: ${recipe.trimLossCost.toFixed(2)}
+                              </span>
+                            </div>
+                            <div className="grid grid-cols-4 gap-x-4 gap-y-1 mt-2 text-xs text-neutral-500">
+                              {NUTRIENTS.map((nutrient) => (
+                                <span key={nutrient.key}>
+                                  {nutrient.label}: <span className="text-neutral-700">{recipe.nutritionPerServing[nutrient.key]}{nutrient.unit === "kcal" ? " kcal" : nutrient.unit}</span>
+                                </span>
+                              ))}
+                            </div>
+                            {!recipe.nutritionComplete && (
+                              <p className="text-xs text-amber-600 mt-1">
+                                Nutrition per serving is incomplete: some ingredients have no nutrition data or cannot be weighed
+                              </p>
+                            )}
+                            {(recipe.allergens.length > 0 || recipe.dietaryFlags.length > 0) && (
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {recipe.allergens.map(key => (
+                                  <Badge key={key} variant="outline" className="text-xs border-red-200 text-red-700">
+                                    {ALLERGENS.find(allergen => allergen.key === key)?.label ?? key}
+                                  </Badge>
+                                ))}
+                                {recipe.dietaryFlags.map(key => (
+                                  <Badge key={key} variant="outline" className="text-xs border-green-200 text-green-700">
+                                    {DIETARY_FLAGS.find(flag => flag.key === key)?.label ?? key}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
                           </div>
                           <div className="flex items-center space-x-2 ml-4">
                             <Button
@@ -426,6 +630,22 @@ export default function RecipesPage() {
                             >
                               <Copy className="w-4 h-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setScalingRecipe(recipe)}
+                              className="p-2 text-neutral-400 hover:text-secondary"
+                            >
+                              <Scale className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryRecipe(recipe)}
+                              className="p-2 text-neutral-400 hover:text-primary"
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -446,6 +666,13 @@ export default function RecipesPage() {
           </div>
         </div>
       </div>
+
+      <RecipeHistoryDialog
+        recipeId={historyRecipe?.id ?? null}
+        recipeName={historyRecipe?.name ?? ""}
+        onClose={() => setHistoryRecipe(null)}
+      />
+      <RecipeScaleDialog recipe={scalingRecipe} onClose={() => setScalingRecipe(null)} />
     </div>
   );
 }
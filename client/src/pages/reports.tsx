@@ -1,19 +1,24 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { FileDown, Download, Calendar, Filter, Printer } from "lucide-react";
+import { FileDown, Download, Calendar, Filter, Printer, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import type { SaleWithDetails, SalesAnalytics, OperationalCost } from "@shared/schema";
+import SaleRefundDialog from "@/components/sale-refund-dialog";
+import type { SaleWithDetails, SalesAnalytics, OperationalCost, TaxReport, TakingsReport, KitchenReport } from "@shared/schema";
+import { tenderLabel } from "@shared/tendering";
+import { describeModifiers } from "@shared/modifiers";
+import { describeComponents } from "@shared/bundles";
 
 export default function ReportsPage() {
   const [reportType, setReportType] = useState("sales");
   const [dateRange, setDateRange] = useState("7");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [refundingSale, setRefundingSale] = useState<SaleWithDetails | null>(null);
 
   const { data: sales = [] } = useQuery<SaleWithDetails[]>({
     queryKey: ["/api/sales"],
@@ -27,6 +32,33 @@ export default function ReportsPage() {
     queryKey: ["/api/costs"],
   });
 
+  // Whole days, so the query keys only change when the range does
+  const reportFrom = new Date(Date.now() - parseInt(dateRange) * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const { data: taxReport } = useQuery<TaxReport>({
+    queryKey: [`/api/reports/tax?from=${reportFrom}T00:00:00`],
+    enabled: reportType === "tax",
+  });
+
+  const { data: takingsReport } = useQuery<TakingsReport>({
+    queryKey: [`/api/reports/takings?from=${reportFrom}T00:00:00`],
+    enabled: reportType === "takings",
+  });
+
+  const { data: kitchenReport } = useQuery<KitchenReport>({
+    queryKey: [`/api/reports/kitchen?from=${reportFrom}T00:00:00`],
+    enabled: reportType === "kitchen",
+  });
+
+  const formatMinutes = (seconds: number) => `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, "0")}s`;
+
+  const paymentLabel = (sale: SaleWithDetails) => sale.tenders.length > 0
+    ? sale.tenders.map(tender => tenderLabel(tender.type)).join(" + ")
+    : tenderLabel(sale.paymentMethod);
+
+  const offsetsOf = (sale: SaleWithDetails) => sales.filter(offset => offset.originalSaleId === sale.id);
+  const saleTypeLabel = (sale: SaleWithDetails) =>
+    sale.type === "sale" ? "Sale" : `${sale.type === "void" ? "Void" : "Refund"} of #${sale.originalSaleId}`;
+
   const handleExportPDF = () => {
     // In a real app, this would generate and download a PDF
     alert("PDF export functionality would be implemented here with a library like jsPDF or Puppeteer");
@@ -35,15 +67,22 @@ export default function ReportsPage() {
   const handleExportExcel = () => {
     if (reportType === "sales" && sales.length > 0) {
       const csvContent = [
-        ["Date", "Sale ID", "Items", "Payment Method", "Subtotal", "Tax", "Total"],
+        ["Date", "Sale ID", "Type", "Items", "Payment Method", "Subtotal", "Tax", "Total", "Reason", "Approved By"],
         ...sales.map(sale => [
           new Date(sale.createdAt || "").toLocaleDateString(),
           sale.id.toString(),
-          sale.itemDetails.map(item => `${item.product.name} (${item.quantity})`).join("; "),
-          sale.paymentMethod,
+          saleTypeLabel(sale),
+          sale.itemDetails.map(item => {
+            const details = [describeComponents(item.components.map(component => component.product)), describeModifiers(item.modifiers)]
+              .filter(Boolean).join(", ");
+            return `${item.product.name}${details ? ` [${details}]` : ""} (${item.quantity})`;
+          }).join("; "),
+          paymentLabel(sale),
           (parseFloat(sale.totalAmount) - parseFloat(sale.taxAmount || "0")).toFixed(2),
           sale.taxAmount || "0",
-          sale.totalAmount
+          sale.totalAmount,
+          sale.reason ?? "",
+          sale.approvedBy ?? sale.discountApprovedBy ?? ""
         ])
       ].map(row => row.join(",")).join("\n");
 
@@ -73,6 +112,63 @@ export default function ReportsPage() {
       a.download = `costs-report-${new Date().toISOString().split('T')[0]}.csv`;
       a.click();
       window.URL.revokeObjectURL(url);
+    } else if (reportType === "tax" && taxReport && taxReport.lines.length > 0) {
+      const csvContent = [
+        ["Tax Rate", "Rate %", "Pricing", "Order Type", "Sales", "Taxable", "Tax"],
+        ...taxReport.lines.map(line => [
+          line.name,
+          line.rate.toString(),
+          line.inclusive ? "included" : "added",
+          line.orderType === "takeaway" ? "Takeaway" : "Dine in",
+          line.saleCount.toString(),
+          line.taxableAmount.toFixed(2),
+          line.taxAmount.toFixed(2)
+        ])
+      ].map(row => row.join(",")).join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `tax-report-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } else if (reportType === "takings" && takingsReport && takingsReport.tenders.length > 0) {
+      const csvContent = [
+        ["Tender", "Payments", "Amount"],
+        ...takingsReport.tenders.map(tender => [
+          tenderLabel(tender.type),
+          tender.count.toString(),
+          tender.amount.toFixed(2)
+        ])
+      ].map(row => row.join(",")).join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `takings-report-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } else if (reportType === "kitchen" && kitchenReport && kitchenReport.products.length > 0) {
+      const csvContent = [
+        ["Product", "Station", "Quantity", "Tickets", "Average Seconds"],
+        ...kitchenReport.products.map(product => [
+          product.name,
+          product.station,
+          product.quantity.toString(),
+          product.tickets.toString(),
+          product.averageSeconds.toString()
+        ])
+      ].map(row => row.join(",")).join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `kitchen-report-${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
     }
   };
 
@@ -121,6 +217,9 @@ export default function ReportsPage() {
                   <SelectItem value="sales">Sales Report</SelectItem>
                   <SelectItem value="costs">Cost Report</SelectItem>
                   <SelectItem value="profit">Profit & Loss</SelectItem>
+                  <SelectItem value="tax">Tax by Rate</SelectItem>
+                  <SelectItem value="takings">Takings by Tender</SelectItem>
+                  <SelectItem value="kitchen">Kitchen Times</SelectItem>
                   <SelectItem value="summary">Executive Summary</SelectItem>
                 </SelectContent>
               </Select>
@@ -231,6 +330,7 @@ export default function ReportsPage() {
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Items</th>
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Payment</th>
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Total</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -241,12 +341,29 @@ export default function ReportsPage() {
                         </td>
                         <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">
                           #{sale.id}
+                          {sale.type !== "sale" && (
+                            <div className="mt-1 space-y-1">
+                              <Badge variant="destructive">{saleTypeLabel(sale)}</Badge>
+                              {sale.reason && (
+                                <div className="text-xs font-normal text-neutral-500">
+                                  {sale.reason}{sale.approvedBy ? ` · approved by ${sale.approvedBy}` : ""}
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </td>
                         <td className="py-4 px-6">
                           <div className="space-y-1">
                             {sale.itemDetails.slice(0, 2).map((item, idx) => (
                               <div key={idx} className="text-sm text-neutral-600 dark:text-neutral-400">
                                 {item.product.name} × {item.quantity}
+                                {(item.components.length > 0 || item.modifiers.length > 0) && (
+                                  <span className="text-xs text-neutral-500">
+                                    {" · "}
+                                    {[describeComponents(item.components.map(component => component.product)), describeModifiers(item.modifiers)]
+                                      .filter(Boolean).join(", ")}
+                                  </span>
+                                )}
                               </div>
                             ))}
                             {sale.itemDetails.length > 2 && (
@@ -257,13 +374,21 @@ export default function ReportsPage() {
                           </div>
                         </td>
                         <td className="py-4 px-6">
-                          <Badge variant="secondary" className="capitalize">
-                            {sale.paymentMethod}
+                          <Badge variant="secondary">
+                            {paymentLabel(sale)}
                           </Badge>
                         </td>
                         <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">
                           ${parseFloat(sale.totalAmount).toFixed(2)}
                         </td>
+                        <td className="py-4 px-6">
+                          {sale.type === "sale" && !offsetsOf(sale).some(offset => offset.type === "void") && (
+                            <Button variant="ghost" size="sm" onClick={() => setRefundingSale(sale)}>
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Refund
+                            </Button>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -374,6 +499,159 @@ export default function ReportsPage() {
         </Card>
       )}
 
+      {reportType === "tax" && (
+        <Card className="bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-neutral-900 dark:text-white">Tax by Rate</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {!taxReport || taxReport.lines.length === 0 ? (
+              <div className="p-8 text-center text-neutral-500 dark:text-neutral-400">
+                No tax collected in the selected period
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-neutral-50 dark:bg-neutral-800">
+                    <tr>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Tax Rate</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Order Type</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Sales</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Taxable</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {taxReport.lines.map((line) => (
+                      <tr
+                        key={`${line.orderType}:${line.taxRateId}:${line.rate}:${line.inclusive}`}
+                        className="border-t border-neutral-100 dark:border-neutral-800"
+                      >
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">
+                          {line.name} ({line.rate}%{line.inclusive ? ", included" : ""})
+                        </td>
+                        <td className="py-4 px-6">
+                          <Badge variant="secondary">{line.orderType === "takeaway" ? "Takeaway" : "Dine in"}</Badge>
+                        </td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">{line.saleCount}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">${line.taxableAmount.toFixed(2)}</td>
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">${line.taxAmount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800">
+                      <td className="py-4 px-6 font-semibold text-neutral-900 dark:text-white" colSpan={3}>Total</td>
+                      <td className="py-4 px-6 font-semibold text-neutral-900 dark:text-white">${taxReport.totalTaxable.toFixed(2)}</td>
+                      <td className="py-4 px-6 font-semibold text-neutral-900 dark:text-white">${taxReport.totalTax.toFixed(2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {reportType === "takings" && (
+        <Card className="bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-neutral-900 dark:text-white">Takings by Tender</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {!takingsReport || takingsReport.tenders.length === 0 ? (
+              <div className="p-8 text-center text-neutral-500 dark:text-neutral-400">
+                No takings in the selected period
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-neutral-50 dark:bg-neutral-800">
+                    <tr>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Tender</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Payments</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Amount</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {takingsReport.tenders.map((tender) => (
+                      <tr key={tender.type} className="border-t border-neutral-100 dark:border-neutral-800">
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">{tenderLabel(tender.type)}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">{tender.count}</td>
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">${tender.amount.toFixed(2)}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">
+                          {takingsReport.total > 0 ? ((tender.amount / takingsReport.total) * 100).toFixed(1) : "0.0"}%
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800">
+                      <td className="py-4 px-6 font-semibold text-neutral-900 dark:text-white" colSpan={2}>Total</td>
+                      <td className="py-4 px-6 font-semibold text-neutral-900 dark:text-white" colSpan={2}>${takingsReport.total.toFixed(2)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                <div className="flex justify-end space-x-8 px-6 py-4 text-sm text-neutral-600 dark:text-neutral-400">
+                  <span>Cash tendered: ${takingsReport.cashTendered.toFixed(2)}</span>
+                  <span>Change given: ${takingsReport.changeGiven.toFixed(2)}</span>
+                  <span>Refunded: ${takingsReport.refunded.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {reportType === "kitchen" && (
+        <Card className="bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800">
+          <CardHeader>
+            <CardTitle className="text-neutral-900 dark:text-white">Kitchen Times</CardTitle>
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              Average time from a ticket being fired to it being bumped
+            </p>
+          </CardHeader>
+          <CardContent className="p-0">
+            {!kitchenReport || kitchenReport.stations.length === 0 ? (
+              <div className="p-8 text-center text-neutral-500 dark:text-neutral-400">
+                No tickets bumped in the selected period
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <div className="flex flex-wrap gap-8 px-6 py-4 border-b border-neutral-100 dark:border-neutral-800">
+                  {kitchenReport.stations.map((station) => (
+                    <div key={station.stationId}>
+                      <p className="text-sm text-neutral-600 dark:text-neutral-400">{station.name}</p>
+                      <p className="text-xl font-semibold text-neutral-900 dark:text-white">{formatMinutes(station.averageSeconds)}</p>
+                      <p className="text-xs text-neutral-500">{station.tickets} tickets</p>
+                    </div>
+                  ))}
+                </div>
+                <table className="w-full">
+                  <thead className="bg-neutral-50 dark:bg-neutral-800">
+                    <tr>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Product</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Station</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Quantity</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Tickets</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700 dark:text-neutral-300">Average Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {kitchenReport.products.map((product) => (
+                      <tr key={`${product.station}:${product.productId}`} className="border-t border-neutral-100 dark:border-neutral-800">
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">{product.name}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">{product.station}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">{product.quantity}</td>
+                        <td className="py-4 px-6 text-neutral-600 dark:text-neutral-400">{product.tickets}</td>
+                        <td className="py-4 px-6 font-medium text-neutral-900 dark:text-white">{formatMinutes(product.averageSeconds)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {reportType === "summary" && analytics && (
         <Card className="bg-white dark:bg-neutral-900 border-neutral-200 dark:border-neutral-800">
           <CardHeader>
@@ -396,6 +674,18 @@ export default function ReportsPage() {
                     <span className="text-neutral-600 dark:text-neutral-400">Average Order Value</span>
                     <span className="font-medium">${analytics.averageOrderValue.toFixed(2)}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-neutral-600 dark:text-neutral-400">Covers</span>
+                    <span className="font-medium">{analytics.totalCovers}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-neutral-600 dark:text-neutral-400">Spend per Cover</span>
+                    <span className="font-medium">${analytics.spendPerCover.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-neutral-600 dark:text-neutral-400">Refunds and Voids</span>
+                    <span className="font-medium">${analytics.totalRefunds.toFixed(2)}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-neutral-600 dark:text-neutral-400">Profit Margin</span>
                     <span className="font-medium">
@@ -427,6 +717,12 @@ export default function ReportsPage() {
           </CardContent>
         </Card>
       )}
+
+      <SaleRefundDialog
+        sale={refundingSale}
+        offsets={refundingSale ? offsetsOf(refundingSale) : []}
+        onClose={() => setRefundingSale(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
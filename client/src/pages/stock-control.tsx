@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ClipboardCheck, Truck, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { insertStockCountSchema, insertIngredientPurchaseSchema } from "@shared/schema";
+import type { Ingredient, InsertStockCount, InsertIngredientPurchase, FoodCostVarianceReport } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+
+// How many of the worst variances to flag as losses worth investigating
+const HIGHLIGHTED_LOSSES = 5;
+
+const toDateInput = (date: Date) => date.toISOString().split("T")[0];
+
+export default function StockControlPage() {
+  const [fromDate, setFromDate] = useState(toDateInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(toDateInput(new Date()));
+  const { toast } = useToast();
+
+  const { data: ingredients = [] } = useQuery<Ingredient[]>({
+    queryKey: ["/api/ingredients"],
+  });
+
+  // The end date is inclusive, so the report runs to the end of that day
+  const rangeValid = fromDate !== "" && toDate !== "" && fromDate <= toDate;
+  const reportUrl = `/api/reports/food-cost-variance?from=${fromDate}T00:00:00&to=${toDate}T23:59:59`;
+  const { data: report } = useQuery<FoodCostVarianceReport>({
+    queryKey: [reportUrl],
+    enabled: rangeValid,
+    placeholderData: keepPreviousData,
+  });
+
+  const countForm = useForm<InsertStockCount>({
+    resolver: zodResolver(insertStockCountSchema),
+    defaultValues: { ingredientId: 0, quantity: 0, countedBy: "" },
+  });
+
+  const purchaseForm = useForm<InsertIngredientPurchase>({
+    resolver: zodResolver(insertIngredientPurchaseSchema),
+    defaultValues: { ingredientId: 0, quantity: 0, unitCost: 0, supplier: "", invoiceNumber: "" },
+  });
+
+  const countMutation = useMutation({
+    mutationFn: (data: InsertStockCount) => apiRequest("POST", "/api/stock-counts", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-counts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: [reportUrl] });
+      countForm.reset({ ingredientId: 0, quantity: 0, countedBy: countForm.getValues("countedBy") });
+      toast({ title: "Success", description: "Stock count recorded" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record stock count", variant: "destructive" });
+    },
+  });
+
+  const purchaseMutation = useMutation({
+    mutationFn: (data: InsertIngredientPurchase) => apiRequest("POST", "/api/ingredient-purchases", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ingredient-purchases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ingredients"] });
+      queryClient.invalidateQueries({ queryKey: [reportUrl] });
+      purchaseForm.reset();
+      toast({ title: "Success", description: "Purchase recorded" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record purchase", variant: "destructive" });
+    },
+  });
+
+  const unitFor = (ingredientId: number) => ingredients.find(ingredient => ingredient.id === ingredientId)?.unit ?? "";
+
+  const countIngredientId = countForm.watch("ingredientId");
+  const purchaseIngredientId = purchaseForm.watch("ingredientId");
+
+  const handlePurchaseIngredient = (value: string) => {
+    const ingredient = ingredients.find(item => item.id === parseInt(value));
+    purchaseForm.setValue("ingredientId", parseInt(value));
+    if (ingredient) {
+      purchaseForm.setValue("unitCost", parseFloat(ingredient.costPerUnit));
+      purchaseForm.setValue("supplier", ingredient.supplier || "");
+    }
+  };
+
+  const highlighted = new Set(
+    (report?.items ?? [])
+      .filter(item => (item.varianceCost ?? 0) > 0)
+      .slice(0, HIGHLIGHTED_LOSSES)
+      .map(item => item.ingredientId)
+  );
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-neutral-900">Stock Control</h2>
+          <p className="text-neutral-600 mt-1">Record counts and deliveries, and compare actual usage against recipes</p>
+        </div>
+      </header>
+
+      <div className="p-8 space-y-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ClipboardCheck className="w-5 h-5 text-primary" />
+                <span>Record Stock Count</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={countForm.handleSubmit(data => countMutation.mutate(data))} className="space-y-4">
+                <div>
+                  <Label>Ingredient</Label>
+                  <Select
+                    value={countIngredientId > 0 ? countIngredientId.toString() : ""}
+                    onValueChange={(value) => countForm.setValue("ingredientId", parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select ingredient..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ingredients.map((ingredient) => (
+                        <SelectItem key={ingredient.id} value={ingredient.id.toString()}>
+                          {ingredient.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {countForm.formState.errors.ingredientId && (
+                    <p className="text-sm text-red-500 mt-1">Select an ingredient</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="countQuantity">On hand {countIngredientId > 0 && `(${unitFor(countIngredientId)})`}</Label>
+                    <Input
+                      id="countQuantity"
+                      type="number"
+                      step="any"
+                      {...countForm.register("quantity", { valueAsNumber: true })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="countedBy">Counted by</Label>
+                    <Input id="countedBy" {...countForm.register("countedBy")} />
+                  </div>
+                </div>
+                <Button type="submit" disabled={countMutation.isPending}>
+                  Save Count
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Truck className="w-5 h-5 text-secondary" />
+                <span>Record Purchase</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={purchaseForm.handleSubmit(data => purchaseMutation.mutate(data))} className="space-y-4">
+                <div>
+                  <Label>Ingredient</Label>
+                  <Select
+                    value={purchaseIngredientId > 0 ? purchaseIngredientId.toString() : ""}
+                    onValueChange={handlePurchaseIngredient}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select ingredient..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ingredients.map((ingredient) => (
+                        <SelectItem key={ingredient.id} value={ingredient.id.toString()}>
+                          {ingredient.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {purchaseForm.formState.errors.ingredientId && (
+                    <p className="text-sm text-red-500 mt-1">Select an ingredient</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="purchaseQuantity">Quantity {purchaseIngredientId > 0 && `(${unitFor(purchaseIngredientId)})`}</Label>
+                    <Input
+                      id="purchaseQuantity"
+                      type="number"
+                      step="any"
+                      {...purchaseForm.register("quantity", { valueAsNumber: true })}
+                    />
+                    {purchaseForm.formState.errors.quantity && (
+                      <p className="text-sm text-red-500 mt-1">{purchaseForm.formState.errors.quantity.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="unitCost">Unit cost ($)</Label>
+                    <Input
+                      id="unitCost"
+                      type="number"
+                      step="0.0001"
+                      {...purchaseForm.register("unitCost", { valueAsNumber: true })}
+                    />
+                    {purchaseForm.formState.errors.unitCost && (
+                      <p className="text-sm text-red-500 mt-1">{purchaseForm.formState.errors.unitCost.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="supplier">Supplier</Label>
+                    <Input id="supplier" {...purchaseForm.register("supplier")} />
+                  </div>
+                  <div>
+                    <Label htmlFor="invoiceNumber">Invoice #</Label>
+                    <Input id="invoiceNumber" {...purchaseForm.register("invoiceNumber")} />
+                  </div>
+                </div>
+                <Button type="submit" disabled={purchaseMutation.isPending}>
+                  Save Purchase
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <CardTitle>Food Cost Variance</CardTitle>
+              <div className="flex items-end gap-3">
+                <div>
+                  <Label htmlFor="fromDate">From</Label>
+                  <Input id="fromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="toDate">To</Label>
+                  <Input id="toDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {report ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-neutral-50 rounded-lg p-4">
+                    <p className="text-sm text-neutral-600">Theoretical cost</p>
+                    <p className="text-xl font-semibold text-neutral-900">${report.theoreticalCost.toFixed(2)}</p>
+                  </div>
+                  <div className="bg-neutral-50 rounded-lg p-4">
+                    <p className="text-sm text-neutral-600">Actual cost</p>
+                    <p className="text-xl font-semibold text-neutral-900">${report.actualCost.toFixed(2)}</p>
+                  </div>
+                  <div className="bg-neutral-50 rounded-lg p-4">
+                    <p className="text-sm text-neutral-600">Variance</p>
+                    <p className={`text-xl font-semibold ${report.varianceCost > 0 ? "text-red-600" : "text-green-600"}`}>
+                      ${report.varianceCost.toFixed(2)}
+                    </p>
+                  </div>
+                  <div className="bg-neutral-50 rounded-lg p-4">
+                    <p className="text-sm text-neutral-600">Not counted</p>
+                    <p className="text-xl font-semibold text-neutral-900">{report.uncountedIngredients}</p>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-neutral-200 text-left text-neutral-600">
+                        <th className="py-2 pr-4">Ingredient</th>
+                        <th className="py-2 pr-4 text-right">Opening</th>
+                        <th className="py-2 pr-4 text-right">Purchases</th>
+                        <th className="py-2 pr-4 text-right">Closing</th>
+                        <th className="py-2 pr-4 text-right">Actual</th>
+                        <th className="py-2 pr-4 text-right">Theoretical</th>
+                        <th className="py-2 pr-4 text-right">Variance</th>
+                        <th className="py-2 text-right">Variance $</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.items.map(item => (
+                        <tr
+                          key={item.ingredientId}
+                          className={`border-b border-neutral-100 ${highlighted.has(item.ingredientId) ? "bg-red-50" : ""}`}
+                        >
+                          <td className="py-2 pr-4">
+                            <div className="flex items-center space-x-2">
+                              {highlighted.has(item.ingredientId) && <AlertTriangle className="w-4 h-4 text-red-500" />}
+                              <span className="font-medium text-neutral-900">{item.name}</span>
+                              <span className="text-neutral-500">{item.unit}</span>
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4 text-right">{item.openingStock ?? "—"}</td>
+                          <td className="py-2 pr-4 text-right">{item.purchases}</td>
+                          <td className="py-2 pr-4 text-right">{item.closingStock ?? "—"}</td>
+                          <td className="py-2 pr-4 text-right">{item.actualUsage ?? "—"}</td>
+                          <td className="py-2 pr-4 text-right">{item.theoreticalUsage}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {item.varianceQuantity === null ? (
+                              <Badge variant="outline">Needs counts</Badge>
+                            ) : (
+                              <>
+                                {item.varianceQuantity}
+                                {item.variancePercentage !== null && (
+                                  <span className="text-neutral-500 ml-1">({item.variancePercentage}%)</span>
+                                )}
+                              </>
+                            )}
+                          </td>
+                          <td className={`py-2 text-right font-medium ${(item.varianceCost ?? 0) > 0 ? "text-red-600" : "text-neutral-900"}`}>
+                            {item.varianceCost === null ? "—" : `$${item.varianceCost.toFixed(2)}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-neutral-500">
+                  Actual usage is opening count + purchases − closing count. Theoretical usage is what recipes say
+                  was needed for the dishes sold, including trim loss. Positive variances are unexplained losses.
+                </p>
+              </div>
+            ) : (
+              <div className="h-[200px] flex items-center justify-center text-neutral-500">
+                {rangeValid ? "Loading variance report..." : "Choose a valid date range"}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,14 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { FileDown, Download, Package, BookOpen, DollarSign, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SummaryData } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 
-interface SummaryData {
-  totalIngredients: number;
-  totalRecipes: number;
-  averageCost: string;
-  totalInvestment: string;
-  categoryBreakdown: Record<string, number>;
-  recipes: Array<{
-    id: number;
-    name: string;
-    category: string;
-    servings: number;
-    totalCost: string;
-    costPerServing: string;
-    suggestedPrice: string;
-  }>;
-}
-
 const COLORS = ['#6366F1', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4'];
 
 const categoryColors: Record<string, string> = {
@@ -34,8 +21,12 @@ const categoryColors: Record<string, string> = {
 };
 
 export default function SummaryPage() {
+  const [targetFoodCost, setTargetFoodCost] = useState("");
+  const targetValid = parseFloat(targetFoodCost) > 0 && parseFloat(targetFoodCost) <= 100;
+
   const { data: summaryData, isLoading } = useQuery<SummaryData>({
-    queryKey: ["/api/summary"],
+    queryKey: [targetValid ? `/api/summary?targetFoodCostPercentage=${targetFoodCost}` : "/api/summary"],
+    placeholderData: keepPreviousData,
   });
 
   const handleExportPDF = () => {
@@ -106,6 +97,19 @@ export default function SummaryPage() {
             <p className="text-neutral-600 mt-1">Analyze your menu costs and profitability</p>
           </div>
           <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="targetFoodCost" className="whitespace-nowrap">Target food cost %</Label>
+              <Input
+                id="targetFoodCost"
+                type="number"
+                min="1"
+                max="100"
+                className="w-20"
+                placeholder={summaryData.targetFoodCostPercentage.toString()}
+                value={targetFoodCost}
+                onChange={(e) => setTargetFoodCost(e.target.value)}
+              />
+            </div>
             <Button 
               onClick={handleExportPDF}
               className="bg-secondary text-white hover:bg-secondary/90"
@@ -296,13 +300,13 @@ export default function SummaryPage() {
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Servings</th>
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Total Cost</th>
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Cost/Serving</th>
-                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Margin (30%)</th>
+                      <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Gross Margin</th>
                       <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Suggested Price</th>
                     </tr>
                   </thead>
                   <tbody>
                     {summaryData.recipes.map((recipe) => {
-                      const margin = (parseFloat(recipe.costPerServing) * 0.3).toFixed(2);
+                      const margin = (parseFloat(recipe.suggestedPrice) - parseFloat(recipe.costPerServing)).toFixed(2);
                       
                       return (
                         <tr key={recipe.id} className="border-t border-neutral-100">
@@ -0,0 +1,519 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation } from "wouter";
+import { Clock, Edit, Plus, Receipt, Sparkles, Trash2, Users, UtensilsCrossed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { FLOOR_GRID, insertDiningTableSchema } from "@shared/schema";
+import type { DiningTableWithOrder, FloorArea, InsertDiningTable, TableDisplayStatus, TableStatus } from "@shared/schema";
+import { TABLE_STATUS_LABELS } from "@shared/tables";
+import { orderItemCount } from "@shared/orders";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const statusStyles: Record<TableDisplayStatus, string> = {
+  free: "bg-white border-neutral-300 text-neutral-700",
+  seated: "bg-blue-50 border-blue-400 text-blue-900",
+  ordered: "bg-green-50 border-green-500 text-green-900",
+  bill_requested: "bg-amber-50 border-amber-500 text-amber-900",
+  dirty: "bg-neutral-200 border-neutral-400 text-neutral-500",
+};
+
+const minutesSince = (date: Date | string | null, now: number) =>
+  date ? Math.max(Math.floor((now - new Date(date).getTime()) / 60000), 0) : 0;
+
+// apiRequest errors read "<status>: <body>"; 400 and 409 bodies say what went wrong
+const errorMessage = (error: Error, fallback: string) =>
+  /^(400|409):/.test(error.message) ? (JSON.parse(error.message.slice(4)) as { message?: string }).message ?? fallback : fallback;
+
+export default function TablesPage() {
+  const [, navigate] = useLocation();
+  const [areaId, setAreaId] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editingTableId, setEditingTableId] = useState<number | null>(null);
+  const [newAreaName, setNewAreaName] = useState("");
+  const [covers, setCovers] = useState("2");
+  const [now, setNow] = useState(Date.now());
+  const { toast } = useToast();
+
+  // Other terminals seat and settle tables too, so the plan keeps itself up to date
+  const { data: tables = [] } = useQuery<DiningTableWithOrder[]>({
+    queryKey: ["/api/tables"],
+    refetchInterval: 15000,
+  });
+
+  const { data: areas = [] } = useQuery<FloorArea[]>({
+    queryKey: ["/api/floor-areas"],
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const currentAreaId = areaId ?? areas[0]?.id ?? null;
+  const areaTables = tables.filter(table => table.areaId === currentAreaId);
+  const selected = tables.find(table => table.id === selectedId) ?? null;
+
+  const emptyTable = (): InsertDiningTable => ({
+    areaId: currentAreaId ?? 0,
+    number: "",
+    seats: 4,
+    posX: 0,
+    posY: 0,
+    shape: "square",
+  });
+
+  const form = useForm<InsertDiningTable>({
+    resolver: zodResolver(insertDiningTableSchema),
+    defaultValues: emptyTable(),
+  });
+
+  const invalidateFloor = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/floor-areas"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/open-orders"] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    invalidateFloor();
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const createAreaMutation = useMutation({
+    mutationFn: async (name: string): Promise<FloorArea> => {
+      const res = await apiRequest("POST", "/api/floor-areas", { name, sortOrder: areas.length });
+      return res.json();
+    },
+    onSuccess: (area) => {
+      invalidateFloor();
+      setNewAreaName("");
+      setAreaId(area.id);
+      toast({ title: "Success", description: `${area.name} added` });
+    },
+    onError: (error: Error) => showError(error, "Failed to add area"),
+  });
+
+  const deleteAreaMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/floor-areas/${id}`),
+    onSuccess: () => {
+      invalidateFloor();
+      setAreaId(null);
+      toast({ title: "Success", description: "Area deleted" });
+    },
+    onError: (error: Error) => showError(error, "Failed to delete area"),
+  });
+
+  const saveTableMutation = useMutation({
+    mutationFn: (data: InsertDiningTable) => editingTableId
+      ? apiRequest("PUT", `/api/tables/${editingTableId}`, data)
+      : apiRequest("POST", "/api/tables", data),
+    onSuccess: () => {
+      invalidateFloor();
+      toast({ title: "Success", description: editingTableId ? "Table updated" : "Table added" });
+      setEditingTableId(null);
+      form.reset(emptyTable());
+    },
+    onError: (error: Error) => showError(error, "Failed to save table"),
+  });
+
+  const deleteTableMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/tables/${id}`),
+    onSuccess: () => {
+      invalidateFloor();
+      setEditingTableId(null);
+      setSelectedId(null);
+      form.reset(emptyTable());
+      toast({ title: "Success", description: "Table deleted" });
+    },
+    onError: (error: Error) => showError(error, "Failed to delete table"),
+  });
+
+  const seatMutation = useMutation({
+    mutationFn: ({ id, covers }: { id: number; covers: number }) =>
+      apiRequest("POST", `/api/tables/${id}/seat`, { covers, openedBy: "cashier01" }),
+    onSuccess: () => {
+      invalidateFloor();
+      setCovers("2");
+    },
+    onError: (error: Error) => showError(error, "Failed to seat table"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: TableStatus }) =>
+      apiRequest("POST", `/api/tables/${id}/status`, { status }),
+    onSuccess: () => invalidateFloor(),
+    onError: (error: Error) => showError(error, "Failed to update table"),
+  });
+
+  const selectTable = (table: DiningTableWithOrder) => {
+    setSelectedId(table.id);
+    if (editing) {
+      setEditingTableId(table.id);
+      form.reset({
+        areaId: table.areaId,
+        number: table.number,
+        seats: table.seats,
+        posX: table.posX,
+        posY: table.posY,
+        shape: table.shape as InsertDiningTable["shape"],
+      });
+    }
+  };
+
+  // Clicking an empty cell while editing starts a new table there
+  const selectCell = (posX: number, posY: number) => {
+    if (!editing) return;
+    setEditingTableId(null);
+    form.reset({ ...emptyTable(), posX, posY });
+  };
+
+  const toggleEditing = () => {
+    setEditing(!editing);
+    setEditingTableId(null);
+    form.reset(emptyTable());
+  };
+
+  const handleDeleteArea = (area: FloorArea) => {
+    if (confirm(`Delete ${area.name} and all of its tables?`)) {
+      deleteAreaMutation.mutate(area.id);
+    }
+  };
+
+  const handleDeleteTable = (id: number) => {
+    if (confirm("Are you sure you want to delete this table?")) {
+      deleteTableMutation.mutate(id);
+    }
+  };
+
+  const occupied = new Set(areaTables.map(table => `${table.posX}:${table.posY}`));
+  const currentArea = areas.find(area => area.id === currentAreaId);
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-neutral-900">Tables</h2>
+            <p className="text-neutral-600 mt-1">Who is sitting where, how long they have been there and what they have ordered</p>
+          </div>
+          <Button variant={editing ? "default" : "outline"} onClick={toggleEditing}>
+            <Edit className="w-4 h-4 mr-2" />
+            {editing ? "Done" : "Edit Layout"}
+          </Button>
+        </div>
+      </header>
+
+      <div className="p-8">
+        {/* Areas */}
+        <div className="flex items-center flex-wrap gap-2 mb-4">
+          {areas.map(area => (
+            <Button
+              key={area.id}
+              size="sm"
+              variant={area.id === currentAreaId ? "default" : "outline"}
+              onClick={() => { setAreaId(area.id); setSelectedId(null); }}
+            >
+              {area.name}
+            </Button>
+          ))}
+          {editing && (
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="New area"
+                value={newAreaName}
+                onChange={(e) => setNewAreaName(e.target.value)}
+                className="w-40 h-9"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!newAreaName.trim() || createAreaMutation.isPending}
+                onClick={() => createAreaMutation.mutate(newAreaName.trim())}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Area
+              </Button>
+              {currentArea && (
+                <Button size="sm" variant="ghost" className="text-neutral-400 hover:text-red-500" onClick={() => handleDeleteArea(currentArea)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Floor plan */}
+          <div className="lg:col-span-3">
+            {areas.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-neutral-500">
+                  No areas yet. Use Edit Layout to add the rooms and tables of the floor plan.
+                </CardContent>
+              </Card>
+            ) : (
+              <div
+                className="grid gap-2 bg-neutral-100 border border-neutral-200 rounded-xl p-3"
+                style={{
+                  gridTemplateColumns: `repeat(${FLOOR_GRID.columns}, minmax(0, 1fr))`,
+                  gridTemplateRows: `repeat(${FLOOR_GRID.rows}, 5.5rem)`,
+                }}
+              >
+                {editing && Array.from({ length: FLOOR_GRID.columns * FLOOR_GRID.rows }, (_, index) => {
+                  const posX = index % FLOOR_GRID.columns;
+                  const posY = Math.floor(index / FLOOR_GRID.columns);
+                  if (occupied.has(`${posX}:${posY}`)) return null;
+                  return (
+                    <button
+                      key={`cell:${posX}:${posY}`}
+                      className="rounded-lg border border-dashed border-neutral-300 hover:bg-white"
+                      style={{ gridColumnStart: posX + 1, gridRowStart: posY + 1 }}
+                      onClick={() => selectCell(posX, posY)}
+                    />
+                  );
+                })}
+                {areaTables.map(table => (
+                  <button
+                    key={table.id}
+                    className={`border-2 p-2 text-left text-xs transition-shadow hover:shadow-md ${statusStyles[table.displayStatus]} ${
+                      table.shape === "round" ? "rounded-full text-center flex flex-col items-center justify-center" : "rounded-lg"
+                    } ${table.id === selectedId ? "ring-2 ring-primary ring-offset-1" : ""}`}
+                    style={{ gridColumnStart: table.posX + 1, gridRowStart: table.posY + 1 }}
+                    onClick={() => selectTable(table)}
+                  >
+                    <div className="font-semibold text-sm">{table.number}</div>
+                    <div className="flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {table.order?.covers ?? 0}/{table.seats}
+                    </div>
+                    {table.order && table.seatedAt && (
+                      <div className="flex items-center">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {minutesSince(table.seatedAt, now)} min
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3 mt-4 text-xs text-neutral-600">
+              {(Object.keys(TABLE_STATUS_LABELS) as TableDisplayStatus[]).map(status => (
+                <div key={status} className="flex items-center">
+                  <span className={`w-3 h-3 rounded border-2 mr-1 ${statusStyles[status]}`} />
+                  {TABLE_STATUS_LABELS[status]}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Selected table, or the table form while editing */}
+          <div className="lg:col-span-1">
+            {editing ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{editingTableId ? "Edit Table" : "Add Table"}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={form.handleSubmit(data => saveTableMutation.mutate(data))} className="space-y-4">
+                    <div>
+                      <Label>Area</Label>
+                      <Select
+                        value={form.watch("areaId") ? String(form.watch("areaId")) : ""}
+                        onValueChange={(value) => form.setValue("areaId", parseInt(value))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select area" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {areas.map(area => (
+                            <SelectItem key={area.id} value={String(area.id)}>{area.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {form.formState.errors.areaId && (
+                        <p className="text-sm text-red-500 mt-1">Add an area first</p>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="number">Number</Label>
+                        <Input id="number" placeholder="e.g., 12" {...form.register("number")} />
+                        {form.formState.errors.number && (
+                          <p className="text-sm text-red-500 mt-1">{form.formState.errors.number.message}</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="seats">Seats</Label>
+                        <Input id="seats" type="number" min="1" {...form.register("seats", { valueAsNumber: true })} />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="posX">Column</Label>
+                        <Input
+                          id="posX"
+                          type="number"
+                          min="1"
+                          max={FLOOR_GRID.columns}
+                          value={form.watch("posX") + 1}
+                          onChange={(e) => form.setValue("posX", (parseInt(e.target.value) || 1) - 1)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="posY">Row</Label>
+                        <Input
+                          id="posY"
+                          type="number"
+                          min="1"
+                          max={FLOOR_GRID.rows}
+                          value={form.watch("posY") + 1}
+                          onChange={(e) => form.setValue("posY", (parseInt(e.target.value) || 1) - 1)}
+                        />
+                      </div>
+                    </div>
+                    {(form.formState.errors.posX || form.formState.errors.posY) && (
+                      <p className="text-sm text-red-500">The table must be on the {FLOOR_GRID.columns} × {FLOOR_GRID.rows} grid</p>
+                    )}
+
+                    <div>
+                      <Label>Shape</Label>
+                      <Select
+                        value={form.watch("shape")}
+                        onValueChange={(value) => form.setValue("shape", value as InsertDiningTable["shape"])}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="square">Square</SelectItem>
+                          <SelectItem value="round">Round</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex space-x-2">
+                      <Button type="submit" className="flex-1" disabled={saveTableMutation.isPending}>
+                        {editingTableId ? "Save" : "Add Table"}
+                      </Button>
+                      {editingTableId && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="text-red-500"
+                          onClick={() => handleDeleteTable(editingTableId)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            ) : selected ? (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Table {selected.number}</CardTitle>
+                    <Badge variant="outline">{TABLE_STATUS_LABELS[selected.displayStatus]}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-1 text-sm text-neutral-600">
+                    <div>{selected.seats} seats</div>
+                    {selected.order && (
+                      <>
+                        <div>{selected.order.covers ?? "No"} covers</div>
+                        <div>Seated {minutesSince(selected.seatedAt, now)} min ago</div>
+                        <div>
+                          {orderItemCount(selected.order.items)} items ordered
+                          {selected.order.name && ` · ${selected.order.name}`}
+                        </div>
+                        {selected.order.status === "settling" && <Badge variant="secondary">Being paid</Badge>}
+                      </>
+                    )}
+                  </div>
+
+                  {selected.displayStatus === "free" && (
+                    <div className="flex items-end space-x-2">
+                      <div className="flex-1">
+                        <Label htmlFor="covers">Covers</Label>
+                        <Input id="covers" type="number" min="1" value={covers} onChange={(e) => setCovers(e.target.value)} />
+                      </div>
+                      <Button
+                        disabled={!(parseInt(covers) > 0) || seatMutation.isPending}
+                        onClick={() => seatMutation.mutate({ id: selected.id, covers: parseInt(covers) })}
+                      >
+                        <Users className="w-4 h-4 mr-2" />
+                        Seat
+                      </Button>
+                    </div>
+                  )}
+
+                  {selected.order && (
+                    <div className="space-y-2">
+                      <Button
+                        className="w-full"
+                        disabled={selected.order.status !== "open"}
+                        onClick={() => navigate(`/pos?order=${selected.order!.id}`)}
+                      >
+                        <UtensilsCrossed className="w-4 h-4 mr-2" />
+                        {selected.displayStatus === "bill_requested" ? "Take Payment" : "Open at Till"}
+                      </Button>
+                      {selected.displayStatus === "bill_requested" ? (
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => statusMutation.mutate({ id: selected.id, status: "seated" })}
+                        >
+                          Cancel Bill Request
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => statusMutation.mutate({ id: selected.id, status: "bill_requested" })}
+                        >
+                          <Receipt className="w-4 h-4 mr-2" />
+                          Bill Requested
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {selected.displayStatus === "dirty" && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => statusMutation.mutate({ id: selected.id, status: "free" })}
+                    >
+                      <Sparkles className="w-4 h-4 mr-2" />
+                      Mark Cleared
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-neutral-500">
+                  Select a table to seat guests or work with its order
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Edit, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { insertTaxRateSchema } from "@shared/schema";
+import type { CategoryTaxRate, InsertTaxRate, Product, TaxRate } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+
+const emptyTaxRate: InsertTaxRate = {
+  name: "",
+  dineInRate: 0,
+  takeawayRate: null,
+  pricesIncludeTax: false,
+  isDefault: false,
+};
+
+// Anything that changes how a product is taxed changes what the till quotes
+const invalidateTaxQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tax-rates/categories"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sales/quote"] });
+};
+
+export default function TaxRatesPage() {
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+  const { toast } = useToast();
+
+  const { data: taxRates = [] } = useQuery<TaxRate[]>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const { data: categoryRates = [] } = useQuery<CategoryTaxRate[]>({
+    queryKey: ["/api/tax-rates/categories"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const form = useForm<InsertTaxRate>({
+    resolver: zodResolver(insertTaxRateSchema),
+    defaultValues: emptyTaxRate,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertTaxRate) => apiRequest("POST", "/api/tax-rates", data),
+    onSuccess: () => {
+      invalidateTaxQueries();
+      form.reset(emptyTaxRate);
+      toast({ title: "Success", description: "Tax rate added successfully" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to add tax rate", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Partial<InsertTaxRate> }) =>
+      apiRequest("PUT", `/api/tax-rates/${id}`, data),
+    onSuccess: () => {
+      invalidateTaxQueries();
+      setEditingRate(null);
+      form.reset(emptyTaxRate);
+      toast({ title: "Success", description: "Tax rate updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update tax rate", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/tax-rates/${id}`),
+    onSuccess: () => {
+      invalidateTaxQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Success", description: "Tax rate deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete tax rate", variant: "destructive" });
+    },
+  });
+
+  const categoryMutation = useMutation({
+    mutationFn: (data: { category: string; taxRateId: number | null }) =>
+      apiRequest("PUT", "/api/tax-rates/categories", data),
+    onSuccess: () => {
+      invalidateTaxQueries();
+      toast({ title: "Success", description: "Category tax rate saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save category tax rate", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: InsertTaxRate) => {
+    if (editingRate) {
+      updateMutation.mutate({ id: editingRate.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (rate: TaxRate) => {
+    setEditingRate(rate);
+    form.reset({
+      name: rate.name,
+      dineInRate: parseFloat(rate.dineInRate),
+      takeawayRate: rate.takeawayRate !== null ? parseFloat(rate.takeawayRate) : null,
+      pricesIncludeTax: rate.pricesIncludeTax,
+      isDefault: rate.isDefault,
+    });
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm("Are you sure you want to delete this tax rate? Products using it will fall back to their category or the default rate.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const cancelEdit = () => {
+    setEditingRate(null);
+    form.reset(emptyTaxRate);
+  };
+
+  const categories = Array.from(new Set(products.map(product => product.category))).sort();
+  const defaultRate = taxRates.find(rate => rate.isDefault);
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-200 px-8 py-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-neutral-900">Tax Rates</h2>
+          <p className="text-neutral-600 mt-1">Set up the rates charged on sales and which products they apply to</p>
+        </div>
+      </header>
+
+      <div className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Form */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle>{editingRate ? "Edit Tax Rate" : "Add Tax Rate"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div>
+                    <Label htmlFor="name">Name</Label>
+                    <Input id="name" placeholder="e.g., Standard VAT" {...form.register("name")} />
+                    {form.formState.errors.name && (
+                      <p className="text-sm text-red-500 mt-1">{form.formState.errors.name.message}</p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="dineInRate">Dine-in rate (%)</Label>
+                      <Input
+                        id="dineInRate"
+                        type="number"
+                        step="0.001"
+                        {...form.register("dineInRate", { valueAsNumber: true })}
+                      />
+                      {form.formState.errors.dineInRate && (
+                        <p className="text-sm text-red-500 mt-1">Enter a rate between 0 and 100</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="takeawayRate">Takeaway rate (%)</Label>
+                      <Input
+                        id="takeawayRate"
+                        type="number"
+                        step="0.001"
+                        placeholder="Same"
+                        {...form.register("takeawayRate", {
+                          setValueAs: (value) => value === "" || value === null ? null : parseFloat(value),
+                        })}
+                      />
+                      {form.formState.errors.takeawayRate && (
+                        <p className="text-sm text-red-500 mt-1">Enter a rate between 0 and 100</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="pricesIncludeTax"
+                      checked={form.watch("pricesIncludeTax")}
+                      onCheckedChange={(checked) => form.setValue("pricesIncludeTax", checked === true)}
+                    />
+                    <Label htmlFor="pricesIncludeTax">Menu prices include this tax</Label>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="isDefault"
+                      checked={form.watch("isDefault")}
+                      onCheckedChange={(checked) => form.setValue("isDefault", checked === true)}
+                    />
+                    <Label htmlFor="isDefault">Default for products without a rate</Label>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button
+                      type="submit"
+                      className="flex-1 bg-primary text-white hover:bg-primary/90"
+                      disabled={createMutation.isPending || updateMutation.isPending}
+                    >
+                      {editingRate ? "Update Tax Rate" : "Add Tax Rate"}
+                    </Button>
+                    {editingRate && (
+                      <Button type="button" variant="outline" onClick={cancelEdit}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-8">
+            {/* Rates */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Rates</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {taxRates.length === 0 ? (
+                  <div className="p-8 text-center text-neutral-500">No tax rates set up yet</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-neutral-50">
+                        <tr>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Name</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Dine-in</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Takeaway</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Pricing</th>
+                          <th className="text-left py-3 px-6 text-sm font-medium text-neutral-700">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {taxRates.map((rate) => (
+                          <tr key={rate.id} className="border-t border-neutral-100 hover:bg-neutral-50">
+                            <td className="py-4 px-6">
+                              <span className="font-medium text-neutral-900">{rate.name}</span>
+                              {rate.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                            </td>
+                            <td className="py-4 px-6 text-neutral-600">{parseFloat(rate.dineInRate)}%</td>
+                            <td className="py-4 px-6 text-neutral-600">
+                              {rate.takeawayRate !== null ? `${parseFloat(rate.takeawayRate)}%` : "Same"}
+                            </td>
+                            <td className="py-4 px-6 text-neutral-600">
+                              {rate.pricesIncludeTax ? "Tax included" : "Tax added"}
+                            </td>
+                            <td className="py-4 px-6">
+                              <div className="flex items-center space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(rate)}
+                                  className="p-1.5 text-neutral-400 hover:text-primary"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(rate.id)}
+                                  className="p-1.5 text-neutral-400 hover:text-red-500"
+                                  disabled={deleteMutation.isPending}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Category assignments */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <p className="text-sm text-neutral-600">
+                  Products are taxed at their own rate if they have one, otherwise at their category's rate
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {categories.length === 0 ? (
+                  <div className="text-center text-neutral-500">No product categories yet</div>
+                ) : (
+                  categories.map((category) => {
+                    const assigned = categoryRates.find(entry => entry.category === category);
+                    return (
+                      <div key={category} className="flex items-center justify-between">
+                        <span className="font-medium text-neutral-900">{category}</span>
+                        <Select
+                          value={assigned ? assigned.taxRateId.toString() : "default"}
+                          onValueChange={(value) => categoryMutation.mutate({
+                            category,
+                            taxRateId: value === "default" ? null : parseInt(value),
+                          })}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">
+                              {defaultRate ? `Default (${defaultRate.name})` : "Default"}
+                            </SelectItem>
+                            {taxRates.map((rate) => (
+                              <SelectItem key={rate.id} value={rate.id.toString()}>
+                                {rate.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
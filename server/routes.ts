@@ -1,9 +1,365 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertProductSchema, insertSaleSchema, insertOperationalCostSchema, insertCostHistorySchema } from "@shared/schema";
+import { storage, InsufficientStockError, ProductUnavailableError, PromotionUnavailableError, OpenOrderError, OpenOrderConflictError, TableError, KitchenError } from "./storage";
+import { insertProductSchema, insertOperationalCostSchema, insertCostHistorySchema, insertIngredientSchema, insertRecipeSchema, scaleRecipeSchema, insertStockCountSchema, insertIngredientPurchaseSchema, insertTaxRateSchema, categoryTaxRateSchema, insertPromotionSchema, insertModifierGroupSchema, saleRequestSchema, saleRefundSchema, saleVoidSchema, insertOpenOrderSchema, updateOpenOrderSchema, openOrderItemsSchema, transferOpenOrderSchema, mergeOpenOrderSchema, settleOpenOrderSchema, insertFloorAreaSchema, insertDiningTableSchema, seatTableSchema, tableStatusSchema, fireCourseSchema, insertKitchenStationSchema, categoryStationSchema, NEGATIVE_STOCK_POLICIES, type Sale, type SaleRequest, type OpenOrder, type OrderLine, type OrderType, type NegativeStockPolicy, type Product, type InsertProduct, type InsertPromotion, type InsertModifierGroup, type InsertRecipe, type RecipeIngredientLine, type AllergenMatrix, type ScaledRecipe } from "@shared/schema";
+import { ALLERGENS, DIETARY_FLAGS } from "@shared/allergens";
+import { canConvert, convertQuantity, findUnit, getConversionProfile } from "@shared/units";
+import { isPromotionAvailable, normalizeCouponCode } from "@shared/promotions";
+import { settleTenders, TenderError } from "@shared/tendering";
+import { RefundError } from "@shared/refunds";
+import { isBundle } from "@shared/bundles";
+import { unsentLines } from "@shared/kitchen";
+import { priceSale, findPricingMismatches, createTaxRuleResolver, PricingError, type PricedSale, type TaxRule } from "@shared/pricing";
 import { z } from "zod";
 
+const DEFAULT_TARGET_FOOD_COST_PERCENTAGE = process.env.TARGET_FOOD_COST_PERCENTAGE
+  ? parseFloat(process.env.TARGET_FOOD_COST_PERCENTAGE)
+  : 30;
+
+// What happens to a sale that would take stock below zero; see NEGATIVE_STOCK_POLICIES
+const NEGATIVE_STOCK_POLICY: NegativeStockPolicy =
+  NEGATIVE_STOCK_POLICIES.find(policy => policy === process.env.NEGATIVE_STOCK_POLICY) ?? "reject";
+
+// The largest till discount, as a percentage of what is left after promotions, that can
+// be given without a manager's approval, e.g. MAX_UNAPPROVED_DISCOUNT_PERCENTAGE=10
+const MAX_UNAPPROVED_DISCOUNT_PERCENTAGE = process.env.MAX_UNAPPROVED_DISCOUNT_PERCENTAGE
+  ? parseFloat(process.env.MAX_UNAPPROVED_DISCOUNT_PERCENTAGE)
+  : 10;
+
+// Tax for products with no configured rate and no default rate, e.g. TAX_RATE=0.08
+// for 8%. Unset keeps the 8% charged before tax rates could be configured; TAX_RATE=0
+// leaves such products untaxed.
+const FALLBACK_TAX_RATE = process.env.TAX_RATE ? parseFloat(process.env.TAX_RATE) : 0.08;
+const FALLBACK_TAX_RULE: TaxRule | null = FALLBACK_TAX_RATE > 0
+  ? { id: null, name: "Sales tax", rate: FALLBACK_TAX_RATE * 100, inclusive: false }
+  : null;
+
+// Prices a till's cart from the catalogue, modifiers included, with whatever promotions
+// are running now; inactive products cannot be sold and a coupon code has to match a
+// live promotion
+async function priceSaleRequest(request: SaleRequest): Promise<PricedSale> {
+  const products = await storage.getProducts();
+  const catalogue = new Map(products.filter(product => product.isActive !== false).map(product => [product.id, product]));
+  const taxRuleFor = createTaxRuleResolver(
+    await storage.getTaxRates(),
+    await storage.getCategoryTaxRates(),
+    request.orderType,
+    FALLBACK_TAX_RULE
+  );
+
+  const now = new Date();
+  const promotions = (await storage.getPromotions())
+    .filter(promotion => isPromotionAvailable(promotion, now, request.couponCode));
+  if (request.couponCode) {
+    const code = normalizeCouponCode(request.couponCode);
+    if (!promotions.some(promotion => promotion.couponCode === code)) {
+      throw new PricingError(`Coupon code ${code} is not valid`);
+    }
+  }
+  const modifierGroups = new Map((await storage.getModifierGroups()).map(group => [group.id, group]));
+  return priceSale(request.items, catalogue, { taxRuleFor, discount: request.discount, promotions, modifierGroups });
+}
+
+// Bundle slots must offer existing products that are not bundles themselves. An update
+// is checked as it will be stored, merged with the product it changes.
+async function validateBundleSlots(data: Partial<InsertProduct>, existing?: Product): Promise<string | undefined> {
+  const slots = data.bundleSlots ?? existing?.bundleSlots ?? [];
+  const recipeId = data.recipeId !== undefined ? data.recipeId : existing?.recipeId;
+  if (slots.length === 0) return undefined;
+  if (recipeId) return "A bundle cannot be linked to a recipe";
+  const productId = existing?.id;
+  const productMap = new Map((await storage.getProducts()).map(product => [product.id, product]));
+  for (const slot of slots) {
+    for (const choice of slot.choices) {
+      const product = productMap.get(choice.productId);
+      if (!product) return `${slot.name} offers unknown product ${choice.productId}`;
+      if (product.id === productId || isBundle(product)) return `${slot.name} cannot offer the bundle ${product.name}`;
+    }
+  }
+  return undefined;
+}
+
+// A till discount over the limit needs someone to sign it off
+function checkDiscountApproval(request: SaleRequest, priced: PricedSale) {
+  const manualDiscount = priced.promotions.find(promotion => promotion.promotionId === null)?.amount ?? 0;
+  if (manualDiscount === 0 || request.discountApprovedBy) return;
+  const beforeDiscount = priced.subtotal - priced.discountAmount + manualDiscount;
+  if (beforeDiscount > 0 && (manualDiscount / beforeDiscount) * 100 > MAX_UNAPPROVED_DISCOUNT_PERCENTAGE) {
+    throw new PricingError(`A discount over ${MAX_UNAPPROVED_DISCOUNT_PERCENTAGE}% needs a manager's approval`);
+  }
+}
+
+// Takes payment for a priced sale and records it, taking its stock
+async function recordSale(request: SaleRequest, priced: PricedSale): Promise<Sale> {
+  checkDiscountApproval(request, priced);
+  const payment = settleTenders(priced.totalAmount, request);
+  return await storage.createSale({
+    items: priced.items,
+    subtotal: priced.subtotal,
+    discountAmount: priced.discountAmount,
+    taxAmount: priced.taxAmount,
+    totalAmount: priced.totalAmount,
+    orderType: request.orderType,
+    covers: request.covers ?? null,
+    promotions: priced.promotions,
+    discountApprovedBy: priced.promotions.some(promotion => promotion.promotionId === null)
+      ? request.discountApprovedBy ?? null
+      : null,
+    taxBreakdown: priced.taxBreakdown,
+    paymentMethod: payment.paymentMethod,
+    tenders: payment.tenders,
+    cashTendered: payment.cashTendered,
+    changeDue: payment.changeDue,
+    customerId: request.customerId ?? null,
+    cashierId: request.cashierId
+  }, NEGATIVE_STOCK_POLICY);
+}
+
+// A paid sale stands even if the kitchen cannot be told about it; staff can still call it through
+async function sendToKitchen(sale: Sale, lines: OrderLine[], order?: OpenOrder): Promise<void> {
+  try {
+    await storage.sendSaleToKitchen(sale, lines, order);
+  } catch (error) {
+    console.error(`Failed to send sale ${sale.id} to the kitchen:`, error);
+  }
+}
+
+function sendSaleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid sale data", errors: error.errors });
+  }
+  if (error instanceof PricingError || error instanceof TenderError || error instanceof OpenOrderError) {
+    return res.status(400).json({ message: error.message });
+  }
+  if (error instanceof InsufficientStockError) {
+    return res.status(409).json({ message: "Insufficient stock", products: error.shortages });
+  }
+  if (error instanceof PromotionUnavailableError) {
+    return res.status(409).json({ message: error.message, promotion: error.promotionName });
+  }
+  if (error instanceof ProductUnavailableError) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (error instanceof OpenOrderConflictError) {
+    return res.status(409).json({ message: error.message });
+  }
+  res.status(500).json({ message: fallback });
+}
+
+function sendOpenOrderError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid order data", errors: error.errors });
+  }
+  if (error instanceof OpenOrderError) {
+    return res.status(400).json({ message: error.message });
+  }
+  if (error instanceof OpenOrderConflictError) {
+    return res.status(409).json({ message: error.message });
+  }
+  res.status(500).json({ message: fallback });
+}
+
+function sendTableError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid table data", errors: error.errors });
+  }
+  if (error instanceof TableError) {
+    return res.status(400).json({ message: error.message });
+  }
+  if (error instanceof OpenOrderConflictError) {
+    return res.status(409).json({ message: error.message });
+  }
+  res.status(500).json({ message: fallback });
+}
+
+async function validateModifierGroup(data: InsertModifierGroup): Promise<string | undefined> {
+  const ingredientIds = new Set((await storage.getIngredients()).map(ingredient => ingredient.id));
+  for (const option of data.options) {
+    const unknown = option.ingredientDeltas.find(delta => !ingredientIds.has(delta.ingredientId));
+    if (unknown) return `${option.name} uses unknown ingredient ${unknown.ingredientId}`;
+  }
+  return undefined;
+}
+
+function validatePromotion(data: Partial<InsertPromotion>): string | undefined {
+  if (data.type === "percentage" && (data.value ?? 0) > 100) {
+    return "A percentage discount cannot exceed 100";
+  }
+  if (data.type === "buy_x_get_y") {
+    if (!data.buyQuantity || !data.getQuantity) {
+      return "Buy X get Y promotions need buy and get quantities";
+    }
+    if ((data.value ?? 0) > 100) {
+      return "Buy X get Y promotions take at most 100% off the free items";
+    }
+  }
+  if (!data.startTime !== !data.endTime) {
+    return "Happy hour needs both a start and an end time";
+  }
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    return "Promotion must start before it ends";
+  }
+  return undefined;
+}
+
+// Drops blank lines and checks every referenced ingredient or prep item exists, can be
+// measured in the line's unit and does not make the recipe (recipeId) include itself
+async function normalizeRecipeLines(
+  lines: RecipeIngredientLine[],
+  recipeId?: number
+): Promise<{ lines: RecipeIngredientLine[]; error?: string }> {
+  const validLines = lines.filter(line => (line.ingredientId > 0 || (line.subRecipeId ?? 0) > 0) && line.quantity > 0);
+  if (validLines.length === 0) {
+    return { lines: validLines, error: "Recipe must include at least one ingredient" };
+  }
+
+  const ingredients = await storage.getIngredients();
+  const ingredientMap = new Map(ingredients.map(ingredient => [ingredient.id, ingredient]));
+  const recipes = await storage.getRecipesWithDetails();
+  const recipeMap = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+  for (const line of validLines) {
+    if (line.ingredientId > 0) {
+      const ingredient = ingredientMap.get(line.ingredientId);
+      if (!ingredient) {
+        return { lines: validLines, error: `Unknown ingredient: ${line.ingredientId}` };
+      }
+      if (line.unit && !canConvert(line.unit, ingredient.unit, getConversionProfile(ingredient))) {
+        return { lines: validLines, error: `Cannot measure ${ingredient.name} in ${line.unit}` };
+      }
+      continue;
+    }
+
+    const subRecipe = recipeMap.get(line.subRecipeId!);
+    if (!subRecipe || !subRecipe.isPrepItem) {
+      return { lines: validLines, error: `Unknown prep item: ${line.subRecipeId}` };
+    }
+    if (line.unit && subRecipe.yieldUnit && !canConvert(line.unit, subRecipe.yieldUnit)) {
+      return { lines: validLines, error: `Cannot measure ${subRecipe.name} in ${line.unit}` };
+    }
+
+    // Walk down the prep item tree looking for the recipe being saved
+    if (recipeId !== undefined) {
+      const pending = [subRecipe.id];
+      const seen = new Set<number>();
+      while (pending.length > 0) {
+        const currentId = pending.pop()!;
+        if (currentId === recipeId) {
+          return { lines: validLines, error: `${subRecipe.name} already includes this recipe` };
+        }
+        if (seen.has(currentId)) continue;
+        seen.add(currentId);
+        pending.push(...(recipeMap.get(currentId)?.subRecipeDetails.map(detail => detail.recipe.id) || []));
+      }
+    }
+  }
+
+  return { lines: validLines };
+}
+
+function validatePrepItemYield(data: Partial<InsertRecipe>): string | undefined {
+  if (!data.isPrepItem) return undefined;
+  if (!data.yieldQuantity || !data.yieldUnit) {
+    return "Prep items need a yield quantity and unit";
+  }
+  if (!findUnit(data.yieldUnit)) {
+    return `Unknown yield unit: ${data.yieldUnit}`;
+  }
+  return undefined;
+}
+
+// Another promotion already using the coupon code, if any
+async function findCouponClash(couponCode: string | null | undefined, promotionId?: number) {
+  if (!couponCode) return undefined;
+  const promotions = await storage.getPromotions();
+  return promotions.find(promotion => promotion.couponCode === couponCode && promotion.id !== promotionId);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderAllergenMatrixHtml(matrix: AllergenMatrix): string {
+  const labels = new Map<string, string>(ALLERGENS.map(allergen => [allergen.key, allergen.label]));
+  const flagLabels = new Map<string, string>(DIETARY_FLAGS.map(flag => [flag.key, flag.label]));
+
+  const header = matrix.allergens.map(key => `<th>${escapeHtml(labels.get(key) ?? key)}</th>`).join("");
+  const rows = matrix.items.map(item => {
+    const cells = matrix.allergens.map(key => `<td>${item.contains[key] ? "&#10003;" : ""}</td>`).join("");
+    const flags = item.dietaryFlags.map(flag => flagLabels.get(flag) ?? flag).join(", ");
+    const name = item.hasRecipe ? escapeHtml(item.name) : `${escapeHtml(item.name)} *`;
+    return `<tr><td>${name}</td><td>${escapeHtml(item.category)}</td>${cells}<td>${escapeHtml(flags)}</td></tr>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Allergen Matrix</title>
+<style>
+  body { font-family: sans-serif; font-size: 12px; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: center; }
+  td:first-child, td:nth-child(2) { text-align: left; }
+</style>
+</head>
+<body>
+<h1>Allergen Matrix</h1>
+<table>
+<thead><tr><th>Item</th><th>Category</th>${header}<th>Suitable for</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+<p>* Not linked to a recipe; allergen information unavailable.</p>
+</body>
+</html>`;
+}
+
+function renderPrepSheetHtml(scaled: ScaledRecipe): string {
+  const sections = scaled.sections.map(section => {
+    const target = section.isPrepItem && section.yieldQuantity !== null
+      ? `${section.yieldQuantity} ${escapeHtml(section.yieldUnit ?? "")}`
+      : `${section.servings} servings`;
+    const rows = section.lines.map(line =>
+      `<tr><td class="check"></td><td>${escapeHtml(line.name)}</td><td>${line.quantity} ${escapeHtml(line.unit)}</td><td>$${line.cost.toFixed(2)}</td></tr>`
+    ).join("");
+    return `<h2>${escapeHtml(section.name)} <small>&times; ${target}</small></h2>
+<table>
+<thead><tr><th></th><th>Item</th><th>Quantity</th><th>Cost</th></tr></thead>
+<tbody>${rows}</tbody>
+<tfoot><tr><td></td><td colspan="2">Section cost</td><td>$${section.cost.toFixed(2)}</td></tr></tfoot>
+</table>`;
+  }).join("");
+  const warnings = scaled.warnings.length > 0
+    ? `<ul class="warnings">${scaled.warnings.map(warning => `<li>${escapeHtml(warning)}</li>`).join("")}</ul>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Prep Sheet: ${escapeHtml(scaled.name)}</title>
+<style>
+  body { font-family: sans-serif; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+  th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+  td.check { width: 16px; }
+  small { font-weight: normal; color: #555; }
+  .warnings { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>Prep Sheet: ${escapeHtml(scaled.name)}</h1>
+<p>Batch cost: <strong>$${scaled.batchCost.toFixed(2)}</strong> &middot; Cost per serving: $${scaled.costPerServing.toFixed(2)}</p>
+${warnings}
+${sections}
+</body>
+</html>`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Products routes
@@ -25,6 +381,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/products/with-allergens", async (req, res) => {
+    try {
+      const products = await storage.getProductsWithAllergens();
+      res.json(products);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch products with allergens" });
+    }
+  });
+
   app.get("/api/products/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -41,6 +406,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/products", async (req, res) => {
     try {
       const validatedData = insertProductSchema.parse(req.body);
+      const bundleError = await validateBundleSlots(validatedData);
+      if (bundleError) {
+        return res.status(400).json({ message: bundleError });
+      }
       const product = await storage.createProduct(validatedData);
       res.status(201).json(product);
     } catch (error) {
@@ -55,6 +424,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertProductSchema.partial().parse(req.body);
+      const existing = await storage.getProduct(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const bundleError = await validateBundleSlots(validatedData, existing);
+      if (bundleError) {
+        return res.status(400).json({ message: bundleError });
+      }
       const product = await storage.updateProduct(id, validatedData);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
@@ -81,6 +458,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Allergen matrix for the whole menu; ?format=html returns a printable page
+  app.get("/api/menu/allergen-matrix", async (req, res) => {
+    try {
+      const matrix = await storage.getAllergenMatrix();
+      if (req.query.format === "html") {
+        return res.type("html").send(renderAllergenMatrixHtml(matrix));
+      }
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build allergen matrix" });
+    }
+  });
+
   // Inventory alerts
   app.get("/api/inventory/alerts", async (req, res) => {
     try {
@@ -114,134 +504,1248 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Canonical totals for a cart, so the till shows exactly what will be charged
+  app.post("/api/sales/quote", async (req, res) => {
+    try {
+      const request = saleRequestSchema.parse(req.body);
+      const priced = await priceSaleRequest(request);
+      res.json(priced);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sale data", errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to price sale" });
+    }
+  });
+
   app.post("/api/sales", async (req, res) => {
     try {
-      const validatedData = insertSaleSchema.parse(req.body);
-      const sale = await storage.createSale(validatedData);
+      const request = saleRequestSchema.parse(req.body);
+      const priced = await priceSaleRequest(request);
+      const mismatches = findPricingMismatches(request, priced);
+      if (mismatches.length > 0) {
+        return res.status(409).json({ message: "Sale totals do not match current prices", mismatches, expected: priced });
+      }
+      const sale = await recordSale(request, priced);
+      await sendToKitchen(sale, request.items);
       res.status(201).json(sale);
+    } catch (error) {
+      sendSaleError(res, error, "Failed to create sale");
+    }
+  });
+
+  // Gives back some of a sale's lines as a refund sale with negative amounts
+  app.post("/api/sales/:id/refund", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const refund = saleRefundSchema.parse(req.body);
+      const offset = await storage.refundSale(id, refund);
+      if (!offset) {
+        return res.status(404).json({ message: "Sale not found" });
+      }
+      res.status(201).json(offset);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid sale data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid refund data", errors: error.errors });
+      }
+      if (error instanceof RefundError) {
+        return res.status(400).json({ message: error.message });
       }
-      res.status(500).json({ message: "Failed to create sale" });
+      res.status(500).json({ message: "Failed to refund sale" });
     }
   });
 
-  app.put("/api/sales/:id", async (req, res) => {
+  app.post("/api/sales/:id/void", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertSaleSchema.partial().parse(req.body);
-      const sale = await storage.updateSale(id, validatedData);
-      if (!sale) {
+      const details = saleVoidSchema.parse(req.body);
+      const offset = await storage.voidSale(id, details);
+      if (!offset) {
         return res.status(404).json({ message: "Sale not found" });
       }
-      res.json(sale);
+      res.status(201).json(offset);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid sale data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid void data", errors: error.errors });
+      }
+      if (error instanceof RefundError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to void sale" });
+    }
+  });
+
+  // Open order routes: tabs and table orders kept on the server until they are paid
+  app.get("/api/open-orders", async (req, res) => {
+    try {
+      const orders = await storage.getOpenOrders();
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch open orders" });
+    }
+  });
+
+  app.get("/api/open-orders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOpenOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  app.post("/api/open-orders", async (req, res) => {
+    try {
+      const validatedData = insertOpenOrderSchema.parse(req.body);
+      const order = await storage.createOpenOrder(validatedData);
+      res.status(201).json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to open order");
+    }
+  });
+
+  app.put("/api/open-orders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateOpenOrderSchema.parse(req.body);
+      const order = await storage.updateOpenOrder(id, validatedData);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to update order");
+    }
+  });
+
+  app.post("/api/open-orders/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { items } = openOrderItemsSchema.parse(req.body);
+      const order = await storage.addOpenOrderItems(id, items);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to add items");
+    }
+  });
+
+  app.post("/api/open-orders/:id/transfer", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { tableNumber } = transferOpenOrderSchema.parse(req.body);
+      const order = await storage.transferOpenOrder(id, tableNumber);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to transfer order");
+    }
+  });
+
+  app.post("/api/open-orders/:id/merge", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { intoOrderId } = mergeOpenOrderSchema.parse(req.body);
+      const order = await storage.mergeOpenOrder(id, intoOrderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to merge orders");
+    }
+  });
+
+  // Prices the order as it stands and rings it up as a sale. The order is claimed
+  // first so two terminals cannot take payment for it at once.
+  app.post("/api/open-orders/:id/settle", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { version, ...payment } = settleOpenOrderSchema.parse(req.body);
+      const order = await storage.claimOpenOrder(id, version);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Until the sale is recorded nothing has been charged, so the order can go back to
+      // being open; after that it must not, or it could be paid for twice
+      let sale: Sale;
+      try {
+        const request: SaleRequest = { ...payment, items: order.items, orderType: order.orderType as OrderType, covers: order.covers };
+        const priced = await priceSaleRequest(request);
+        const mismatches = findPricingMismatches(request, priced);
+        if (mismatches.length > 0) {
+          await storage.releaseOpenOrder(id);
+          return res.status(409).json({ message: "Sale totals do not match current prices", mismatches, expected: priced });
+        }
+        sale = await recordSale(request, priced);
+      } catch (error) {
+        await storage.releaseOpenOrder(id);
+        throw error;
+      }
+
+      // The order stays claimed if it cannot be closed, so it cannot be paid for again
+      try {
+        await storage.completeOpenOrder(id, sale.id);
+      } catch (error) {
+        console.error(`Sale ${sale.id} was recorded but order ${id} could not be closed:`, error);
+      }
+      await sendToKitchen(sale, unsentLines(order.items, order.sentItems), order);
+      res.status(201).json(sale);
+    } catch (error) {
+      sendSaleError(res, error, "Failed to settle order");
+    }
+  });
+
+  // Sends what is new on the order to the kitchen stations
+  app.post("/api/open-orders/:id/send", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.sendOpenOrderToKitchen(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to send order to the kitchen");
+    }
+  });
+
+  app.post("/api/open-orders/:id/fire", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { course } = fireCourseSchema.parse(req.body);
+      const order = await storage.fireOpenOrderCourse(id, course);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
-      res.status(500).json({ message: "Failed to update sale" });
+      res.json(order);
+    } catch (error) {
+      sendOpenOrderError(res, error, "Failed to fire course");
     }
   });
 
-  app.delete("/api/sales/:id", async (req, res) => {
+  app.delete("/api/open-orders/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteSale(id);
+      const deleted = await storage.deleteOpenOrder(id);
       if (!deleted) {
-        return res.status(404).json({ message: "Sale not found" });
+        return res.status(404).json({ message: "Order not found" });
       }
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete sale" });
+      sendOpenOrderError(res, error, "Failed to delete order");
     }
   });
 
-  // Operational costs routes
-  app.get("/api/costs", async (req, res) => {
+  // Floor plan routes
+  app.get("/api/floor-areas", async (req, res) => {
     try {
-      const costs = await storage.getOperationalCosts();
-      res.json(costs);
+      const areas = await storage.getFloorAreas();
+      res.json(areas);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch operational costs" });
+      res.status(500).json({ message: "Failed to fetch floor areas" });
     }
   });
 
-  app.get("/api/costs/:id", async (req, res) => {
+  app.post("/api/floor-areas", async (req, res) => {
+    try {
+      const validatedData = insertFloorAreaSchema.parse(req.body);
+      const areas = await storage.getFloorAreas();
+      if (areas.some(area => area.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(400).json({ message: `There is already an area called ${validatedData.name}` });
+      }
+      const area = await storage.createFloorArea(validatedData);
+      res.status(201).json(area);
+    } catch (error) {
+      sendTableError(res, error, "Failed to create floor area");
+    }
+  });
+
+  app.put("/api/floor-areas/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const cost = await storage.getOperationalCost(id);
-      if (!cost) {
-        return res.status(404).json({ message: "Operational cost not found" });
+      const validatedData = insertFloorAreaSchema.partial().parse(req.body);
+      const areas = await storage.getFloorAreas();
+      const name = validatedData.name?.toLowerCase();
+      if (areas.some(area => area.id !== id && area.name.toLowerCase() === name)) {
+        return res.status(400).json({ message: `There is already an area called ${validatedData.name}` });
       }
-      res.json(cost);
+      const area = await storage.updateFloorArea(id, validatedData);
+      if (!area) {
+        return res.status(404).json({ message: "Floor area not found" });
+      }
+      res.json(area);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch operational cost" });
+      sendTableError(res, error, "Failed to update floor area");
     }
   });
 
-  app.post("/api/costs", async (req, res) => {
+  app.delete("/api/floor-areas/:id", async (req, res) => {
     try {
-      const validatedData = insertOperationalCostSchema.parse(req.body);
-      const cost = await storage.createOperationalCost(validatedData);
-      res.status(201).json(cost);
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteFloorArea(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Floor area not found" });
+      }
+      res.status(204).send();
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid cost data", errors: error.errors });
+      sendTableError(res, error, "Failed to delete floor area");
+    }
+  });
+
+  // Tables with their status and the order open at each
+  app.get("/api/tables", async (req, res) => {
+    try {
+      const tables = await storage.getDiningTables();
+      res.json(tables);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tables" });
+    }
+  });
+
+  app.post("/api/tables", async (req, res) => {
+    try {
+      const validatedData = insertDiningTableSchema.parse(req.body);
+      const areas = await storage.getFloorAreas();
+      if (!areas.some(area => area.id === validatedData.areaId)) {
+        return res.status(400).json({ message: `Unknown floor area: ${validatedData.areaId}` });
       }
-      res.status(500).json({ message: "Failed to create operational cost" });
+      const table = await storage.createDiningTable(validatedData);
+      res.status(201).json(table);
+    } catch (error) {
+      sendTableError(res, error, "Failed to create table");
     }
   });
 
-  app.put("/api/costs/:id", async (req, res) => {
+  app.put("/api/tables/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertOperationalCostSchema.partial().parse(req.body);
-      const cost = await storage.updateOperationalCost(id, validatedData);
-      if (!cost) {
-        return res.status(404).json({ message: "Operational cost not found" });
+      const validatedData = insertDiningTableSchema.partial().parse(req.body);
+      if (validatedData.areaId !== undefined) {
+        const areas = await storage.getFloorAreas();
+        if (!areas.some(area => area.id === validatedData.areaId)) {
+          return res.status(400).json({ message: `Unknown floor area: ${validatedData.areaId}` });
+        }
       }
-      res.json(cost);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid cost data", errors: error.errors });
+      const table = await storage.updateDiningTable(id, validatedData);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
       }
-      res.status(500).json({ message: "Failed to update operational cost" });
+      res.json(table);
+    } catch (error) {
+      sendTableError(res, error, "Failed to update table");
     }
   });
 
-  app.delete("/api/costs/:id", async (req, res) => {
+  app.delete("/api/tables/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteOperationalCost(id);
+      const deleted = await storage.deleteDiningTable(id);
       if (!deleted) {
-        return res.status(404).json({ message: "Operational cost not found" });
+        return res.status(404).json({ message: "Table not found" });
       }
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete operational cost" });
+      sendTableError(res, error, "Failed to delete table");
     }
   });
 
-  // Cost history routes
-  app.get("/api/cost-history", async (req, res) => {
+  app.post("/api/tables/:id/seat", async (req, res) => {
     try {
-      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
-      const history = await storage.getCostHistory(productId);
-      res.json(history);
+      const id = parseInt(req.params.id);
+      const validatedData = seatTableSchema.parse(req.body);
+      const table = await storage.seatTable(id, validatedData);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+      res.json(table);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch cost history" });
+      sendTableError(res, error, "Failed to seat table");
     }
   });
 
-  // Analytics routes
-  app.get("/api/analytics", async (req, res) => {
+  app.post("/api/tables/:id/status", async (req, res) => {
     try {
-      const days = req.query.days ? parseInt(req.query.days as string) : 30;
-      const analytics = await storage.getSalesAnalytics(days);
-      res.json(analytics);
+      const id = parseInt(req.params.id);
+      const { status } = tableStatusSchema.parse(req.body);
+      const table = await storage.setTableStatus(id, status);
+      if (!table) {
+        return res.status(404).json({ message: "Table not found" });
+      }
+      res.json(table);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch analytics data" });
+      sendTableError(res, error, "Failed to update table status");
+    }
+  });
+
+  // Kitchen routes
+  app.get("/api/kitchen-stations", async (req, res) => {
+    try {
+      const stations = await storage.getKitchenStations();
+      res.json(stations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch kitchen stations" });
+    }
+  });
+
+  app.post("/api/kitchen-stations", async (req, res) => {
+    try {
+      const validatedData = insertKitchenStationSchema.parse(req.body);
+      const stations = await storage.getKitchenStations();
+      if (stations.some(station => station.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(400).json({ message: `There is already a station called ${validatedData.name}` });
+      }
+      const station = await storage.createKitchenStation(validatedData);
+      res.status(201).json(station);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid station data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create kitchen station" });
+    }
+  });
+
+  app.get("/api/kitchen-stations/categories", async (req, res) => {
+    try {
+      const assignments = await storage.getCategoryStations();
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch category stations" });
+    }
+  });
+
+  app.put("/api/kitchen-stations/categories", async (req, res) => {
+    try {
+      const { category, stationId } = categoryStationSchema.parse(req.body);
+      if (stationId !== null && !(await storage.getKitchenStations()).some(station => station.id === stationId)) {
+        return res.status(400).json({ message: `Unknown kitchen station: ${stationId}` });
+      }
+      const assignment = await storage.setCategoryStation(category, stationId);
+      res.json(assignment ?? { category, stationId: null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid category station", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign category station" });
+    }
+  });
+
+  app.put("/api/kitchen-stations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertKitchenStationSchema.partial().parse(req.body);
+      const stations = await storage.getKitchenStations();
+      const name = validatedData.name?.toLowerCase();
+      if (stations.some(station => station.id !== id && station.name.toLowerCase() === name)) {
+        return res.status(400).json({ message: `There is already a station called ${validatedData.name}` });
+      }
+      const station = await storage.updateKitchenStation(id, validatedData);
+      if (!station) {
+        return res.status(404).json({ message: "Kitchen station not found" });
+      }
+      res.json(station);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid station data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update kitchen station" });
+    }
+  });
+
+  app.delete("/api/kitchen-stations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteKitchenStation(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Kitchen station not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete kitchen station" });
+    }
+  });
+
+  // Tickets on the screens, for every station or ?stationId=
+  app.get("/api/kitchen-tickets", async (req, res) => {
+    try {
+      const stationId = req.query.stationId ? parseInt(req.query.stationId as string) : undefined;
+      const tickets = await storage.getKitchenTickets(stationId);
+      res.json(tickets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch kitchen tickets" });
+    }
+  });
+
+  app.post("/api/kitchen-tickets/:id/bump", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const ticket = await storage.bumpKitchenTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof KitchenError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to bump ticket" });
+    }
+  });
+
+  app.post("/api/kitchen-tickets/:id/recall", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const ticket = await storage.recallKitchenTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof KitchenError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to recall ticket" });
+    }
+  });
+
+  // Modifier routes
+  app.get("/api/modifier-groups", async (req, res) => {
+    try {
+      const groups = await storage.getModifierGroups();
+      res.json(groups);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch modifier groups" });
+    }
+  });
+
+  app.post("/api/modifier-groups", async (req, res) => {
+    try {
+      const validatedData = insertModifierGroupSchema.parse(req.body);
+      const problem = await validateModifierGroup(validatedData);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const group = await storage.createModifierGroup(validatedData);
+      res.status(201).json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier group data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create modifier group" });
+    }
+  });
+
+  // Replaces the group and its options; options sent with their id are kept
+  app.put("/api/modifier-groups/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertModifierGroupSchema.parse(req.body);
+      const problem = await validateModifierGroup(validatedData);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const group = await storage.updateModifierGroup(id, validatedData);
+      if (!group) {
+        return res.status(404).json({ message: "Modifier group not found" });
+      }
+      res.json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier group data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update modifier group" });
+    }
+  });
+
+  app.delete("/api/modifier-groups/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteModifierGroup(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Modifier group not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete modifier group" });
+    }
+  });
+
+  // Promotion routes
+  app.get("/api/promotions", async (req, res) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/promotions", async (req, res) => {
+    try {
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const validationError = validatePromotion(validatedData);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      const clash = await findCouponClash(validatedData.couponCode);
+      if (clash) {
+        return res.status(409).json({ message: `Coupon code ${validatedData.couponCode} is already used by ${clash.name}` });
+      }
+      const promotion = await storage.createPromotion(validatedData);
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/promotions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertPromotionSchema.partial().parse(req.body);
+      const existing = await storage.getPromotion(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      const validationError = validatePromotion({
+        type: existing.type as InsertPromotion["type"],
+        value: parseFloat(existing.value),
+        buyQuantity: existing.buyQuantity,
+        getQuantity: existing.getQuantity,
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+        startsAt: existing.startsAt,
+        endsAt: existing.endsAt,
+        ...validatedData
+      });
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      const clash = await findCouponClash(validatedData.couponCode, id);
+      if (clash) {
+        return res.status(409).json({ message: `Coupon code ${validatedData.couponCode} is already used by ${clash.name}` });
+      }
+      const promotion = await storage.updatePromotion(id, validatedData);
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update promotion" });
+    }
+  });
+
+  app.delete("/api/promotions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deletePromotion(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
+  // Tax rate routes
+  app.get("/api/tax-rates", async (req, res) => {
+    try {
+      const rates = await storage.getTaxRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tax rates" });
+    }
+  });
+
+  app.post("/api/tax-rates", async (req, res) => {
+    try {
+      const validatedData = insertTaxRateSchema.parse(req.body);
+      const rate = await storage.createTaxRate(validatedData);
+      res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create tax rate" });
+    }
+  });
+
+  app.get("/api/tax-rates/categories", async (req, res) => {
+    try {
+      const assignments = await storage.getCategoryTaxRates();
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch category tax rates" });
+    }
+  });
+
+  app.put("/api/tax-rates/categories", async (req, res) => {
+    try {
+      const { category, taxRateId } = categoryTaxRateSchema.parse(req.body);
+      if (taxRateId !== null && !(await storage.getTaxRate(taxRateId))) {
+        return res.status(400).json({ message: `Unknown tax rate: ${taxRateId}` });
+      }
+      const assignment = await storage.setCategoryTaxRate(category, taxRateId);
+      res.json(assignment ?? { category, taxRateId: null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid category tax rate", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to assign category tax rate" });
+    }
+  });
+
+  app.put("/api/tax-rates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertTaxRateSchema.partial().parse(req.body);
+      const rate = await storage.updateTaxRate(id, validatedData);
+      if (!rate) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      res.json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update tax rate" });
+    }
+  });
+
+  app.delete("/api/tax-rates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteTaxRate(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete tax rate" });
+    }
+  });
+
+  // Operational costs routes
+  app.get("/api/costs", async (req, res) => {
+    try {
+      const costs = await storage.getOperationalCosts();
+      res.json(costs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch operational costs" });
+    }
+  });
+
+  app.get("/api/costs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const cost = await storage.getOperationalCost(id);
+      if (!cost) {
+        return res.status(404).json({ message: "Operational cost not found" });
+      }
+      res.json(cost);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch operational cost" });
+    }
+  });
+
+  app.post("/api/costs", async (req, res) => {
+    try {
+      const validatedData = insertOperationalCostSchema.parse(req.body);
+      const cost = await storage.createOperationalCost(validatedData);
+      res.status(201).json(cost);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cost data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create operational cost" });
+    }
+  });
+
+  app.put("/api/costs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertOperationalCostSchema.partial().parse(req.body);
+      const cost = await storage.updateOperationalCost(id, validatedData);
+      if (!cost) {
+        return res.status(404).json({ message: "Operational cost not found" });
+      }
+      res.json(cost);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cost data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update operational cost" });
+    }
+  });
+
+  app.delete("/api/costs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteOperationalCost(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Operational cost not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete operational cost" });
+    }
+  });
+
+  // Ingredients routes
+  app.get("/api/ingredients", async (req, res) => {
+    try {
+      const ingredients = await storage.getIngredients();
+      res.json(ingredients);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ingredients" });
+    }
+  });
+
+  app.get("/api/ingredients/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const ingredient = await storage.getIngredient(id);
+      if (!ingredient) {
+        return res.status(404).json({ message: "Ingredient not found" });
+      }
+      res.json(ingredient);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ingredient" });
+    }
+  });
+
+  app.post("/api/ingredients", async (req, res) => {
+    try {
+      const validatedData = insertIngredientSchema.parse(req.body);
+      const ingredient = await storage.createIngredient(validatedData);
+      res.status(201).json(ingredient);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ingredient data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create ingredient" });
+    }
+  });
+
+  app.put("/api/ingredients/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertIngredientSchema.partial().parse(req.body);
+      const ingredient = await storage.updateIngredient(id, validatedData);
+      if (!ingredient) {
+        return res.status(404).json({ message: "Ingredient not found" });
+      }
+      res.json(ingredient);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ingredient data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update ingredient" });
+    }
+  });
+
+  app.delete("/api/ingredients/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recipes = await storage.getRecipesWithDetails();
+      const usedBy = recipes.filter(recipe => recipe.ingredientDetails.some(detail => detail.ingredient.id === id));
+      if (usedBy.length > 0) {
+        return res.status(409).json({
+          message: "Ingredient is used by recipes",
+          recipes: usedBy.map(recipe => ({ id: recipe.id, name: recipe.name }))
+        });
+      }
+      const deleted = await storage.deleteIngredient(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Ingredient not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete ingredient" });
+    }
+  });
+
+  // Recipes routes
+  app.get("/api/recipes", async (req, res) => {
+    try {
+      const recipes = await storage.getRecipesWithDetails();
+      res.json(recipes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recipes" });
+    }
+  });
+
+  app.get("/api/recipes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recipe = await storage.getRecipeWithDetails(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recipe" });
+    }
+  });
+
+  app.post("/api/recipes", async (req, res) => {
+    try {
+      const validatedData = insertRecipeSchema.parse(req.body);
+      const yieldError = validatePrepItemYield(validatedData);
+      if (yieldError) {
+        return res.status(400).json({ message: yieldError });
+      }
+      const { lines, error } = await normalizeRecipeLines(validatedData.ingredients);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const recipe = await storage.createRecipe({ ...validatedData, ingredients: lines });
+      res.status(201).json(recipe);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recipe data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create recipe" });
+    }
+  });
+
+  app.put("/api/recipes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertRecipeSchema.partial().parse(req.body);
+      const yieldError = validatePrepItemYield(validatedData);
+      if (yieldError) {
+        return res.status(400).json({ message: yieldError });
+      }
+      if (validatedData.ingredients) {
+        const { lines, error } = await normalizeRecipeLines(validatedData.ingredients, id);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+        validatedData.ingredients = lines;
+      }
+      const recipe = await storage.updateRecipe(id, validatedData);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      res.json(recipe);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recipe data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update recipe" });
+    }
+  });
+
+  app.delete("/api/recipes/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recipes = await storage.getRecipesWithDetails();
+      const usedBy = recipes.filter(recipe => recipe.subRecipeDetails.some(detail => detail.recipe.id === id));
+      if (usedBy.length > 0) {
+        return res.status(409).json({
+          message: "Prep item is used by other recipes",
+          recipes: usedBy.map(recipe => ({ id: recipe.id, name: recipe.name }))
+        });
+      }
+      const deleted = await storage.deleteRecipe(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recipe" });
+    }
+  });
+
+  // Scales a recipe and its prep items to ?servings= or ?yieldQuantity=&yieldUnit=;
+  // ?format=html returns a printable prep sheet
+  app.get("/api/recipes/:id/scale", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const target = scaleRecipeSchema.parse(req.query);
+      const recipe = await storage.getRecipe(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      let factor: number;
+      if (target.servings !== undefined) {
+        factor = target.servings / recipe.servings;
+      } else {
+        const yieldQuantity = parseFloat(recipe.yieldQuantity ?? "0");
+        if (!recipe.yieldUnit || !(yieldQuantity > 0)) {
+          return res.status(400).json({ message: "Recipe has no yield to scale to" });
+        }
+        const targetUnit = target.yieldUnit ?? recipe.yieldUnit;
+        if (!canConvert(targetUnit, recipe.yieldUnit)) {
+          return res.status(400).json({ message: `Cannot measure ${recipe.name} in ${targetUnit}` });
+        }
+        factor = convertQuantity(target.yieldQuantity!, targetUnit, recipe.yieldUnit) / yieldQuantity;
+      }
+
+      const scaled = await storage.scaleRecipe(id, factor);
+      if (!scaled) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      if (req.query.format === "html") {
+        return res.type("html").send(renderPrepSheetHtml(scaled));
+      }
+      res.json(scaled);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid scale target", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to scale recipe" });
+    }
+  });
+
+  // Recipe version routes
+  app.get("/api/recipes/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recipe = await storage.getRecipe(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      const versions = await storage.getRecipeVersions(id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recipe versions" });
+    }
+  });
+
+  app.get("/api/recipes/:id/versions/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: "Both from and to versions are required" });
+      }
+      const diff = await storage.diffRecipeVersions(id, from, to);
+      if (!diff) {
+        return res.status(404).json({ message: "Recipe version not found" });
+      }
+      res.json(diff);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare recipe versions" });
+    }
+  });
+
+  app.post("/api/recipes/:id/versions/:version/restore", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      const version = await storage.getRecipeVersion(id, versionNumber);
+      if (!version) {
+        return res.status(404).json({ message: "Recipe version not found" });
+      }
+
+      // Restoring saves a new version; ingredients removed since then will fail validation
+      const { lines, error } = await normalizeRecipeLines(version.lines.map(line => ({
+        ingredientId: line.ingredientId ?? 0,
+        subRecipeId: line.subRecipeId ?? undefined,
+        quantity: line.quantity,
+        unit: line.unit,
+        yieldPercentage: line.yieldPercentage ?? undefined
+      })), id);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const recipe = await storage.updateRecipe(id, {
+        name: version.name,
+        category: version.category,
+        servings: version.servings,
+        isPrepItem: version.isPrepItem,
+        yieldQuantity: version.yieldQuantity === null ? null : parseFloat(version.yieldQuantity),
+        yieldUnit: version.yieldUnit,
+        ingredients: lines
+      }, `Restored from version ${version.version}`);
+      res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore recipe version" });
+    }
+  });
+
+  // Stock control routes
+  app.get("/api/stock-counts", async (req, res) => {
+    try {
+      const ingredientId = req.query.ingredientId ? parseInt(req.query.ingredientId as string) : undefined;
+      const counts = await storage.getStockCounts(ingredientId);
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock counts" });
+    }
+  });
+
+  app.post("/api/stock-counts", async (req, res) => {
+    try {
+      const validatedData = insertStockCountSchema.parse(req.body);
+      const ingredient = await storage.getIngredient(validatedData.ingredientId);
+      if (!ingredient) {
+        return res.status(400).json({ message: `Unknown ingredient: ${validatedData.ingredientId}` });
+      }
+      const count = await storage.createStockCount(validatedData);
+      res.status(201).json(count);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock count data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record stock count" });
+    }
+  });
+
+  app.get("/api/ingredient-purchases", async (req, res) => {
+    try {
+      const ingredientId = req.query.ingredientId ? parseInt(req.query.ingredientId as string) : undefined;
+      const purchases = await storage.getIngredientPurchases(ingredientId);
+      res.json(purchases);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchases" });
+    }
+  });
+
+  app.post("/api/ingredient-purchases", async (req, res) => {
+    try {
+      const validatedData = insertIngredientPurchaseSchema.parse(req.body);
+      const ingredient = await storage.getIngredient(validatedData.ingredientId);
+      if (!ingredient) {
+        return res.status(400).json({ message: `Unknown ingredient: ${validatedData.ingredientId}` });
+      }
+      const purchase = await storage.createIngredientPurchase(validatedData);
+      res.status(201).json(purchase);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record purchase" });
+    }
+  });
+
+  // Theoretical vs actual ingredient usage between ?from= and ?to= (defaults to the last 30 days)
+  app.get("/api/reports/food-cost-variance", async (req, res) => {
+    try {
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "from must be a date before to" });
+      }
+      const report = await storage.getFoodCostVariance(from, to);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build food cost variance report" });
+    }
+  });
+
+  // Tax collected by rate between ?from= and ?to= (defaults to the last 30 days)
+  app.get("/api/reports/tax", async (req, res) => {
+    try {
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "from must be a date before to" });
+      }
+      const report = await storage.getTaxReport(from, to);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build tax report" });
+    }
+  });
+
+  // Takings by tender type between ?from= and ?to= (defaults to the last 30 days)
+  app.get("/api/reports/takings", async (req, res) => {
+    try {
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "from must be a date before to" });
+      }
+      const report = await storage.getTakingsReport(from, to);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build takings report" });
+    }
+  });
+
+  // Average preparation times between ?from= and ?to= (defaults to the last 30 days)
+  app.get("/api/reports/kitchen", async (req, res) => {
+    try {
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ message: "from must be a date before to" });
+      }
+      const report = await storage.getKitchenReport(from, to);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build kitchen report" });
+    }
+  });
+
+  // Cost history routes
+  app.get("/api/cost-history", async (req, res) => {
+    try {
+      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+      const ingredientId = req.query.ingredientId ? parseInt(req.query.ingredientId as string) : undefined;
+      const history = await storage.getCostHistory(productId, ingredientId);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cost history" });
+    }
+  });
+
+  // Analytics routes
+  app.get("/api/analytics", async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      const analytics = await storage.getSalesAnalytics(days);
+      res.json(analytics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch analytics data" });
+    }
+  });
+
+  app.get("/api/analytics/menu-engineering", async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (isNaN(days) || days <= 0) {
+        return res.status(400).json({ message: "days must be a positive number" });
+      }
+      const report = await storage.getMenuEngineering(days);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build menu engineering matrix" });
+    }
+  });
+
+  app.get("/api/summary", async (req, res) => {
+    try {
+      const targetFoodCostPercentage = req.query.targetFoodCostPercentage
+        ? parseFloat(req.query.targetFoodCostPercentage as string)
+        : DEFAULT_TARGET_FOOD_COST_PERCENTAGE;
+      if (!(targetFoodCostPercentage > 0 && targetFoodCostPercentage <= 100)) {
+        return res.status(400).json({ message: "Target food cost percentage must be between 0 and 100" });
+      }
+      const summary = await storage.getSummary(targetFoodCostPercentage);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch summary data" });
     }
   });
 
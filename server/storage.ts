@@ -1,17 +1,39 @@
 import { 
-  products, sales, operationalCosts, costHistory,
+  products, sales, operationalCosts, costHistory, ingredients, recipes, recipeIngredients, recipeVersions,
+  stockCounts, ingredientPurchases, ingredientStockMovements, taxRates, categoryTaxRates, promotions, modifierGroups, modifierOptions, openOrders,
+  floorAreas, diningTables, kitchenStations, categoryStations, kitchenTickets,
   type Product, type InsertProduct, type Sale, type InsertSale, 
   type OperationalCost, type InsertOperationalCost, type CostHistory, type InsertCostHistory,
-  type SaleWithDetails, type ProductWithMargin, type SalesAnalytics, type InventoryAlert, type SaleItem
+  type Ingredient, type InsertIngredient, type StockCount, type InsertStockCount,
+  type IngredientPurchase, type InsertIngredientPurchase, type FoodCostVarianceReport, type Recipe, type InsertRecipe, type RecipeIngredient,
+  type RecipeWithDetails, type SummaryData, type RecipeVersion, type RecipeVersionLine, type RecipeVersionDiff,
+  type RecipeIngredientLine, type ScaledRecipe, type ScaledRecipeSection, type ProductWithAllergens, type AllergenMatrix,
+  type Promotion, type InsertPromotion, type ModifierGroupWithOptions, type InsertModifierGroup, type ModifierOption, type ModifierOptionLine, type TaxRate, type InsertTaxRate, type CategoryTaxRate, type TaxReport, type TaxReportLine, type TakingsReport, type TaxBreakdownLine, type OrderType,
+  type OpenOrder, type InsertOpenOrder, type UpdateOpenOrder, type OrderLine,
+  type FloorArea, type InsertFloorArea, type DiningTable, type InsertDiningTable, type DiningTableWithOrder, type SeatTable, type TableStatus,
+  type KitchenStation, type InsertKitchenStation, type CategoryStation, type KitchenTicket, type KitchenTicketItem, type KitchenReport,
+  type SaleWithDetails, type SaleRefund, type SaleVoid, type SaleType, type NegativeStockPolicy, type StockShortage, type ProductWithMargin, type SalesAnalytics, type MenuEngineeringReport, type InventoryAlert, type SaleItem
 } from "@shared/schema";
+import { convertQuantity, getConversionProfile, roundKitchenQuantity, UnitConversionError } from "@shared/units";
+import { ALLERGEN_KEYS, intersectDietaryFlags, unionAllergens, type Allergen } from "@shared/allergens";
+import { addNutrition, emptyNutrition, getNutritionBasisUnit, roundNutrition, scaleNutrition, type NutritionValues } from "@shared/nutrition";
+import { buildSaleOffset, isSameShift, RefundError } from "@shared/refunds";
+import { allocateToComponents, isBundle, resolveBundle, stockLines } from "@shared/bundles";
+import { openOrderLabel } from "@shared/orders";
+import { tableDisplayStatus } from "@shared/tables";
+import { ticketSeconds, unsentLines } from "@shared/kitchen";
+import { PricingError } from "@shared/pricing";
+import type { Tender, TenderType } from "@shared/tendering";
 import { db } from "./db";
-import { eq, desc, gte } from "drizzle-orm";
+import { eq, ne, desc, gte, lte, gt, lt, inArray, and, or, isNull, sql } from "drizzle-orm";
 
 export interface IStorage {
   // Products
   getProducts(): Promise<Product[]>;
   getProduct(id: number): Promise<Product | undefined>;
   getProductsWithMargin(): Promise<ProductWithMargin[]>;
+  getProductsWithAllergens(): Promise<ProductWithAllergens[]>;
+  getAllergenMatrix(): Promise<AllergenMatrix>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
@@ -22,9 +44,76 @@ export interface IStorage {
   getSale(id: number): Promise<Sale | undefined>;
   getSaleWithDetails(id: number): Promise<SaleWithDetails | undefined>;
   getSalesWithDetails(): Promise<SaleWithDetails[]>;
-  createSale(sale: InsertSale): Promise<Sale>;
-  updateSale(id: number, sale: Partial<InsertSale>): Promise<Sale | undefined>;
-  deleteSale(id: number): Promise<boolean>;
+  createSale(sale: InsertSale, negativeStockPolicy?: NegativeStockPolicy): Promise<Sale>;
+  reverseSaleStock(saleId: number, items?: Array<{ productId: number; quantity: number }>): Promise<void>;
+  getSaleOffsets(saleId: number): Promise<Sale[]>;
+  refundSale(saleId: number, refund: SaleRefund): Promise<Sale | undefined>;
+  voidSale(saleId: number, details: SaleVoid): Promise<Sale | undefined>;
+  
+  // Promotions
+  getPromotions(): Promise<Promotion[]>;
+  getPromotion(id: number): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  deletePromotion(id: number): Promise<boolean>;
+  
+  // Modifiers
+  getModifierGroups(): Promise<ModifierGroupWithOptions[]>;
+  getModifierGroup(id: number): Promise<ModifierGroupWithOptions | undefined>;
+  createModifierGroup(group: InsertModifierGroup): Promise<ModifierGroupWithOptions>;
+  updateModifierGroup(id: number, group: InsertModifierGroup): Promise<ModifierGroupWithOptions | undefined>;
+  deleteModifierGroup(id: number): Promise<boolean>;
+
+  // Open orders
+  getOpenOrders(): Promise<OpenOrder[]>;
+  getOpenOrder(id: number): Promise<OpenOrder | undefined>;
+  createOpenOrder(order: InsertOpenOrder): Promise<OpenOrder>;
+  updateOpenOrder(id: number, update: UpdateOpenOrder): Promise<OpenOrder | undefined>;
+  addOpenOrderItems(id: number, items: OrderLine[]): Promise<OpenOrder | undefined>;
+  transferOpenOrder(id: number, tableNumber: string): Promise<OpenOrder | undefined>;
+  mergeOpenOrder(id: number, intoOrderId: number): Promise<OpenOrder | undefined>;
+  deleteOpenOrder(id: number): Promise<boolean>;
+  claimOpenOrder(id: number, version?: number): Promise<OpenOrder | undefined>;
+  releaseOpenOrder(id: number): Promise<void>;
+  completeOpenOrder(id: number, saleId: number): Promise<OpenOrder | undefined>;
+
+  // Floor plan
+  getFloorAreas(): Promise<FloorArea[]>;
+  createFloorArea(area: InsertFloorArea): Promise<FloorArea>;
+  updateFloorArea(id: number, area: Partial<InsertFloorArea>): Promise<FloorArea | undefined>;
+  deleteFloorArea(id: number): Promise<boolean>;
+  getDiningTables(): Promise<DiningTableWithOrder[]>;
+  createDiningTable(table: InsertDiningTable): Promise<DiningTable>;
+  updateDiningTable(id: number, table: Partial<InsertDiningTable>): Promise<DiningTable | undefined>;
+  deleteDiningTable(id: number): Promise<boolean>;
+  seatTable(id: number, seating: SeatTable): Promise<DiningTableWithOrder | undefined>;
+  setTableStatus(id: number, status: TableStatus): Promise<DiningTableWithOrder | undefined>;
+
+  // Kitchen
+  getKitchenStations(): Promise<KitchenStation[]>;
+  createKitchenStation(station: InsertKitchenStation): Promise<KitchenStation>;
+  updateKitchenStation(id: number, station: Partial<InsertKitchenStation>): Promise<KitchenStation | undefined>;
+  deleteKitchenStation(id: number): Promise<boolean>;
+  getCategoryStations(): Promise<CategoryStation[]>;
+  setCategoryStation(category: string, stationId: number | null): Promise<CategoryStation | undefined>;
+  getKitchenTickets(stationId?: number): Promise<KitchenTicket[]>;
+  bumpKitchenTicket(id: number): Promise<KitchenTicket | undefined>;
+  recallKitchenTicket(id: number): Promise<KitchenTicket | undefined>;
+  sendOpenOrderToKitchen(id: number): Promise<OpenOrder | undefined>;
+  fireOpenOrderCourse(id: number, course: number): Promise<OpenOrder | undefined>;
+  sendSaleToKitchen(sale: Sale, lines: OrderLine[], order?: OpenOrder): Promise<KitchenTicket[]>;
+  getKitchenReport(from: Date, to: Date): Promise<KitchenReport>;
+  
+  // Tax Rates
+  getTaxRates(): Promise<TaxRate[]>;
+  getTaxRate(id: number): Promise<TaxRate | undefined>;
+  createTaxRate(rate: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: number, rate: Partial<InsertTaxRate>): Promise<TaxRate | undefined>;
+  deleteTaxRate(id: number): Promise<boolean>;
+  getCategoryTaxRates(): Promise<CategoryTaxRate[]>;
+  setCategoryTaxRate(category: string, taxRateId: number | null): Promise<CategoryTaxRate | undefined>;
+  getTaxReport(from: Date, to: Date): Promise<TaxReport>;
+  getTakingsReport(from: Date, to: Date): Promise<TakingsReport>;
   
   // Operational Costs
   getOperationalCosts(): Promise<OperationalCost[]>;
@@ -33,12 +122,118 @@ export interface IStorage {
   updateOperationalCost(id: number, cost: Partial<InsertOperationalCost>): Promise<OperationalCost | undefined>;
   deleteOperationalCost(id: number): Promise<boolean>;
   
+  // Ingredients
+  getIngredients(): Promise<Ingredient[]>;
+  getIngredient(id: number): Promise<Ingredient | undefined>;
+  createIngredient(ingredient: InsertIngredient): Promise<Ingredient>;
+  updateIngredient(id: number, ingredient: Partial<InsertIngredient>): Promise<Ingredient | undefined>;
+  deleteIngredient(id: number): Promise<boolean>;
+  
+  // Recipes
+  getRecipes(): Promise<Recipe[]>;
+  getRecipe(id: number): Promise<Recipe | undefined>;
+  getRecipesWithDetails(): Promise<RecipeWithDetails[]>;
+  getRecipeWithDetails(id: number): Promise<RecipeWithDetails | undefined>;
+  createRecipe(recipe: InsertRecipe): Promise<RecipeWithDetails>;
+  updateRecipe(id: number, recipe: Partial<InsertRecipe>, note?: string): Promise<RecipeWithDetails | undefined>;
+  deleteRecipe(id: number): Promise<boolean>;
+  scaleRecipe(id: number, factor: number): Promise<ScaledRecipe | undefined>;
+  
+  // Stock Control
+  getStockCounts(ingredientId?: number): Promise<StockCount[]>;
+  createStockCount(count: InsertStockCount): Promise<StockCount>;
+  getIngredientPurchases(ingredientId?: number): Promise<IngredientPurchase[]>;
+  createIngredientPurchase(purchase: InsertIngredientPurchase): Promise<IngredientPurchase>;
+  getFoodCostVariance(from: Date, to: Date): Promise<FoodCostVarianceReport>;
+  
+  // Recipe Versions
+  getRecipeVersions(recipeId: number): Promise<RecipeVersion[]>;
+  getRecipeVersion(recipeId: number, version: number): Promise<RecipeVersion | undefined>;
+  diffRecipeVersions(recipeId: number, fromVersion: number, toVersion: number): Promise<RecipeVersionDiff | undefined>;
+  
   // Cost History
-  getCostHistory(productId?: number): Promise<CostHistory[]>;
+  getCostHistory(productId?: number, ingredientId?: number): Promise<CostHistory[]>;
   createCostHistory(history: InsertCostHistory): Promise<CostHistory>;
   
   // Analytics
   getSalesAnalytics(days?: number): Promise<SalesAnalytics>;
+  getMenuEngineering(days?: number): Promise<MenuEngineeringReport>;
+  getSummary(targetFoodCostPercentage: number): Promise<SummaryData>;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+// Everything needed to cost recipes, loaded once and memoized across nested prep items
+interface RecipeCostContext {
+  recipeMap: Map<number, Recipe>;
+  linesByRecipe: Map<number, RecipeIngredient[]>;
+  ingredientMap: Map<number, Ingredient>;
+  rawTotals: Map<number, number>;
+  rawAsPurchasedTotals: Map<number, number>;
+  rawNutritionTotals: Map<number, NutritionValues>;
+  results: Map<number, RecipeWithDetails>;
+  inProgress: Set<number>;
+}
+
+// Raised inside the sale transaction so nothing from a rejected sale is kept
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super("Insufficient stock");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Raised inside the sale transaction when a product was deleted after the sale was priced
+export class ProductUnavailableError extends Error {
+  constructor(public productName: string) {
+    super(`${productName} is no longer available`);
+    this.name = "ProductUnavailableError";
+  }
+}
+
+// Raised inside the sale transaction when a promotion ran out of uses after the sale was priced
+export class PromotionUnavailableError extends Error {
+  constructor(public promotionName: string) {
+    super(`${promotionName} is no longer available`);
+    this.name = "PromotionUnavailableError";
+  }
+}
+
+// An open order that cannot be changed as asked, such as one with nothing to pay for
+export class OpenOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenOrderError";
+  }
+}
+
+// An open order was changed, paid or merged by another terminal, or its table is taken
+export class OpenOrderConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpenOrderConflictError";
+  }
+}
+
+// A floor plan change that would leave a table's order stranded, or a status a table cannot have
+export class TableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TableError";
+  }
+}
+
+// A ticket bumped or recalled when it is not on the screen, or at the wrong point to be
+export class KitchenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KitchenError";
+  }
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -104,11 +299,75 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getProductsWithAllergens(): Promise<ProductWithAllergens[]> {
+    const productsArray = await db.select().from(products);
+    const recipeMap = new Map((await this.getRecipesWithDetails()).map(recipe => [recipe.id, recipe]));
+    const ingredientMap = new Map((await db.select().from(ingredients)).map(ingredient => [ingredient.id, ingredient]));
+    const groupMap = new Map((await this.getModifierGroups()).map(group => [group.id, group]));
+
+    // Ingredients an option adds can bring allergens the recipe does not have; ones it
+    // takes away (negative quantities) cannot
+    const optionAllergens = (product: Product): Allergen[][] => product.modifierGroupIds
+      .flatMap(groupId => groupMap.get(groupId)?.options ?? [])
+      .flatMap(option => option.ingredientDeltas)
+      .filter(delta => delta.quantity > 0)
+      .map(delta => ingredientMap.get(delta.ingredientId)?.allergens ?? []);
+
+    const withAllergens: ProductWithAllergens[] = productsArray.map(product => {
+      const recipe = product.recipeId ? recipeMap.get(product.recipeId) : undefined;
+      return {
+        ...product,
+        allergens: unionAllergens([recipe?.allergens ?? [], ...optionAllergens(product)]),
+        allergensKnown: recipe !== undefined,
+        dietaryFlags: recipe?.dietaryFlags ?? []
+      };
+    });
+
+    // A bundle may contain any of its choices, so it carries all of their allergens
+    const productMap = new Map(withAllergens.map(product => [product.id, product]));
+    return withAllergens.map(product => {
+      if (!isBundle(product)) return product;
+      const choices = product.bundleSlots
+        .flatMap(slot => slot.choices.map(choice => productMap.get(choice.productId)))
+        .filter((choice): choice is ProductWithAllergens => choice !== undefined);
+      return {
+        ...product,
+        allergens: unionAllergens([product.allergens, ...choices.map(choice => choice.allergens)]),
+        allergensKnown: choices.length > 0 && choices.every(choice => choice.allergensKnown),
+        dietaryFlags: intersectDietaryFlags(choices.map(choice => choice.dietaryFlags))
+      };
+    });
+  }
+
+  async getAllergenMatrix(): Promise<AllergenMatrix> {
+    const productsArray = await this.getProductsWithAllergens();
+
+    const items = productsArray
+      .filter(product => product.isActive)
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name))
+      .map(product => ({
+        productId: product.id,
+        name: product.name,
+        category: product.category,
+        hasRecipe: product.recipeId !== null,
+        contains: Object.fromEntries(
+          ALLERGEN_KEYS.map(key => [key, product.allergens.includes(key)])
+        ) as Record<Allergen, boolean>,
+        dietaryFlags: product.dietaryFlags
+      }));
+
+    return { allergens: ALLERGEN_KEYS, items };
+  }
+
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const derivedCost = insertProduct.recipeId
+      ? await this.getRecipeDerivedCost(insertProduct.recipeId, insertProduct.recipePortions)
+      : undefined;
     const productData = {
       ...insertProduct,
       price: insertProduct.price.toString(),
-      cost: insertProduct.cost.toString()
+      cost: (derivedCost ?? insertProduct.cost).toString(),
+      recipePortions: insertProduct.recipePortions.toString()
     };
     const result = await db.insert(products).values(productData).returning();
     return result[0];
@@ -119,19 +378,31 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getProduct(id);
     if (!existing) return undefined;
 
+    // Recipe-linked products always take their cost from the recipe
+    const recipeId = update.recipeId !== undefined ? update.recipeId : existing.recipeId;
+    let reason = "Manual update";
+    if (recipeId) {
+      const portions = update.recipePortions ?? parseFloat(existing.recipePortions ?? "1");
+      const derivedCost = await this.getRecipeDerivedCost(recipeId, portions);
+      if (derivedCost !== undefined) {
+        update = { ...update, cost: derivedCost };
+        reason = "Recipe cost";
+      }
+    }
+
     // Track cost changes
-    if (update.cost && update.cost.toString() !== existing.cost) {
+    if (update.cost && update.cost !== parseFloat(existing.cost)) {
       await this.createCostHistory({
         productId: id,
         oldCost: parseFloat(existing.cost),
         newCost: update.cost,
-        reason: "Manual update"
+        reason
       });
     }
 
     const updateData: any = {};
     Object.keys(update).forEach(key => {
-      if (key === 'price' || key === 'cost') {
+      if (key === 'price' || key === 'cost' || key === 'recipePortions') {
         updateData[key] = (update as any)[key]?.toString();
       } else {
         updateData[key] = (update as any)[key];
@@ -149,8 +420,9 @@ export class DatabaseStorage implements IStorage {
 
   async getInventoryAlerts(): Promise<InventoryAlert[]> {
     const productsArray = await db.select().from(products);
+    // Bundles keep no stock of their own; their components are alerted on instead
     return productsArray
-      .filter(product => product.minStock !== null && product.stock <= product.minStock)
+      .filter(product => !isBundle(product) && product.minStock !== null && product.stock <= product.minStock)
       .map(product => ({
         productId: product.id,
         productName: product.name,
@@ -177,14 +449,37 @@ export class DatabaseStorage implements IStorage {
     const saleItems = sale.items as SaleItem[];
     const itemDetails = [];
 
+    // Sales from before line discounts were recorded share their discount out by value
+    const grossTotal = saleItems.reduce((sum, item) => sum + item.total, 0);
+    const unallocatedDiscount = saleItems.some(item => item.discount !== undefined) ? 0 : parseFloat(sale.discountAmount);
+
     for (const item of saleItems) {
       const product = await this.getProduct(item.productId);
       if (product) {
+        const discount = item.discount ?? (grossTotal > 0 ? roundCurrency(unallocatedDiscount * (item.total / grossTotal)) : 0);
+        const revenues = allocateToComponents(item, roundCurrency(item.total - discount));
+        const components = [];
+        for (const [index, component] of Array.from((item.components ?? []).entries())) {
+          const componentProduct = await this.getProduct(component.productId);
+          if (componentProduct) {
+            components.push({ product: componentProduct, quantity: item.quantity * component.quantity, revenue: revenues[index] });
+          }
+        }
+        // A bundle costs what its components cost
+        const baseCost = item.components
+          ? components.reduce((sum, component) => sum + parseFloat(component.product.cost) * (component.quantity / item.quantity), 0)
+          : parseFloat(product.cost);
+
         itemDetails.push({
           product,
           quantity: item.quantity,
           price: item.price,
-          total: item.total
+          total: item.total,
+          discount,
+          unitCost: baseCost + (item.modifiers ?? []).reduce((sum, modifier) => sum + modifier.costDelta, 0),
+          modifiers: item.modifiers ?? [],
+          components,
+          note: item.note
         });
       }
     }
@@ -209,199 +504,2236 @@ export class DatabaseStorage implements IStorage {
     return salesWithDetails;
   }
 
-  async createSale(insertSale: InsertSale): Promise<Sale> {
-    const saleData = {
-      ...insertSale,
-      totalAmount: insertSale.totalAmount.toString(),
-      taxAmount: insertSale.taxAmount?.toString() || "0"
-    };
-    const result = await db.insert(sales).values(saleData).returning();
-    const sale = result[0];
+  async createSale(insertSale: InsertSale, negativeStockPolicy: NegativeStockPolicy = "reject"): Promise<Sale> {
+    const context = await this.loadRecipeCostContext();
+    const lines = stockLines(insertSale.items);
+    const productIds = Array.from(new Set(lines.map(line => line.productId)));
+    const productsArray = productIds.length > 0
+      ? await db.select().from(products).where(inArray(products.id, productIds))
+      : [];
+    const productMap = new Map(productsArray.map(product => [product.id, product]));
 
-    // Update stock for sold items
-    for (const item of insertSale.items) {
-      const product = await this.getProduct(item.productId);
-      if (product) {
-        await db.update(products)
-          .set({ stock: product.stock - item.quantity })
-          .where(eq(products.id, item.productId));
+    // A product rung up on several lines or in bundles is checked against stock once
+    const quantities = new Map<number, number>();
+    lines.forEach(line => {
+      quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+    });
+    const bundleIds = new Set(lines.filter(line => line.bundle).map(line => line.productId));
+
+    // Modifier options can use ingredients of their own, on top of the product's
+    const optionIds = Array.from(new Set(insertSale.items.flatMap(item => (item.modifiers ?? []).map(modifier => modifier.optionId))));
+    const optionsArray = optionIds.length > 0
+      ? await db.select().from(modifierOptions).where(inArray(modifierOptions.id, optionIds))
+      : [];
+    const optionMap = new Map(optionsArray.map(option => [option.id, option]));
+    const modifierUsage = new Map<number, Map<number, number>>();
+    insertSale.items.forEach(item => {
+      if (!item.modifiers?.length) return;
+      const usage = modifierUsage.get(item.productId) ?? new Map<number, number>();
+      this.addModifierUsage(item, productMap.get(item.productId), optionMap, context, usage);
+      modifierUsage.set(item.productId, usage);
+    });
+
+    return await db.transaction(async (tx) => {
+      const [sale] = await tx.insert(sales).values({
+        ...insertSale,
+        subtotal: insertSale.subtotal?.toString() ?? null,
+        discountAmount: insertSale.discountAmount?.toString() ?? "0",
+        totalAmount: insertSale.totalAmount.toString(),
+        taxAmount: insertSale.taxAmount?.toString() || "0",
+        cashTendered: insertSale.cashTendered?.toString() ?? null,
+        changeDue: insertSale.changeDue?.toString() ?? "0"
+      }).returning();
+
+      // Claim a use of each promotion; one that hit its limit since pricing fails the sale
+      for (const applied of insertSale.promotions ?? []) {
+        if (applied.promotionId === null) continue;
+        const [claimed] = await tx.update(promotions)
+          .set({ usageCount: sql`${promotions.usageCount} + 1` })
+          .where(and(
+            eq(promotions.id, applied.promotionId),
+            or(isNull(promotions.usageLimit), lt(promotions.usageCount, promotions.usageLimit))
+          ))
+          .returning({ id: promotions.id });
+        if (!claimed) throw new PromotionUnavailableError(applied.name);
+      }
+
+      const shortages: StockShortage[] = [];
+      for (const [productId, quantity] of Array.from(quantities.entries())) {
+        const product = productMap.get(productId);
+        if (!product) throw new ProductUnavailableError(`Product ${productId}`);
+        const recipe = product.recipeId ? context.recipeMap.get(product.recipeId) : undefined;
+        const usage = new Map(modifierUsage.get(productId) ?? []);
+
+        // Made-to-order dishes use up their ingredients; everything else is counted as a
+        // unit. Bundles take stock only through their components and modifiers.
+        if (!recipe && !bundleIds.has(productId)) {
+          const [updated] = await tx.update(products)
+            .set({ stock: sql`${products.stock} - ${quantity}` })
+            .where(negativeStockPolicy === "reject"
+              ? and(eq(products.id, productId), gte(products.stock, quantity))
+              : eq(products.id, productId))
+            .returning({ stock: products.stock });
+          if (!updated) {
+            const [current] = await tx.select({ stock: products.stock }).from(products).where(eq(products.id, productId));
+            if (!current) throw new ProductUnavailableError(product.name);
+            shortages.push({ productId, productName: product.name, requested: quantity, available: current.stock, ingredients: [] });
+          } else if (updated.stock < 0) {
+            shortages.push({ productId, productName: product.name, requested: quantity, available: updated.stock + quantity, ingredients: [] });
+          }
+        } else if (recipe && recipe.servings > 0) {
+          this.addRecipeUsage(recipe.id, (parseFloat(product.recipePortions ?? "1") * quantity) / recipe.servings, context, usage);
+        }
+
+        const missing: StockShortage["ingredients"] = [];
+        for (const [ingredientId, used] of Array.from(usage.entries())) {
+          if (used <= 0 || !context.ingredientMap.has(ingredientId)) continue;
+          const result = await this.adjustIngredientStock(
+            tx, ingredientId, -used, "sale", { saleId: sale.id, productId }, negativeStockPolicy === "reject"
+          );
+          if (used > 0 && (!result.applied || result.stock < 0)) {
+            const ingredient = context.ingredientMap.get(ingredientId)!;
+            missing.push({
+              ingredientId,
+              name: ingredient.name,
+              unit: ingredient.unit,
+              required: Math.round(used * 1000) / 1000,
+              available: result.applied ? Math.round((result.stock + used) * 1000) / 1000 : result.stock
+            });
+          }
+        }
+        if (missing.length > 0) {
+          const shortage = shortages.find(entry => entry.productId === productId);
+          if (shortage) shortage.ingredients.push(...missing);
+          else shortages.push({ productId, productName: product.name, requested: quantity, available: null, ingredients: missing });
+        }
       }
-    }
 
-    return sale;
+      if (shortages.length === 0) return sale;
+      // Throwing rolls the whole sale back, including stock already taken for other lines
+      if (negativeStockPolicy === "reject") throw new InsufficientStockError(shortages);
+      const [flagged] = await tx.update(sales).set({ stockIssues: shortages }).where(eq(sales.id, sale.id)).returning();
+      return flagged;
+    });
   }
 
-  async updateSale(id: number, update: Partial<InsertSale>): Promise<Sale | undefined> {
-    const updateData: any = {};
-    Object.keys(update).forEach(key => {
-      if (key === 'totalAmount' || key === 'taxAmount') {
-        updateData[key] = (update as any)[key]?.toString();
+  // Puts back what a sale took from stock, either for the whole sale or for the given
+  // quantities of its products
+  async reverseSaleStock(saleId: number, items?: Array<{ productId: number; quantity: number }>): Promise<void> {
+    const sale = await this.getSale(saleId);
+    if (!sale) return;
+    await this.restoreSaleStock(db, sale, items);
+  }
+
+  // Refunds and voids of a sale, oldest first
+  async getSaleOffsets(saleId: number): Promise<Sale[]> {
+    return await db.select().from(sales).where(eq(sales.originalSaleId, saleId)).orderBy(sales.createdAt);
+  }
+
+  async refundSale(saleId: number, refund: SaleRefund): Promise<Sale | undefined> {
+    return await this.createSaleOffset(saleId, "refund", refund, refund.lines);
+  }
+
+  async voidSale(saleId: number, details: SaleVoid): Promise<Sale | undefined> {
+    return await this.createSaleOffset(saleId, "void", details);
+  }
+
+  // Records a refund or void as an offset sale. The original sale is locked so two
+  // refunds at once cannot give back the same items.
+  private async createSaleOffset(
+    saleId: number,
+    type: Exclude<SaleType, "sale">,
+    details: { reason: string; approvedBy?: string | null; cashierId: string; restoreStock: boolean; tenderType?: TenderType },
+    lines?: Array<{ line: number; quantity: number }>
+  ): Promise<Sale | undefined> {
+    return await db.transaction(async (tx) => {
+      const [sale] = await tx.select().from(sales).where(eq(sales.id, saleId)).for("update");
+      if (!sale) return undefined;
+      const offsets = await tx.select().from(sales).where(eq(sales.originalSaleId, saleId));
+
+      if (type === "void") {
+        if (offsets.some(offset => offset.type === "void")) throw new RefundError(`Sale ${saleId} has already been voided`);
+        if (offsets.length > 0) throw new RefundError(`Sale ${saleId} has been refunded and can no longer be voided`);
+        if (!sale.createdAt || !isSameShift(sale.createdAt, new Date())) {
+          throw new RefundError("Only sales from the current shift can be voided; refund it instead");
+        }
+      }
+
+      const saleItems = sale.items as SaleItem[];
+      const offset = buildSaleOffset(sale, offsets, lines ?? saleItems.map((item, line) => ({ line, quantity: item.quantity })));
+
+      // A void reverses each tender; a refund goes back by one tender type
+      const paidWith: Tender[] = sale.tenders.length > 0
+        ? sale.tenders
+        : [{ type: sale.paymentMethod as TenderType, amount: parseFloat(sale.totalAmount) }];
+      let tenders: Tender[];
+      if (type === "void") {
+        tenders = paidWith.map(tender => ({ ...tender, amount: -tender.amount }));
       } else {
-        updateData[key] = (update as any)[key];
+        const types = Array.from(new Set(paidWith.map(tender => tender.type)));
+        const tenderType = details.tenderType ?? (types.length === 1 ? types[0] : undefined);
+        if (!tenderType) throw new RefundError("Choose how to refund a sale paid with several tenders");
+        tenders = [{ type: tenderType, amount: offset.totalAmount }];
+      }
+
+      const [created] = await tx.insert(sales).values({
+        type,
+        originalSaleId: sale.id,
+        reason: details.reason,
+        approvedBy: details.approvedBy ?? null,
+        stockRestored: details.restoreStock,
+        items: offset.items,
+        subtotal: offset.subtotal.toString(),
+        discountAmount: offset.discountAmount.toString(),
+        taxAmount: offset.taxAmount.toString(),
+        totalAmount: offset.totalAmount.toString(),
+        orderType: sale.orderType,
+        promotions: offset.promotions,
+        taxBreakdown: offset.taxBreakdown,
+        paymentMethod: type === "void" ? sale.paymentMethod : tenders[0].type,
+        tenders,
+        changeDue: "0",
+        customerId: sale.customerId,
+        cashierId: details.cashierId
+      }).returning();
+
+      // A voided sale never happened, so its promotions get their uses back
+      if (type === "void") {
+        for (const applied of sale.promotions) {
+          if (applied.promotionId === null) continue;
+          await tx.update(promotions)
+            .set({ usageCount: sql`greatest(${promotions.usageCount} - 1, 0)` })
+            .where(eq(promotions.id, applied.promotionId));
+        }
+      }
+
+      if (details.restoreStock) {
+        const quantities = new Map<number, number>();
+        stockLines(offset.items).forEach(line => {
+          quantities.set(line.productId, (quantities.get(line.productId) || 0) - line.quantity);
+        });
+        await this.restoreSaleStock(tx, sale, Array.from(quantities.entries()).map(([productId, quantity]) => ({ productId, quantity })));
       }
+      return created;
     });
-    
-    const result = await db.update(sales).set(updateData).where(eq(sales.id, id)).returning();
-    return result[0];
   }
 
-  async deleteSale(id: number): Promise<boolean> {
-    const result = await db.delete(sales).where(eq(sales.id, id));
-    return (result.rowCount || 0) > 0;
+  // Stock is restored from the movements recorded at sale time, so later recipe changes
+  // do not affect what comes back
+  private async restoreSaleStock(
+    executor: Executor,
+    sale: Sale,
+    items?: Array<{ productId: number; quantity: number }>
+  ): Promise<void> {
+    const saleId = sale.id;
+    const soldLines = stockLines(sale.items as SaleItem[]);
+    const bundleIds = new Set(soldLines.filter(line => line.bundle).map(line => line.productId));
+    const toReverse = items ?? soldLines.map(line => ({ productId: line.productId, quantity: line.quantity }));
+
+    const movements = await executor.select().from(ingredientStockMovements)
+      .where(eq(ingredientStockMovements.saleId, saleId));
+
+    for (const item of toReverse) {
+      const soldQuantity = soldLines
+        .filter(line => line.productId === item.productId)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      if (soldQuantity <= 0) continue;
+
+      // What the sale took is read from its movements, not the product as it is now, in
+      // case a recipe was linked or unlinked since. A product that took no ingredients was
+      // counted as units.
+      const productMovements = movements.filter(movement => movement.productId === item.productId);
+      if (productMovements.length === 0) {
+        if (!bundleIds.has(item.productId)) {
+          await executor.update(products)
+            .set({ stock: sql`${products.stock} + ${item.quantity}` })
+            .where(eq(products.id, item.productId));
+        }
+        continue;
+      }
+
+      // Never give back more than is still outstanding after earlier refunds
+      const fraction = Math.min(item.quantity / soldQuantity, 1);
+      const byIngredient = new Map<number, { used: number; returned: number }>();
+      productMovements.forEach(movement => {
+        const entry = byIngredient.get(movement.ingredientId) ?? { used: 0, returned: 0 };
+        const quantity = parseFloat(movement.quantity);
+        if (movement.reason === "sale") entry.used -= quantity;
+        if (movement.reason === "refund") entry.returned += quantity;
+        byIngredient.set(movement.ingredientId, entry);
+      });
+
+      for (const [ingredientId, { used, returned }] of Array.from(byIngredient.entries())) {
+        const amount = Math.min(used * fraction, used - returned);
+        if (amount > 0) {
+          await this.adjustIngredientStock(executor, ingredientId, amount, "refund", { saleId, productId: item.productId });
+        }
+      }
+    }
   }
 
-  // Operational Costs methods
-  async getOperationalCosts(): Promise<OperationalCost[]> {
-    return await db.select().from(operationalCosts).orderBy(desc(operationalCosts.date));
+  // Promotions methods
+  async getPromotions(): Promise<Promotion[]> {
+    return await db.select().from(promotions).orderBy(desc(promotions.createdAt));
   }
 
-  async getOperationalCost(id: number): Promise<OperationalCost | undefined> {
-    const result = await db.select().from(operationalCosts).where(eq(operationalCosts.id, id));
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    const result = await db.select().from(promotions).where(eq(promotions.id, id));
     return result[0];
   }
 
-  async createOperationalCost(insertCost: InsertOperationalCost): Promise<OperationalCost> {
-    const costData = {
-      ...insertCost,
-      amount: insertCost.amount.toString()
-    };
-    const result = await db.insert(operationalCosts).values(costData).returning();
+  async createPromotion(insertPromotion: InsertPromotion): Promise<Promotion> {
+    const result = await db.insert(promotions).values({
+      ...insertPromotion,
+      value: insertPromotion.value.toString(),
+      minSubtotal: insertPromotion.minSubtotal?.toString() ?? null
+    }).returning();
     return result[0];
   }
 
-  async updateOperationalCost(id: number, update: Partial<InsertOperationalCost>): Promise<OperationalCost | undefined> {
+  async updatePromotion(id: number, update: Partial<InsertPromotion>): Promise<Promotion | undefined> {
     const updateData: any = {};
     Object.keys(update).forEach(key => {
-      if (key === 'amount') {
-        updateData[key] = (update as any)[key]?.toString();
+      if (key === 'value' || key === 'minSubtotal') {
+        updateData[key] = (update as any)[key]?.toString() ?? null;
       } else {
         updateData[key] = (update as any)[key];
       }
     });
-    
-    const result = await db.update(operationalCosts).set(updateData).where(eq(operationalCosts.id, id)).returning();
+
+    const result = await db.update(promotions).set(updateData).where(eq(promotions.id, id)).returning();
     return result[0];
   }
 
-  async deleteOperationalCost(id: number): Promise<boolean> {
-    const result = await db.delete(operationalCosts).where(eq(operationalCosts.id, id));
-    return (result.rowCount || 0) > 0;
+  async deletePromotion(id: number): Promise<boolean> {
+    const result = await db.delete(promotions).where(eq(promotions.id, id));
+    return (result.rowCount ?? 0) > 0;
   }
 
-  // Cost History methods
-  async getCostHistory(productId?: number): Promise<CostHistory[]> {
-    if (productId) {
-      return await db.select().from(costHistory)
-        .where(eq(costHistory.productId, productId))
-        .orderBy(desc(costHistory.updatedAt));
+  // Modifiers methods
+  async getModifierGroups(): Promise<ModifierGroupWithOptions[]> {
+    const groups = await db.select().from(modifierGroups).orderBy(modifierGroups.name);
+    const options = await db.select().from(modifierOptions).orderBy(modifierOptions.sortOrder, modifierOptions.id);
+    return groups.map(group => ({ ...group, options: options.filter(option => option.groupId === group.id) }));
+  }
+
+  async getModifierGroup(id: number): Promise<ModifierGroupWithOptions | undefined> {
+    const [group] = await db.select().from(modifierGroups).where(eq(modifierGroups.id, id));
+    if (!group) return undefined;
+    const options = await db.select().from(modifierOptions)
+      .where(eq(modifierOptions.groupId, id))
+      .orderBy(modifierOptions.sortOrder, modifierOptions.id);
+    return { ...group, options };
+  }
+
+  async createModifierGroup(insertGroup: InsertModifierGroup): Promise<ModifierGroupWithOptions> {
+    const { options, ...groupData } = insertGroup;
+    const group = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(modifierGroups).values(groupData).returning();
+      await this.saveModifierOptions(tx, created.id, options);
+      return created;
+    });
+    return (await this.getModifierGroup(group.id))!;
+  }
+
+  async updateModifierGroup(id: number, update: InsertModifierGroup): Promise<ModifierGroupWithOptions | undefined> {
+    const { options, ...groupData } = update;
+    const updated = await db.transaction(async (tx) => {
+      const [group] = await tx.update(modifierGroups).set(groupData).where(eq(modifierGroups.id, id)).returning();
+      if (!group) return undefined;
+      await this.saveModifierOptions(tx, id, options);
+      return group;
+    });
+    return updated ? this.getModifierGroup(id) : undefined;
+  }
+
+  // Products keep the id of a deleted group; it is skipped when they are rung up
+  async deleteModifierGroup(id: number): Promise<boolean> {
+    const result = await db.delete(modifierGroups).where(eq(modifierGroups.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Options keep their ids across edits so tills holding them in a cart still match;
+  // options left out of the list are removed. Sales keep options by name, so history
+  // is unaffected.
+  private async saveModifierOptions(executor: Executor, groupId: number, lines: ModifierOptionLine[]): Promise<void> {
+    const existing = await executor.select({ id: modifierOptions.id }).from(modifierOptions)
+      .where(eq(modifierOptions.groupId, groupId));
+    const existingIds = new Set(existing.map(option => option.id));
+    const keptIds = lines.map(line => line.id).filter((id): id is number => id !== undefined && existingIds.has(id));
+    const removedIds = Array.from(existingIds).filter(id => !keptIds.includes(id));
+    if (removedIds.length > 0) {
+      await executor.delete(modifierOptions).where(inArray(modifierOptions.id, removedIds));
+    }
+
+    for (const [sortOrder, { id, ...line }] of Array.from(lines.entries())) {
+      const values = {
+        ...line,
+        priceDelta: line.priceDelta.toString(),
+        costDelta: line.costDelta.toString(),
+        sortOrder
+      };
+      if (id !== undefined && existingIds.has(id)) {
+        await executor.update(modifierOptions).set(values).where(eq(modifierOptions.id, id));
+      } else {
+        await executor.insert(modifierOptions).values({ ...values, groupId });
+      }
     }
-    return await db.select().from(costHistory).orderBy(desc(costHistory.updatedAt));
   }
 
-  async createCostHistory(insertHistory: InsertCostHistory): Promise<CostHistory> {
-    const historyData = {
-      ...insertHistory,
-      oldCost: insertHistory.oldCost.toString(),
-      newCost: insertHistory.newCost.toString()
-    };
-    const result = await db.insert(costHistory).values(historyData).returning();
+  // Open orders methods
+  async getOpenOrders(): Promise<OpenOrder[]> {
+    return await db.select().from(openOrders)
+      .where(inArray(openOrders.status, ["open", "settling"]))
+      .orderBy(openOrders.createdAt);
+  }
+
+  async getOpenOrder(id: number): Promise<OpenOrder | undefined> {
+    const result = await db.select().from(openOrders).where(eq(openOrders.id, id));
     return result[0];
   }
 
-  // Analytics methods
-  async getSalesAnalytics(days: number = 30): Promise<SalesAnalytics> {
-    const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-    const salesArray = await db.select().from(sales)
-      .where(gte(sales.createdAt, cutoffDate))
-      .orderBy(desc(sales.createdAt));
+  async createOpenOrder(insertOrder: InsertOpenOrder): Promise<OpenOrder> {
+    return await db.transaction(async (tx) => {
+      if (insertOrder.tableNumber) await this.checkTableFree(tx, insertOrder.tableNumber);
+      const [created] = await tx.insert(openOrders).values(insertOrder).returning();
+      await this.moveTableSeating(tx, null, created.tableNumber);
+      return created;
+    });
+  }
 
-    const salesWithDetails = [];
-    for (const sale of salesArray) {
-      const saleWithDetails = await this.getSaleWithDetails(sale.id);
-      if (saleWithDetails) {
-        salesWithDetails.push(saleWithDetails);
+  async updateOpenOrder(id: number, update: UpdateOpenOrder): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      if (update.version !== order.version) {
+        throw new OpenOrderConflictError(`${openOrderLabel(order)} was changed on another terminal; reload it and try again`);
       }
-    }
 
-    const totalSales = salesWithDetails.reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
-    const totalProfit = salesWithDetails.reduce((sum, sale) => {
-      const saleProfit = sale.itemDetails.reduce((itemSum, item) => {
-        const itemCost = parseFloat(item.product.cost) * item.quantity;
-        const itemRevenue = item.total;
-        return itemSum + (itemRevenue - itemCost);
-      }, 0);
-      return sum + saleProfit;
-    }, 0);
+      const { version, ...changes } = update;
+      const name = changes.name !== undefined ? changes.name : order.name;
+      const tableNumber = changes.tableNumber !== undefined ? changes.tableNumber : order.tableNumber;
+      if (!name && !tableNumber) throw new OpenOrderError("Give the order a name or a table");
+      if (tableNumber && tableNumber !== order.tableNumber) await this.checkTableFree(tx, tableNumber, id);
 
-    const averageOrderValue = salesWithDetails.length > 0 ? totalSales / salesWithDetails.length : 0;
+      const [updated] = await tx.update(openOrders)
+        .set({ ...changes, version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      await this.moveTableSeating(tx, order.tableNumber, updated.tableNumber);
+      return updated;
+    });
+  }
 
-    // Top selling products
-    const productSales = new Map<number, { product: Product; totalSold: number; revenue: number }>();
-    salesWithDetails.forEach(sale => {
-      sale.itemDetails.forEach(item => {
-        const existing = productSales.get(item.product.id);
-        if (existing) {
-          existing.totalSold += item.quantity;
-          existing.revenue += item.total;
-        } else {
-          productSales.set(item.product.id, {
-            product: item.product,
-            totalSold: item.quantity,
-            revenue: item.total
-          });
-        }
-      });
+  // Adds to whatever is on the order now, so terminals adding at once do not clash
+  async addOpenOrderItems(id: number, items: OrderLine[]): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      const [updated] = await tx.update(openOrders)
+        .set({ items: [...order.items, ...items], version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      return updated;
     });
+  }
 
-    const topSellingProducts = Array.from(productSales.values())
-      .sort((a, b) => b.totalSold - a.totalSold)
-      .slice(0, 5);
+  async transferOpenOrder(id: number, tableNumber: string): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      await this.checkTableFree(tx, tableNumber, id);
+      const [updated] = await tx.update(openOrders)
+        .set({ tableNumber, version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      await this.moveTableSeating(tx, order.tableNumber, updated.tableNumber);
+      return updated;
+    });
+  }
 
-    // Sales by category
-    const salesByCategory: Record<string, number> = {};
-    salesWithDetails.forEach(sale => {
-      sale.itemDetails.forEach(item => {
-        const category = item.product.category;
-        salesByCategory[category] = (salesByCategory[category] || 0) + item.total;
-      });
+  // Moves an order's items onto another and closes it; returns the order merged into
+  async mergeOpenOrder(id: number, intoOrderId: number): Promise<OpenOrder | undefined> {
+    if (id === intoOrderId) throw new OpenOrderError("An order cannot be merged into itself");
+    return await db.transaction(async (tx) => {
+      // Both are locked in id order so two merges the opposite way round cannot deadlock
+      const locked = await tx.select().from(openOrders)
+        .where(inArray(openOrders.id, [id, intoOrderId]))
+        .orderBy(openOrders.id)
+        .for("update");
+      const source = locked.find(order => order.id === id);
+      const target = locked.find(order => order.id === intoOrderId);
+      if (!source || !target) return undefined;
+      this.checkOpen(source);
+      this.checkOpen(target);
+
+      await tx.update(openOrders)
+        .set({ status: "merged", mergedIntoId: target.id, version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, source.id));
+      // The source's party joins the target's, so its table is left to be cleared
+      const covers = source.covers !== null || target.covers !== null ? (source.covers ?? 0) + (target.covers ?? 0) : null;
+      const [merged] = await tx.update(openOrders)
+        .set({
+          items: [...target.items, ...source.items],
+          sentItems: [...target.sentItems, ...source.sentItems],
+          // The lower of the two, so courses either order still has held can be fired
+          firedCourse: Math.min(target.firedCourse, source.firedCourse),
+          covers,
+          version: sql`${openOrders.version} + 1`,
+          updatedAt: new Date()
+        })
+        .where(eq(openOrders.id, target.id))
+        .returning();
+      // Its tickets now belong to the target, so its held courses fire and settle with it
+      await tx.update(kitchenTickets)
+        .set({ openOrderId: target.id })
+        .where(eq(kitchenTickets.openOrderId, source.id));
+      if (source.tableNumber) await this.vacateTable(tx, source.tableNumber, "dirty");
+      return merged;
     });
+  }
 
-    // Sales trend (last 7 days)
-    const salesTrend = [];
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
-      const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
-      
-      const daySales = salesWithDetails.filter(sale => {
-        const saleDate = sale.createdAt ? new Date(sale.createdAt) : new Date();
-        return saleDate >= dayStart && saleDate < dayEnd;
-      });
-      
-      const dayRevenue = daySales.reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
-      const dayProfit = daySales.reduce((sum, sale) => {
-        const saleProfit = sale.itemDetails.reduce((itemSum, item) => {
-          const itemCost = parseFloat(item.product.cost) * item.quantity;
-          const itemRevenue = item.total;
-          return itemSum + (itemRevenue - itemCost);
-        }, 0);
-        return sum + saleProfit;
-      }, 0);
+  async deleteOpenOrder(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return false;
+      // Courses not fired yet will not be needed; what is on the screens stays to be bumped
+      await tx.delete(kitchenTickets).where(and(eq(kitchenTickets.openOrderId, id), eq(kitchenTickets.status, "held")));
+      await tx.delete(openOrders).where(eq(openOrders.id, id));
+      if (order.tableNumber) await this.vacateTable(tx, order.tableNumber, "free");
+      return true;
+    });
+  }
 
-      salesTrend.push({
-        date: dayStart.toISOString().split('T')[0],
-        sales: dayRevenue,
-        profit: dayProfit
-      });
+  // Marks an order as being paid so no other terminal can change or pay it meanwhile.
+  // The sale is then rung up and the order completed, or released if that fails.
+  async claimOpenOrder(id: number, version?: number): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      if (version !== undefined && version !== order.version) {
+        throw new OpenOrderConflictError(`${openOrderLabel(order)} was changed on another terminal; reload it and try again`);
+      }
+      if (order.items.length === 0) throw new OpenOrderError(`${openOrderLabel(order)} has nothing to pay for`);
+      const [claimed] = await tx.update(openOrders)
+        .set({ status: "settling", updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async releaseOpenOrder(id: number): Promise<void> {
+    await db.update(openOrders)
+      .set({ status: "open", updatedAt: new Date() })
+      .where(and(eq(openOrders.id, id), eq(openOrders.status, "settling")));
+  }
+
+  async completeOpenOrder(id: number, saleId: number): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [completed] = await tx.update(openOrders)
+        .set({ status: "settled", saleId, version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(and(eq(openOrders.id, id), eq(openOrders.status, "settling")))
+        .returning();
+      if (completed?.tableNumber) await this.vacateTable(tx, completed.tableNumber, "dirty");
+      return completed;
+    });
+  }
+
+  // Locks an order for a change; only open orders can be changed
+  private async lockOpenOrder(tx: Transaction, id: number): Promise<OpenOrder | undefined> {
+    const [order] = await tx.select().from(openOrders).where(eq(openOrders.id, id)).for("update");
+    if (order) this.checkOpen(order);
+    return order;
+  }
+
+  private checkOpen(order: OpenOrder): void {
+    if (order.status === "open") return;
+    const state = order.status === "settling" ? "being paid" : order.status === "merged" ? "merged into another order" : "paid";
+    throw new OpenOrderConflictError(`${openOrderLabel(order)} is ${state}`);
+  }
+
+  // A table has one open order at a time; move items onto it with a merge instead
+  private async checkTableFree(tx: Transaction, tableNumber: string, exceptId?: number): Promise<void> {
+    const [existing] = await tx.select().from(openOrders).where(and(
+      eq(openOrders.tableNumber, tableNumber),
+      inArray(openOrders.status, ["open", "settling"]),
+      exceptId !== undefined ? ne(openOrders.id, exceptId) : undefined
+    ));
+    if (existing) {
+      throw new OpenOrderConflictError(`Table ${tableNumber} already has an open order; merge into it instead`);
     }
+  }
 
-    return {
-      totalSales,
-      totalProfit,
-      averageOrderValue,
-      topSellingProducts,
-      salesByCategory,
-      salesTrend
+  // Floor plan methods
+  async getFloorAreas(): Promise<FloorArea[]> {
+    return await db.select().from(floorAreas).orderBy(floorAreas.sortOrder, floorAreas.name);
+  }
+
+  async createFloorArea(insertArea: InsertFloorArea): Promise<FloorArea> {
+    const [area] = await db.insert(floorAreas).values(insertArea).returning();
+    return area;
+  }
+
+  async updateFloorArea(id: number, updateData: Partial<InsertFloorArea>): Promise<FloorArea | undefined> {
+    const [area] = await db.update(floorAreas).set(updateData).where(eq(floorAreas.id, id)).returning();
+    return area;
+  }
+
+  // Its tables go with it, so none of them can have an order open
+  async deleteFloorArea(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const tables = await tx.select().from(diningTables).where(eq(diningTables.areaId, id)).for("update");
+      for (const table of tables) {
+        await this.checkTableVacant(tx, table.number, "it is removed");
+      }
+      const result = await tx.delete(floorAreas).where(eq(floorAreas.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async getDiningTables(): Promise<DiningTableWithOrder[]> {
+    const [tables, orders] = await Promise.all([
+      db.select().from(diningTables).orderBy(diningTables.areaId, diningTables.number),
+      this.getOpenOrders()
+    ]);
+    const orderMap = new Map(orders.filter(order => order.tableNumber).map(order => [order.tableNumber!, order]));
+    return tables.map(table => this.withOrder(table, orderMap.get(table.number) ?? null));
+  }
+
+  async createDiningTable(insertTable: InsertDiningTable): Promise<DiningTable> {
+    return await db.transaction(async (tx) => {
+      await this.checkTableNumberFree(tx, insertTable.number);
+      const [table] = await tx.insert(diningTables).values(insertTable).returning();
+      return table;
+    });
+  }
+
+  // A table with an order open keeps its number, so the order stays at it
+  async updateDiningTable(id: number, updateData: Partial<InsertDiningTable>): Promise<DiningTable | undefined> {
+    return await db.transaction(async (tx) => {
+      const [table] = await tx.select().from(diningTables).where(eq(diningTables.id, id)).for("update");
+      if (!table) return undefined;
+      if (updateData.number !== undefined && updateData.number !== table.number) {
+        await this.checkTableVacant(tx, table.number, "it is renumbered");
+        await this.checkTableNumberFree(tx, updateData.number);
+      }
+      const [updated] = await tx.update(diningTables).set(updateData).where(eq(diningTables.id, id)).returning();
+      return updated;
+    });
+  }
+
+  async deleteDiningTable(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [table] = await tx.select().from(diningTables).where(eq(diningTables.id, id)).for("update");
+      if (!table) return false;
+      await this.checkTableVacant(tx, table.number, "it is removed");
+      await tx.delete(diningTables).where(eq(diningTables.id, id));
+      return true;
+    });
+  }
+
+  // Sits a party at a table and opens the table's order for them
+  async seatTable(id: number, seating: SeatTable): Promise<DiningTableWithOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [table] = await tx.select().from(diningTables).where(eq(diningTables.id, id)).for("update");
+      if (!table) return undefined;
+      await this.checkTableFree(tx, table.number);
+      const [order] = await tx.insert(openOrders)
+        .values({ tableNumber: table.number, covers: seating.covers, orderType: "dine_in", openedBy: seating.openedBy })
+        .returning();
+      const [seated] = await tx.update(diningTables)
+        .set({ status: "seated", seatedAt: new Date() })
+        .where(eq(diningTables.id, id))
+        .returning();
+      return this.withOrder(seated, order);
+    });
+  }
+
+  // Free and dirty are for tables without an order; seated and bill requested for those with one
+  async setTableStatus(id: number, status: TableStatus): Promise<DiningTableWithOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [table] = await tx.select().from(diningTables).where(eq(diningTables.id, id)).for("update");
+      if (!table) return undefined;
+      const [order] = await tx.select().from(openOrders).where(and(
+        eq(openOrders.tableNumber, table.number),
+        inArray(openOrders.status, ["open", "settling"])
+      ));
+      const occupied = status === "seated" || status === "bill_requested";
+      if (occupied && !order) throw new TableError(`Seat a party at table ${table.number} first`);
+      if (!occupied && order) {
+        throw new TableError(`Table ${table.number} has an open order; settle, move or delete it first`);
+      }
+
+      const [updated] = await tx.update(diningTables)
+        .set({ status, seatedAt: occupied ? table.seatedAt ?? new Date() : null })
+        .where(eq(diningTables.id, id))
+        .returning();
+      return this.withOrder(updated, order ?? null);
+    });
+  }
+
+  private withOrder(table: DiningTable, order: OpenOrder | null): DiningTableWithOrder {
+    return { ...table, displayStatus: tableDisplayStatus(table, order), order };
+  }
+
+  private async checkTableNumberFree(tx: Transaction, number: string): Promise<void> {
+    const [existing] = await tx.select({ id: diningTables.id }).from(diningTables).where(eq(diningTables.number, number));
+    if (existing) throw new TableError(`There is already a table ${number}`);
+  }
+
+  private async checkTableVacant(tx: Transaction, tableNumber: string, action: string): Promise<void> {
+    const [order] = await tx.select({ id: openOrders.id }).from(openOrders).where(and(
+      eq(openOrders.tableNumber, tableNumber),
+      inArray(openOrders.status, ["open", "settling"])
+    ));
+    if (order) throw new TableError(`Table ${tableNumber} has an open order; move it to another table before ${action}`);
+  }
+
+  // Keeps the floor plan in step when an order moves between tables: the party takes its
+  // seating time and status along, and the table it left needs clearing. Orders at table
+  // numbers that are not on the floor plan leave it alone.
+  private async moveTableSeating(tx: Transaction, from: string | null, to: string | null): Promise<void> {
+    if (from === to) return;
+    const [previous] = from
+      ? await tx.select().from(diningTables).where(eq(diningTables.number, from)).for("update")
+      : [];
+    if (from) await this.vacateTable(tx, from, "dirty");
+    if (!to) return;
+    await tx.update(diningTables)
+      .set({
+        status: previous?.status === "bill_requested" ? "bill_requested" : "seated",
+        seatedAt: previous?.seatedAt ?? new Date()
+      })
+      .where(eq(diningTables.number, to));
+  }
+
+  private async vacateTable(tx: Transaction, tableNumber: string, status: "free" | "dirty"): Promise<void> {
+    await tx.update(diningTables).set({ status, seatedAt: null }).where(eq(diningTables.number, tableNumber));
+  }
+
+  // Kitchen methods
+  async getKitchenStations(): Promise<KitchenStation[]> {
+    return await db.select().from(kitchenStations).orderBy(kitchenStations.sortOrder, kitchenStations.name);
+  }
+
+  async createKitchenStation(insertStation: InsertKitchenStation): Promise<KitchenStation> {
+    const [station] = await db.insert(kitchenStations).values(insertStation).returning();
+    return station;
+  }
+
+  async updateKitchenStation(id: number, updateData: Partial<InsertKitchenStation>): Promise<KitchenStation | undefined> {
+    const [station] = await db.update(kitchenStations).set(updateData).where(eq(kitchenStations.id, id)).returning();
+    return station;
+  }
+
+  // Its categories stop being sent to the kitchen, and its tickets go with it
+  async deleteKitchenStation(id: number): Promise<boolean> {
+    const result = await db.delete(kitchenStations).where(eq(kitchenStations.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getCategoryStations(): Promise<CategoryStation[]> {
+    return await db.select().from(categoryStations).orderBy(categoryStations.category);
+  }
+
+  async setCategoryStation(category: string, stationId: number | null): Promise<CategoryStation | undefined> {
+    if (stationId === null) {
+      await db.delete(categoryStations).where(eq(categoryStations.category, category));
+      return undefined;
+    }
+    const [assignment] = await db.insert(categoryStations)
+      .values({ category, stationId })
+      .onConflictDoUpdate({ target: categoryStations.category, set: { stationId } })
+      .returning();
+    return assignment;
+  }
+
+  // Tickets on the screens, oldest first, and those bumped in the last half hour so a
+  // station can recall one bumped by mistake
+  async getKitchenTickets(stationId?: number): Promise<KitchenTicket[]> {
+    const recalledSince = new Date(Date.now() - 30 * 60 * 1000);
+    return await db.select().from(kitchenTickets)
+      .where(and(
+        stationId !== undefined ? eq(kitchenTickets.stationId, stationId) : undefined,
+        or(
+          eq(kitchenTickets.status, "pending"),
+          and(eq(kitchenTickets.status, "bumped"), gte(kitchenTickets.bumpedAt, recalledSince))
+        )
+      ))
+      .orderBy(kitchenTickets.firedAt, kitchenTickets.id);
+  }
+
+  async bumpKitchenTicket(id: number): Promise<KitchenTicket | undefined> {
+    return await this.moveKitchenTicket(id, "pending", { status: "bumped", bumpedAt: new Date() });
+  }
+
+  // Puts a bumped ticket back on the screen; its time keeps running from when it was fired
+  async recallKitchenTicket(id: number): Promise<KitchenTicket | undefined> {
+    return await this.moveKitchenTicket(id, "bumped", { status: "pending", bumpedAt: null });
+  }
+
+  private async moveKitchenTicket(
+    id: number,
+    from: "pending" | "bumped",
+    changes: Pick<KitchenTicket, "status" | "bumpedAt">
+  ): Promise<KitchenTicket | undefined> {
+    const [moved] = await db.update(kitchenTickets)
+      .set(changes)
+      .where(and(eq(kitchenTickets.id, id), eq(kitchenTickets.status, from)))
+      .returning();
+    if (moved) return moved;
+    const [ticket] = await db.select().from(kitchenTickets).where(eq(kitchenTickets.id, id));
+    if (!ticket) return undefined;
+    throw new KitchenError(from === "pending" ? "That ticket is not on the screen" : "Only bumped tickets can be recalled");
+  }
+
+  // Sends what has been added to an order since it was last sent. Courses after the one
+  // fired are held until they are fired.
+  async sendOpenOrderToKitchen(id: number): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      const lines = unsentLines(order.items, order.sentItems);
+      if (lines.length === 0) throw new OpenOrderError(`Everything on ${openOrderLabel(order)} has already been sent`);
+
+      try {
+        await this.addKitchenTickets(tx, lines, { label: openOrderLabel(order), openOrderId: id }, order.firedCourse);
+      } catch (error) {
+        throw error instanceof PricingError ? new OpenOrderError(error.message) : error;
+      }
+      const [sent] = await tx.update(openOrders)
+        .set({ sentItems: order.items, version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      return sent;
+    });
+  }
+
+  // Tells the kitchen to start on a course, and on any before it still held
+  async fireOpenOrderCourse(id: number, course: number): Promise<OpenOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const order = await this.lockOpenOrder(tx, id);
+      if (!order) return undefined;
+      await this.fireHeldTickets(tx, id, course);
+      const [fired] = await tx.update(openOrders)
+        .set({ firedCourse: Math.max(order.firedCourse, course), version: sql`${openOrders.version} + 1`, updatedAt: new Date() })
+        .where(eq(openOrders.id, id))
+        .returning();
+      return fired;
+    });
+  }
+
+  // Sends a sale's lines to the kitchen with every course fired, as the customer has paid.
+  // For a settled open order the lines are those not sent yet, and its held courses fire too.
+  async sendSaleToKitchen(sale: Sale, lines: OrderLine[], order?: OpenOrder): Promise<KitchenTicket[]> {
+    return await db.transaction(async (tx) => {
+      const label = order ? openOrderLabel(order) : `${sale.orderType === "takeaway" ? "Takeaway" : "Sale"} #${sale.id}`;
+      if (order) await this.fireHeldTickets(tx, order.id);
+      return await this.addKitchenTickets(tx, lines, { label, openOrderId: order?.id ?? null, saleId: sale.id });
+    });
+  }
+
+  private async fireHeldTickets(tx: Transaction, openOrderId: number, upToCourse?: number): Promise<void> {
+    await tx.update(kitchenTickets)
+      .set({ status: "pending", firedAt: new Date() })
+      .where(and(
+        eq(kitchenTickets.openOrderId, openOrderId),
+        eq(kitchenTickets.status, "held"),
+        upToCourse !== undefined ? lte(kitchenTickets.course, upToCourse) : undefined
+      ));
+  }
+
+  // Routes lines to stations by product category, one ticket per station and course.
+  // Bundle components are routed on their own, since a meal deal's drink is poured at
+  // the bar while its burger is cooked on the grill.
+  private async addKitchenTickets(
+    tx: Transaction,
+    lines: OrderLine[],
+    source: { label: string; openOrderId?: number | null; saleId?: number | null },
+    firedCourse: number = Infinity
+  ): Promise<KitchenTicket[]> {
+    const [productList, routes] = await Promise.all([
+      tx.select().from(products),
+      tx.select().from(categoryStations)
+    ]);
+    const productMap = new Map(productList.map(product => [product.id, product]));
+    const stationFor = new Map(routes.map(route => [route.category, route.stationId]));
+    const optionIds = Array.from(new Set(lines.flatMap(line => line.modifierIds ?? [])));
+    const options = optionIds.length > 0
+      ? await tx.select().from(modifierOptions).where(inArray(modifierOptions.id, optionIds))
+      : [];
+    const optionNames = new Map(options.map(option => [option.id, option.name]));
+
+    const tickets = new Map<string, { stationId: number; course: number; items: KitchenTicketItem[] }>();
+    const route = (productId: number, course: number, item: KitchenTicketItem) => {
+      const stationId = stationFor.get(productMap.get(productId)?.category ?? "");
+      if (stationId === undefined) return;
+      const key = `${stationId}:${course}`;
+      const ticket = tickets.get(key) ?? { stationId, course, items: [] };
+      ticket.items.push(item);
+      tickets.set(key, ticket);
+    };
+
+    for (const line of lines) {
+      const product = productMap.get(line.productId);
+      if (!product) continue;
+      const course = line.course ?? 1;
+      const modifiers = (line.modifierIds ?? []).map(optionId => optionNames.get(optionId) ?? `Option ${optionId}`);
+      const note = line.note ? { note: line.note } : {};
+      if (isBundle(product)) {
+        resolveBundle(product, line.bundleChoices ?? [], productMap).forEach(component => route(component.productId, course, {
+          productId: component.productId,
+          name: component.name,
+          quantity: line.quantity * component.quantity,
+          modifiers,
+          bundle: product.name,
+          ...note
+        }));
+      } else {
+        route(product.id, course, { productId: product.id, name: product.name, quantity: line.quantity, modifiers, ...note });
+      }
+    }
+
+    if (tickets.size === 0) return [];
+    const now = new Date();
+    return await tx.insert(kitchenTickets)
+      .values(Array.from(tickets.values()).map(ticket => {
+        const fired = ticket.course <= firedCourse;
+        return {
+          ...ticket,
+          label: source.label,
+          openOrderId: source.openOrderId ?? null,
+          saleId: source.saleId ?? null,
+          status: fired ? "pending" : "held",
+          firedAt: fired ? now : null
+        };
+      }))
+      .returning();
+  }
+
+  async getKitchenReport(from: Date, to: Date): Promise<KitchenReport> {
+    const [tickets, stations] = await Promise.all([
+      db.select().from(kitchenTickets).where(and(
+        eq(kitchenTickets.status, "bumped"),
+        gte(kitchenTickets.bumpedAt, from),
+        lte(kitchenTickets.bumpedAt, to)
+      )),
+      this.getKitchenStations()
+    ]);
+    const stationNames = new Map(stations.map(station => [station.id, station.name]));
+
+    const stationTimes = new Map<number, { tickets: number; seconds: number }>();
+    const productTimes = new Map<string, { productId: number; name: string; stationId: number; quantity: number; tickets: number; seconds: number }>();
+    tickets.forEach(ticket => {
+      const seconds = ticketSeconds(ticket);
+      const station = stationTimes.get(ticket.stationId) ?? { tickets: 0, seconds: 0 };
+      station.tickets += 1;
+      station.seconds += seconds;
+      stationTimes.set(ticket.stationId, station);
+
+      // A product listed twice on a ticket, say with different options, is one wait
+      const onTicket = new Set<number>();
+      ticket.items.forEach(item => {
+        const key = `${ticket.stationId}:${item.productId}`;
+        const entry = productTimes.get(key)
+          ?? { productId: item.productId, name: item.name, stationId: ticket.stationId, quantity: 0, tickets: 0, seconds: 0 };
+        entry.quantity += item.quantity;
+        if (!onTicket.has(item.productId)) {
+          entry.tickets += 1;
+          entry.seconds += seconds;
+          onTicket.add(item.productId);
+        }
+        productTimes.set(key, entry);
+      });
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      stations: Array.from(stationTimes.entries())
+        .map(([stationId, entry]) => ({
+          stationId,
+          name: stationNames.get(stationId) ?? `Station ${stationId}`,
+          tickets: entry.tickets,
+          averageSeconds: Math.round(entry.seconds / entry.tickets)
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      products: Array.from(productTimes.values())
+        .map(entry => ({
+          productId: entry.productId,
+          name: entry.name,
+          station: stationNames.get(entry.stationId) ?? `Station ${entry.stationId}`,
+          quantity: entry.quantity,
+          tickets: entry.tickets,
+          averageSeconds: Math.round(entry.seconds / entry.tickets)
+        }))
+        .sort((a, b) => b.averageSeconds - a.averageSeconds)
+    };
+  }
+
+  // Tax Rates methods
+  async getTaxRates(): Promise<TaxRate[]> {
+    return await db.select().from(taxRates).orderBy(taxRates.name);
+  }
+
+  async getTaxRate(id: number): Promise<TaxRate | undefined> {
+    const result = await db.select().from(taxRates).where(eq(taxRates.id, id));
+    return result[0];
+  }
+
+  async createTaxRate(insertRate: InsertTaxRate): Promise<TaxRate> {
+    return await db.transaction(async (tx) => {
+      // Only one rate can be the default
+      if (insertRate.isDefault) {
+        await tx.update(taxRates).set({ isDefault: false }).where(eq(taxRates.isDefault, true));
+      }
+      const [rate] = await tx.insert(taxRates).values({
+        ...insertRate,
+        dineInRate: insertRate.dineInRate.toString(),
+        takeawayRate: insertRate.takeawayRate?.toString() ?? null
+      }).returning();
+      return rate;
+    });
+  }
+
+  async updateTaxRate(id: number, update: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    const updateData: any = {};
+    Object.keys(update).forEach(key => {
+      if (key === 'dineInRate' || key === 'takeawayRate') {
+        updateData[key] = (update as any)[key]?.toString() ?? null;
+      } else {
+        updateData[key] = (update as any)[key];
+      }
+    });
+
+    return await db.transaction(async (tx) => {
+      if (update.isDefault) {
+        await tx.update(taxRates).set({ isDefault: false }).where(eq(taxRates.isDefault, true));
+      }
+      const [rate] = await tx.update(taxRates).set(updateData).where(eq(taxRates.id, id)).returning();
+      return rate;
+    });
+  }
+
+  async deleteTaxRate(id: number): Promise<boolean> {
+    const result = await db.delete(taxRates).where(eq(taxRates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getCategoryTaxRates(): Promise<CategoryTaxRate[]> {
+    return await db.select().from(categoryTaxRates).orderBy(categoryTaxRates.category);
+  }
+
+  async setCategoryTaxRate(category: string, taxRateId: number | null): Promise<CategoryTaxRate | undefined> {
+    if (taxRateId === null) {
+      await db.delete(categoryTaxRates).where(eq(categoryTaxRates.category, category));
+      return undefined;
+    }
+    const [assignment] = await db.insert(categoryTaxRates)
+      .values({ category, taxRateId })
+      .onConflictDoUpdate({ target: categoryTaxRates.category, set: { taxRateId } })
+      .returning();
+    return assignment;
+  }
+
+  // Tax collected between from and to, by rate and order type. Sales rung up before
+  // tax rates existed have no breakdown and are reported at their effective rate.
+  async getTaxReport(from: Date, to: Date): Promise<TaxReport> {
+    const salesArray = await db.select().from(sales)
+      .where(and(gte(sales.createdAt, from), lte(sales.createdAt, to)));
+
+    // Refunds and voids carry negative tax, so they net out against their rates
+    const lines = new Map<string, TaxReportLine>();
+    const addLine = (sale: Sale, entry: TaxBreakdownLine) => {
+      const orderType = sale.orderType as OrderType;
+      const key = `${orderType}:${entry.taxRateId}:${entry.rate}:${entry.inclusive}`;
+      const line = lines.get(key) ?? { ...entry, orderType, taxableAmount: 0, taxAmount: 0, saleCount: 0 };
+      line.taxableAmount = roundCurrency(line.taxableAmount + entry.taxableAmount);
+      line.taxAmount = roundCurrency(line.taxAmount + entry.taxAmount);
+      if (sale.type === "sale") line.saleCount += 1;
+      lines.set(key, line);
+    };
+
+    salesArray.forEach(sale => {
+      if (sale.taxBreakdown.length > 0) {
+        sale.taxBreakdown.forEach(entry => addLine(sale, entry));
+        return;
+      }
+      const taxAmount = parseFloat(sale.taxAmount || "0");
+      if (taxAmount === 0) return;
+      const taxableAmount = roundCurrency(parseFloat(sale.totalAmount) - taxAmount);
+      addLine(sale, {
+        taxRateId: null,
+        name: "Unassigned",
+        rate: taxableAmount > 0 ? Math.round((taxAmount / taxableAmount) * 1000) / 10 : 0,
+        inclusive: false,
+        taxableAmount,
+        taxAmount
+      });
+    });
+
+    const reportLines = Array.from(lines.values()).sort((a, b) => b.taxAmount - a.taxAmount);
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      lines: reportLines,
+      totalTaxable: roundCurrency(reportLines.reduce((sum, line) => sum + line.taxableAmount, 0)),
+      totalTax: roundCurrency(reportLines.reduce((sum, line) => sum + line.taxAmount, 0))
+    };
+  }
+
+  // Takings between from and to by tender type, net of money paid back by refunds and
+  // voids. Sales from before split payments were recorded count as paid in full by
+  // their payment method.
+  async getTakingsReport(from: Date, to: Date): Promise<TakingsReport> {
+    const salesArray = await db.select().from(sales)
+      .where(and(gte(sales.createdAt, from), lte(sales.createdAt, to)));
+
+    const byType = new Map<string, { type: string; count: number; amount: number }>();
+    let cashTendered = 0;
+    let changeGiven = 0;
+    let refunded = 0;
+    salesArray.forEach(sale => {
+      if (sale.type !== "sale") refunded -= parseFloat(sale.totalAmount);
+      const tenders = sale.tenders.length > 0
+        ? sale.tenders
+        : [{ type: sale.paymentMethod, amount: parseFloat(sale.totalAmount) }];
+      tenders.forEach(tender => {
+        const entry = byType.get(tender.type) ?? { type: tender.type, count: 0, amount: 0 };
+        if (sale.type === "sale") entry.count += 1;
+        entry.amount = roundCurrency(entry.amount + tender.amount);
+        byType.set(tender.type, entry);
+      });
+      cashTendered += parseFloat(sale.cashTendered ?? "0");
+      changeGiven += parseFloat(sale.changeDue);
+    });
+
+    const tenders = Array.from(byType.values()).sort((a, b) => b.amount - a.amount);
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      tenders,
+      total: roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0)),
+      refunded: roundCurrency(refunded),
+      cashTendered: roundCurrency(cashTendered),
+      changeGiven: roundCurrency(changeGiven)
+    };
+  }
+
+  // Operational Costs methods
+  async getOperationalCosts(): Promise<OperationalCost[]> {
+    return await db.select().from(operationalCosts).orderBy(desc(operationalCosts.date));
+  }
+
+  async getOperationalCost(id: number): Promise<OperationalCost | undefined> {
+    const result = await db.select().from(operationalCosts).where(eq(operationalCosts.id, id));
+    return result[0];
+  }
+
+  async createOperationalCost(insertCost: InsertOperationalCost): Promise<OperationalCost> {
+    const costData = {
+      ...insertCost,
+      amount: insertCost.amount.toString()
+    };
+    const result = await db.insert(operationalCosts).values(costData).returning();
+    return result[0];
+  }
+
+  async updateOperationalCost(id: number, update: Partial<InsertOperationalCost>): Promise<OperationalCost | undefined> {
+    const updateData: any = {};
+    Object.keys(update).forEach(key => {
+      if (key === 'amount') {
+        updateData[key] = (update as any)[key]?.toString();
+      } else {
+        updateData[key] = (update as any)[key];
+      }
+    });
+    
+    const result = await db.update(operationalCosts).set(updateData).where(eq(operationalCosts.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteOperationalCost(id: number): Promise<boolean> {
+    const result = await db.delete(operationalCosts).where(eq(operationalCosts.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Ingredients methods
+  async getIngredients(): Promise<Ingredient[]> {
+    return await db.select().from(ingredients).orderBy(ingredients.name);
+  }
+
+  async getIngredient(id: number): Promise<Ingredient | undefined> {
+    const result = await db.select().from(ingredients).where(eq(ingredients.id, id));
+    return result[0];
+  }
+
+  async createIngredient(insertIngredient: InsertIngredient): Promise<Ingredient> {
+    const ingredientData = {
+      ...insertIngredient,
+      costPerUnit: insertIngredient.costPerUnit.toString(),
+      yieldPercentage: insertIngredient.yieldPercentage.toString(),
+      densityGPerMl: insertIngredient.densityGPerMl?.toString() ?? null,
+      pieceWeightG: insertIngredient.pieceWeightG?.toString() ?? null
+    };
+    const result = await db.insert(ingredients).values(ingredientData).returning();
+    return result[0];
+  }
+
+  async updateIngredient(id: number, update: Partial<InsertIngredient>): Promise<Ingredient | undefined> {
+    // Get existing ingredient to track cost changes
+    const existing = await this.getIngredient(id);
+    if (!existing) return undefined;
+
+    // Track cost changes
+    if (update.costPerUnit !== undefined && update.costPerUnit !== parseFloat(existing.costPerUnit)) {
+      await this.createCostHistory({
+        ingredientId: id,
+        oldCost: parseFloat(existing.costPerUnit),
+        newCost: update.costPerUnit,
+        reason: "Manual update"
+      });
+    }
+
+    const updateData: any = { updatedAt: new Date() };
+    Object.keys(update).forEach(key => {
+      if (key === 'costPerUnit' || key === 'yieldPercentage') {
+        updateData[key] = (update as any)[key]?.toString();
+      } else if (key === 'densityGPerMl' || key === 'pieceWeightG') {
+        updateData[key] = (update as any)[key]?.toString() ?? null;
+      } else {
+        updateData[key] = (update as any)[key];
+      }
+    });
+
+    // Stock is held in the purchase unit, so re-express it when that unit changes
+    if (update.unit !== undefined && update.unit !== existing.unit) {
+      try {
+        const profile = getConversionProfile({ ...existing, ...update });
+        const stock = convertQuantity(parseFloat(existing.stockQuantity), existing.unit, update.unit, profile);
+        updateData.stockQuantity = (Math.round(stock * 1000) / 1000).toString();
+      } catch (error) {
+        if (!(error instanceof UnitConversionError)) throw error;
+      }
+    }
+
+    const result = await db.update(ingredients).set(updateData).where(eq(ingredients.id, id)).returning();
+
+    const priceChanged = update.costPerUnit !== undefined && update.costPerUnit !== parseFloat(existing.costPerUnit);
+    const conversionChanged = update.unit !== undefined || update.densityGPerMl !== undefined ||
+      update.pieceWeightG !== undefined || update.yieldPercentage !== undefined;
+    if (priceChanged || conversionChanged) {
+      const lines = await db.select().from(recipeIngredients).where(eq(recipeIngredients.ingredientId, id));
+      const recipeIds = await this.getDependentRecipeIds(lines.map(line => line.recipeId));
+      const reason = priceChanged
+        ? `Ingredient price change: ${result[0].name}`
+        : `Ingredient update: ${result[0].name}`;
+      await this.syncRecipeProductCosts(recipeIds, reason);
+    }
+
+    return result[0];
+  }
+
+  async deleteIngredient(id: number): Promise<boolean> {
+    const result = await db.delete(ingredients).where(eq(ingredients.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Recipes methods
+  async getRecipes(): Promise<Recipe[]> {
+    return await db.select().from(recipes).orderBy(recipes.name);
+  }
+
+  async getRecipe(id: number): Promise<Recipe | undefined> {
+    const result = await db.select().from(recipes).where(eq(recipes.id, id));
+    return result[0];
+  }
+
+  async getRecipesWithDetails(): Promise<RecipeWithDetails[]> {
+    const context = await this.loadRecipeCostContext();
+    return Array.from(context.recipeMap.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(recipe => this.calculateRecipeCost(recipe, context));
+  }
+
+  async getRecipeWithDetails(id: number): Promise<RecipeWithDetails | undefined> {
+    // Prep items can nest, so the whole recipe graph is loaded to cost a single recipe
+    const context = await this.loadRecipeCostContext();
+    const recipe = context.recipeMap.get(id);
+    if (!recipe) return undefined;
+    return this.calculateRecipeCost(recipe, context);
+  }
+
+  async createRecipe(insertRecipe: InsertRecipe): Promise<RecipeWithDetails> {
+    const { ingredients: lines, ...recipeData } = insertRecipe;
+
+    const recipe = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(recipes).values({
+        ...recipeData,
+        yieldQuantity: recipeData.yieldQuantity?.toString() ?? null
+      }).returning();
+      await this.insertRecipeLines(tx, created.id, lines);
+      return created;
+    });
+
+    await this.createRecipeVersion(recipe.id, "Created");
+    return (await this.getRecipeWithDetails(recipe.id))!;
+  }
+
+  async updateRecipe(id: number, update: Partial<InsertRecipe>, note: string = "Updated"): Promise<RecipeWithDetails | undefined> {
+    const existing = await this.getRecipe(id);
+    if (!existing) return undefined;
+
+    const { ingredients: lines, ...recipeData } = update;
+
+    await db.transaction(async (tx) => {
+      await tx.update(recipes).set({
+        ...recipeData,
+        yieldQuantity: recipeData.yieldQuantity === undefined ? undefined : recipeData.yieldQuantity?.toString() ?? null,
+        updatedAt: new Date()
+      }).where(eq(recipes.id, id));
+
+      // Replace the ingredient lines when a new composition is supplied
+      if (lines) {
+        await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+        await this.insertRecipeLines(tx, id, lines);
+      }
+    });
+
+    await this.createRecipeVersion(id, note);
+
+    if (lines || recipeData.servings !== undefined || recipeData.yieldQuantity !== undefined || recipeData.yieldUnit !== undefined) {
+      const affectedIds = await this.getDependentRecipeIds([id]);
+      await this.syncRecipeProductCosts(affectedIds, `Recipe update: ${recipeData.name ?? existing.name}`);
+    }
+
+    return this.getRecipeWithDetails(id);
+  }
+
+  async deleteRecipe(id: number): Promise<boolean> {
+    const result = await db.delete(recipes).where(eq(recipes.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async scaleRecipe(id: number, factor: number): Promise<ScaledRecipe | undefined> {
+    const context = await this.loadRecipeCostContext();
+    const recipe = context.recipeMap.get(id);
+    if (!recipe) return undefined;
+    const scaled = this.calculateRecipeCost(recipe, context);
+
+    // Post-order walk: every prep item lands before the recipes that use it
+    const order: number[] = [];
+    const visited = new Set<number>();
+    const visit = (recipeId: number) => {
+      if (visited.has(recipeId)) return;
+      visited.add(recipeId);
+      context.results.get(recipeId)!.subRecipeDetails.forEach(detail => visit(detail.recipe.id));
+      order.push(recipeId);
+    };
+    visit(id);
+
+    // Walk parents first so a prep item shared by several recipes sums every demand on it
+    const factors = new Map<number, number>([[id, factor]]);
+    [...order].reverse().forEach(recipeId => {
+      const parentFactor = factors.get(recipeId) ?? 0;
+      context.results.get(recipeId)!.subRecipeDetails.forEach(detail => {
+        const yieldQuantity = parseFloat(detail.recipe.yieldQuantity ?? "0");
+        if (!detail.recipe.yieldUnit || !(yieldQuantity > 0)) return;
+        try {
+          const batches = convertQuantity(detail.quantity, detail.unit, detail.recipe.yieldUnit) / yieldQuantity;
+          factors.set(detail.recipe.id, (factors.get(detail.recipe.id) ?? 0) + batches * parentFactor);
+        } catch (error) {
+          // Already reported in the recipe's warnings
+          if (!(error instanceof UnitConversionError)) throw error;
+        }
+      });
+    });
+
+    const sections: ScaledRecipeSection[] = order.map(recipeId => {
+      const details = context.results.get(recipeId)!;
+      const sectionFactor = factors.get(recipeId) ?? 0;
+      const scaleLine = (quantity: number, unit: string) => {
+        const exactQuantity = quantity * sectionFactor;
+        return { ...roundKitchenQuantity(exactQuantity, unit), exactQuantity: Math.round(exactQuantity * 1000) / 1000 };
+      };
+      const yieldQuantity = parseFloat(details.yieldQuantity ?? "0");
+      const batchYield = details.yieldUnit && yieldQuantity > 0
+        ? roundKitchenQuantity(yieldQuantity * sectionFactor, details.yieldUnit)
+        : null;
+
+      return {
+        recipeId,
+        name: details.name,
+        isPrepItem: details.isPrepItem,
+        factor: Math.round(sectionFactor * 10000) / 10000,
+        servings: Math.round(details.servings * sectionFactor * 10) / 10,
+        yieldQuantity: batchYield?.quantity ?? null,
+        yieldUnit: batchYield?.unit ?? null,
+        lines: [
+          ...details.ingredientDetails.map(detail => ({
+            ingredientId: detail.ingredient.id,
+            subRecipeId: null,
+            name: detail.ingredient.name,
+            ...scaleLine(detail.quantity, detail.unit),
+            cost: roundCurrency(detail.cost * sectionFactor)
+          })),
+          ...details.subRecipeDetails.map(detail => ({
+            ingredientId: null,
+            subRecipeId: detail.recipe.id,
+            name: detail.recipe.name,
+            ...scaleLine(detail.quantity, detail.unit),
+            cost: roundCurrency(detail.cost * sectionFactor)
+          }))
+        ],
+        cost: roundCurrency(context.rawTotals.get(recipeId)! * sectionFactor)
+      };
+    });
+
+    return {
+      recipeId: id,
+      name: scaled.name,
+      factor,
+      sections,
+      batchCost: roundCurrency(context.rawTotals.get(id)! * factor),
+      costPerServing: scaled.costPerServing,
+      warnings: scaled.warnings
+    };
+  }
+
+  // Recipe Versions methods
+  async getRecipeVersions(recipeId: number): Promise<RecipeVersion[]> {
+    return await db.select().from(recipeVersions)
+      .where(eq(recipeVersions.recipeId, recipeId))
+      .orderBy(desc(recipeVersions.version));
+  }
+
+  async getRecipeVersion(recipeId: number, version: number): Promise<RecipeVersion | undefined> {
+    const result = await db.select().from(recipeVersions)
+      .where(and(eq(recipeVersions.recipeId, recipeId), eq(recipeVersions.version, version)));
+    return result[0];
+  }
+
+  async diffRecipeVersions(recipeId: number, fromVersion: number, toVersion: number): Promise<RecipeVersionDiff | undefined> {
+    const from = await this.getRecipeVersion(recipeId, fromVersion);
+    const to = await this.getRecipeVersion(recipeId, toVersion);
+    if (!from || !to) return undefined;
+
+    const fields = ["name", "category", "servings", "isPrepItem", "yieldQuantity", "yieldUnit"] as const;
+    const fieldChanges = fields
+      .filter(field => from[field] !== to[field])
+      .map(field => ({ field, from: from[field], to: to[field] }));
+
+    // Lines are matched by what they use; repeats of the same item pair up in order
+    const keyLines = (lines: RecipeVersionLine[]) => {
+      const seen = new Map<string, number>();
+      return new Map(lines.map(line => {
+        const base = line.ingredientId !== null ? `ingredient:${line.ingredientId}` : `prep:${line.subRecipeId}`;
+        const occurrence = seen.get(base) ?? 0;
+        seen.set(base, occurrence + 1);
+        return [`${base}#${occurrence}`, line] as const;
+      }));
+    };
+    const fromLines = keyLines(from.lines);
+    const toLines = keyLines(to.lines);
+
+    const added = Array.from(toLines.entries()).filter(([key]) => !fromLines.has(key)).map(([, line]) => line);
+    const removed = Array.from(fromLines.entries()).filter(([key]) => !toLines.has(key)).map(([, line]) => line);
+    const changed = Array.from(toLines.entries())
+      .filter(([key, line]) => {
+        const previous = fromLines.get(key);
+        return previous !== undefined && (
+          previous.quantity !== line.quantity ||
+          previous.unit !== line.unit ||
+          previous.yieldPercentage !== line.yieldPercentage ||
+          previous.cost !== line.cost
+        );
+      })
+      .map(([key, line]) => ({ name: line.name, from: fromLines.get(key)!, to: line }));
+
+    return {
+      recipeId,
+      fromVersion,
+      toVersion,
+      fieldChanges,
+      added,
+      removed,
+      changed,
+      totalCostChange: roundCurrency(parseFloat(to.totalCost) - parseFloat(from.totalCost)),
+      costPerServingChange: roundCurrency(parseFloat(to.costPerServing) - parseFloat(from.costPerServing))
+    };
+  }
+
+  private async insertRecipeLines(tx: Transaction, recipeId: number, lines: RecipeIngredientLine[]): Promise<void> {
+    if (lines.length === 0) return;
+    await tx.insert(recipeIngredients).values(lines.map(line => ({
+      recipeId,
+      ingredientId: line.ingredientId > 0 ? line.ingredientId : null,
+      subRecipeId: line.subRecipeId || null,
+      quantity: line.quantity.toString(),
+      unit: line.unit ?? null,
+      yieldPercentage: line.yieldPercentage?.toString() ?? null
+    })));
+  }
+
+  // Snapshot the recipe as saved, including what each line cost at this moment
+  private async createRecipeVersion(recipeId: number, note: string): Promise<RecipeVersion> {
+    const recipe = (await this.getRecipeWithDetails(recipeId))!;
+    // Yield overrides are per line, since the same ingredient can appear on several lines.
+    // Both are in line order, so each ingredient line matches the detail at its index.
+    const storedLines = await db.select().from(recipeIngredients)
+      .where(eq(recipeIngredients.recipeId, recipeId))
+      .orderBy(recipeIngredients.id);
+    const overrides = storedLines
+      .filter(line => line.ingredientId !== null)
+      .map(line => line.yieldPercentage === null ? null : parseFloat(line.yieldPercentage));
+
+    const lines: RecipeVersionLine[] = [
+      ...recipe.ingredientDetails.map((detail, index) => ({
+        ingredientId: detail.ingredient.id,
+        subRecipeId: null,
+        name: detail.ingredient.name,
+        quantity: detail.quantity,
+        unit: detail.unit,
+        yieldPercentage: overrides[index] ?? null,
+        cost: detail.cost
+      })),
+      ...recipe.subRecipeDetails.map(detail => ({
+        ingredientId: null,
+        subRecipeId: detail.recipe.id,
+        name: detail.recipe.name,
+        quantity: detail.quantity,
+        unit: detail.unit,
+        yieldPercentage: null,
+        cost: detail.cost
+      }))
+    ];
+
+    const latest = await db.select().from(recipeVersions)
+      .where(eq(recipeVersions.recipeId, recipeId))
+      .orderBy(desc(recipeVersions.version))
+      .limit(1);
+
+    const result = await db.insert(recipeVersions).values({
+      recipeId,
+      version: (latest[0]?.version ?? 0) + 1,
+      name: recipe.name,
+      category: recipe.category,
+      servings: recipe.servings,
+      isPrepItem: recipe.isPrepItem,
+      yieldQuantity: recipe.yieldQuantity,
+      yieldUnit: recipe.yieldUnit,
+      lines,
+      totalCost: recipe.totalCost.toString(),
+      costPerServing: recipe.costPerServing.toString(),
+      note
+    }).returning();
+    return result[0];
+  }
+
+  private async getRecipeDerivedCost(recipeId: number, portions: number): Promise<number | undefined> {
+    const recipe = await this.getRecipeWithDetails(recipeId);
+    if (!recipe) return undefined;
+    return roundCurrency(recipe.costPerServing * portions);
+  }
+
+  // Recompute the cost of every product linked to the given recipes
+  private async syncRecipeProductCosts(recipeIds: number[], reason: string): Promise<void> {
+    if (recipeIds.length === 0) return;
+
+    const linkedProducts = await db.select().from(products).where(inArray(products.recipeId, recipeIds));
+    for (const product of linkedProducts) {
+      const newCost = await this.getRecipeDerivedCost(product.recipeId!, parseFloat(product.recipePortions ?? "1"));
+      if (newCost === undefined || newCost === parseFloat(product.cost)) continue;
+
+      await this.createCostHistory({
+        productId: product.id,
+        oldCost: parseFloat(product.cost),
+        newCost,
+        reason
+      });
+      await db.update(products).set({ cost: newCost.toString() }).where(eq(products.id, product.id));
+    }
+  }
+
+  // Given recipes plus every recipe that uses them, directly or through prep items
+  private async getDependentRecipeIds(recipeIds: number[]): Promise<number[]> {
+    const lines = await db.select().from(recipeIngredients);
+    const result = new Set(recipeIds);
+    let frontier = recipeIds;
+
+    while (frontier.length > 0) {
+      const parents = lines
+        .filter(line => line.subRecipeId !== null && frontier.includes(line.subRecipeId) && !result.has(line.recipeId))
+        .map(line => line.recipeId);
+      parents.forEach(parentId => result.add(parentId));
+      frontier = Array.from(new Set(parents));
+    }
+
+    return Array.from(result);
+  }
+
+  // Moves ingredient stock atomically and records why. With onlyIfAvailable, stock is
+  // left alone (applied: false) rather than taken below zero.
+  private async adjustIngredientStock(
+    executor: Executor,
+    ingredientId: number,
+    quantity: number,
+    reason: "sale" | "refund" | "purchase" | "count",
+    refs: { saleId?: number; productId?: number; occurredAt?: Date } = {},
+    onlyIfAvailable: boolean = false
+  ): Promise<{ applied: boolean; stock: number }> {
+    const rounded = Math.round(quantity * 1000) / 1000;
+    const condition = onlyIfAvailable && rounded < 0
+      ? and(eq(ingredients.id, ingredientId), gte(ingredients.stockQuantity, (-rounded).toString()))
+      : eq(ingredients.id, ingredientId);
+    const [updated] = await executor.update(ingredients)
+      .set({ stockQuantity: sql`${ingredients.stockQuantity} + ${rounded.toString()}` })
+      .where(condition)
+      .returning({ stockQuantity: ingredients.stockQuantity });
+
+    if (!updated) {
+      const [current] = await executor.select({ stockQuantity: ingredients.stockQuantity })
+        .from(ingredients)
+        .where(eq(ingredients.id, ingredientId));
+      return { applied: false, stock: current ? parseFloat(current.stockQuantity) : 0 };
+    }
+
+    if (rounded !== 0) {
+      await executor.insert(ingredientStockMovements).values({
+        ingredientId,
+        quantity: rounded.toString(),
+        reason,
+        saleId: refs.saleId ?? null,
+        productId: refs.productId ?? null,
+        occurredAt: refs.occurredAt ?? new Date()
+      });
+    }
+    return { applied: true, stock: parseFloat(updated.stockQuantity) };
+  }
+
+  // Adds the as-purchased quantity of every ingredient in the given number of batches
+  // of a recipe to usage, in each ingredient's purchase unit, walking into prep items
+  private addRecipeUsage(recipeId: number, batches: number, context: RecipeCostContext, usage: Map<number, number>, depth: number = 0): void {
+    if (depth > 20) return;
+    for (const line of context.linesByRecipe.get(recipeId) || []) {
+      const quantity = parseFloat(line.quantity);
+
+      const ingredient = line.ingredientId !== null ? context.ingredientMap.get(line.ingredientId) : undefined;
+      if (ingredient) {
+        try {
+          const purchaseQuantity = convertQuantity(quantity, line.unit ?? ingredient.unit, ingredient.unit, getConversionProfile(ingredient));
+          const yieldPercentage = parseFloat(line.yieldPercentage ?? ingredient.yieldPercentage);
+          const asPurchased = yieldPercentage > 0 ? purchaseQuantity / (yieldPercentage / 100) : purchaseQuantity;
+          usage.set(ingredient.id, (usage.get(ingredient.id) || 0) + asPurchased * batches);
+        } catch (error) {
+          if (!(error instanceof UnitConversionError)) throw error;
+        }
+      }
+
+      const subRecipe = line.subRecipeId !== null ? context.recipeMap.get(line.subRecipeId) : undefined;
+      const yieldQuantity = parseFloat(subRecipe?.yieldQuantity ?? "0");
+      if (subRecipe?.yieldUnit && yieldQuantity > 0) {
+        try {
+          const subBatches = convertQuantity(quantity, line.unit ?? subRecipe.yieldUnit, subRecipe.yieldUnit) / yieldQuantity;
+          this.addRecipeUsage(subRecipe.id, subBatches * batches, context, usage, depth + 1);
+        } catch (error) {
+          if (!(error instanceof UnitConversionError)) throw error;
+        }
+      }
+    }
+  }
+
+  // Adds what a sold line's modifier options change about its ingredient usage. Added
+  // ingredients count in full; a removal (a negative delta, e.g. "no cheese") only takes
+  // back what the product's own recipe uses of that ingredient, and never more.
+  private addModifierUsage(
+    item: { quantity: number; modifiers?: Array<{ optionId: number }> },
+    product: Product | undefined,
+    optionMap: Map<number, ModifierOption>,
+    context: RecipeCostContext,
+    usage: Map<number, number>
+  ): void {
+    const removed = new Map<number, number>();
+    (item.modifiers ?? []).forEach(modifier => {
+      optionMap.get(modifier.optionId)?.ingredientDeltas.forEach(delta => {
+        if (delta.quantity > 0) {
+          usage.set(delta.ingredientId, (usage.get(delta.ingredientId) || 0) + delta.quantity * item.quantity);
+        } else if (delta.quantity < 0) {
+          removed.set(delta.ingredientId, (removed.get(delta.ingredientId) || 0) - delta.quantity);
+        }
+      });
+    });
+
+    const recipe = product?.recipeId ? context.recipeMap.get(product.recipeId) : undefined;
+    if (removed.size === 0 || !product || !recipe || recipe.servings <= 0) return;
+    const perItem = new Map<number, number>();
+    this.addRecipeUsage(recipe.id, parseFloat(product.recipePortions ?? "1") / recipe.servings, context, perItem);
+    removed.forEach((quantity, ingredientId) => {
+      const taken = Math.min(quantity, perItem.get(ingredientId) || 0) * item.quantity;
+      if (taken > 0) usage.set(ingredientId, (usage.get(ingredientId) || 0) - taken);
+    });
+  }
+
+  private async loadRecipeCostContext(): Promise<RecipeCostContext> {
+    const recipesArray = await db.select().from(recipes);
+    const lines = await db.select().from(recipeIngredients).orderBy(recipeIngredients.id);
+    const ingredientsArray = await db.select().from(ingredients);
+
+    const linesByRecipe = new Map<number, RecipeIngredient[]>();
+    lines.forEach(line => {
+      linesByRecipe.set(line.recipeId, [...(linesByRecipe.get(line.recipeId) || []), line]);
+    });
+
+    return {
+      recipeMap: new Map(recipesArray.map(recipe => [recipe.id, recipe])),
+      linesByRecipe,
+      ingredientMap: new Map(ingredientsArray.map(ingredient => [ingredient.id, ingredient])),
+      rawTotals: new Map(),
+      rawAsPurchasedTotals: new Map(),
+      rawNutritionTotals: new Map(),
+      results: new Map(),
+      inProgress: new Set()
+    };
+  }
+
+  private calculateRecipeCost(recipe: Recipe, context: RecipeCostContext): RecipeWithDetails {
+    const cached = context.results.get(recipe.id);
+    if (cached) return cached;
+
+    context.inProgress.add(recipe.id);
+
+    const ingredientDetails = [];
+    const subRecipeDetails = [];
+    const warnings: string[] = [];
+    let rawTotal = 0;
+    let rawAsPurchased = 0;
+    const nutrition = emptyNutrition();
+    let nutritionComplete = true;
+
+    for (const line of context.linesByRecipe.get(recipe.id) || []) {
+      const quantity = parseFloat(line.quantity);
+
+      const ingredient = line.ingredientId !== null ? context.ingredientMap.get(line.ingredientId) : undefined;
+      if (ingredient) {
+        const unit = line.unit ?? ingredient.unit;
+        const yieldPercentage = parseFloat(line.yieldPercentage ?? ingredient.yieldPercentage);
+        let asPurchasedCost = 0;
+        try {
+          // Price is per purchase unit, so express the line quantity in that unit first
+          const purchaseQuantity = convertQuantity(quantity, unit, ingredient.unit, getConversionProfile(ingredient));
+          asPurchasedCost = parseFloat(ingredient.costPerUnit) * purchaseQuantity;
+        } catch (error) {
+          if (!(error instanceof UnitConversionError)) throw error;
+          warnings.push(`${ingredient.name}: ${error.message}`);
+        }
+        // The line lists the usable quantity, so more has to be bought to cover trim loss
+        const cost = yieldPercentage > 0 ? asPurchasedCost / (yieldPercentage / 100) : asPurchasedCost;
+        rawTotal += cost;
+        rawAsPurchased += asPurchasedCost;
+
+        // Nutrition follows the edible quantity the line lists, not what is bought
+        if (ingredient.nutritionPer100) {
+          try {
+            const basisUnit = getNutritionBasisUnit(ingredient.unit);
+            const basisQuantity = convertQuantity(quantity, unit, basisUnit, getConversionProfile(ingredient));
+            addNutrition(nutrition, ingredient.nutritionPer100, basisQuantity / 100);
+          } catch (error) {
+            if (!(error instanceof UnitConversionError)) throw error;
+            nutritionComplete = false;
+          }
+        } else {
+          nutritionComplete = false;
+        }
+
+        ingredientDetails.push({
+          ingredient,
+          quantity,
+          unit,
+          yieldPercentage,
+          asPurchasedQuantity: yieldPercentage > 0 ? quantity / (yieldPercentage / 100) : quantity,
+          asPurchasedCost: roundCurrency(asPurchasedCost),
+          cost: roundCurrency(cost)
+        });
+      }
+
+      const subRecipe = line.subRecipeId !== null ? context.recipeMap.get(line.subRecipeId) : undefined;
+      if (subRecipe) {
+        const unit = line.unit ?? subRecipe.yieldUnit ?? "";
+        let cost = 0;
+        let asPurchasedCost = 0;
+        if (context.inProgress.has(subRecipe.id)) {
+          warnings.push(`${subRecipe.name}: circular prep item reference`);
+        } else {
+          this.calculateRecipeCost(subRecipe, context);
+          warnings.push(...(context.results.get(subRecipe.id)?.warnings || []).map(warning => `${subRecipe.name} > ${warning}`));
+          const yieldQuantity = parseFloat(subRecipe.yieldQuantity ?? "0");
+          try {
+            if (!subRecipe.yieldUnit || !(yieldQuantity > 0)) {
+              throw new UnitConversionError("prep item has no yield");
+            }
+            const batches = convertQuantity(quantity, unit, subRecipe.yieldUnit) / yieldQuantity;
+            cost = context.rawTotals.get(subRecipe.id)! * batches;
+            asPurchasedCost = context.rawAsPurchasedTotals.get(subRecipe.id)! * batches;
+            addNutrition(nutrition, context.rawNutritionTotals.get(subRecipe.id)!, batches);
+            nutritionComplete = nutritionComplete && context.results.get(subRecipe.id)!.nutritionComplete;
+          } catch (error) {
+            if (!(error instanceof UnitConversionError)) throw error;
+            warnings.push(`${subRecipe.name}: ${error.message}`);
+            nutritionComplete = false;
+          }
+        }
+        rawTotal += cost;
+        rawAsPurchased += asPurchasedCost;
+        subRecipeDetails.push({
+          recipe: subRecipe,
+          quantity,
+          unit,
+          cost: roundCurrency(cost)
+        });
+      }
+    }
+
+    const totalCost = roundCurrency(rawTotal);
+    const costPerServing = recipe.servings > 0 ? roundCurrency(rawTotal / recipe.servings) : 0;
+    const yieldQuantity = parseFloat(recipe.yieldQuantity ?? "0");
+    const costPerYieldUnit = recipe.isPrepItem && yieldQuantity > 0
+      ? Math.round((rawTotal / yieldQuantity) * 10000) / 10000
+      : null;
+
+    // Allergens and dietary flags are inherited from every ingredient and prep item used
+    const parts = [
+      ...ingredientDetails.map(detail => detail.ingredient),
+      ...subRecipeDetails.map(detail => context.results.get(detail.recipe.id)).filter(part => part !== undefined)
+    ];
+    const allergens = unionAllergens(parts.map(part => part.allergens));
+    const dietaryFlags = intersectDietaryFlags(parts.map(part => part.dietaryFlags));
+
+    const result = {
+      ...recipe,
+      ingredientDetails,
+      subRecipeDetails,
+      totalCost,
+      costPerServing,
+      asPurchasedCost: roundCurrency(rawAsPurchased),
+      trimLossCost: roundCurrency(rawTotal - rawAsPurchased),
+      costPerYieldUnit,
+      allergens,
+      dietaryFlags,
+      nutritionTotal: roundNutrition(nutrition),
+      nutritionPerServing: roundNutrition(scaleNutrition(nutrition, recipe.servings > 0 ? 1 / recipe.servings : 0)),
+      nutritionComplete,
+      warnings
+    };
+
+    context.inProgress.delete(recipe.id);
+    context.rawTotals.set(recipe.id, rawTotal);
+    context.rawAsPurchasedTotals.set(recipe.id, rawAsPurchased);
+    context.rawNutritionTotals.set(recipe.id, nutrition);
+    context.results.set(recipe.id, result);
+    return result;
+  }
+
+  // Cost History methods
+  async getCostHistory(productId?: number, ingredientId?: number): Promise<CostHistory[]> {
+    if (productId) {
+      return await db.select().from(costHistory)
+        .where(eq(costHistory.productId, productId))
+        .orderBy(desc(costHistory.updatedAt));
+    }
+    if (ingredientId) {
+      return await db.select().from(costHistory)
+        .where(eq(costHistory.ingredientId, ingredientId))
+        .orderBy(desc(costHistory.updatedAt));
+    }
+    return await db.select().from(costHistory).orderBy(desc(costHistory.updatedAt));
+  }
+
+  async createCostHistory(insertHistory: InsertCostHistory): Promise<CostHistory> {
+    const historyData = {
+      ...insertHistory,
+      oldCost: insertHistory.oldCost.toString(),
+      newCost: insertHistory.newCost.toString()
+    };
+    const result = await db.insert(costHistory).values(historyData).returning();
+    return result[0];
+  }
+
+  // Stock control methods
+  async getStockCounts(ingredientId?: number): Promise<StockCount[]> {
+    if (ingredientId) {
+      return await db.select().from(stockCounts)
+        .where(eq(stockCounts.ingredientId, ingredientId))
+        .orderBy(desc(stockCounts.countedAt));
+    }
+    return await db.select().from(stockCounts).orderBy(desc(stockCounts.countedAt));
+  }
+
+  async createStockCount(insertCount: InsertStockCount): Promise<StockCount> {
+    return await db.transaction(async (tx) => {
+      const [count] = await tx.insert(stockCounts).values({
+        ...insertCount,
+        quantity: insertCount.quantity.toString()
+      }).returning();
+
+      // A count is the truth about what was on hand when it was taken, unless a later
+      // count already exists. Stock has moved since a back-dated count, so only the
+      // difference from what the books said at that time is applied. Movements are placed
+      // by when they happened, so a back-dated purchase entered later is not taken off twice.
+      const [latest] = await tx.select().from(stockCounts)
+        .where(eq(stockCounts.ingredientId, count.ingredientId))
+        .orderBy(desc(stockCounts.countedAt), desc(stockCounts.id))
+        .limit(1);
+      if (latest.id === count.id) {
+        const [ingredient] = await tx.select().from(ingredients)
+          .where(eq(ingredients.id, count.ingredientId))
+          .for("update");
+        const [since] = await tx.select({ quantity: sql<string>`coalesce(sum(${ingredientStockMovements.quantity}), 0)` })
+          .from(ingredientStockMovements)
+          .where(and(
+            eq(ingredientStockMovements.ingredientId, count.ingredientId),
+            gt(ingredientStockMovements.occurredAt, count.countedAt)
+          ));
+        const stockAtCount = parseFloat(ingredient.stockQuantity) - parseFloat(since.quantity);
+        const difference = insertCount.quantity - stockAtCount;
+        if (difference !== 0) {
+          await this.adjustIngredientStock(tx, count.ingredientId, difference, "count", { occurredAt: count.countedAt });
+        }
+      }
+      return count;
+    });
+  }
+
+  async getIngredientPurchases(ingredientId?: number): Promise<IngredientPurchase[]> {
+    if (ingredientId) {
+      return await db.select().from(ingredientPurchases)
+        .where(eq(ingredientPurchases.ingredientId, ingredientId))
+        .orderBy(desc(ingredientPurchases.purchasedAt));
+    }
+    return await db.select().from(ingredientPurchases).orderBy(desc(ingredientPurchases.purchasedAt));
+  }
+
+  async createIngredientPurchase(insertPurchase: InsertIngredientPurchase): Promise<IngredientPurchase> {
+    return await db.transaction(async (tx) => {
+      const [purchase] = await tx.insert(ingredientPurchases).values({
+        ...insertPurchase,
+        quantity: insertPurchase.quantity.toString(),
+        unitCost: insertPurchase.unitCost.toString()
+      }).returning();
+      await this.adjustIngredientStock(tx, purchase.ingredientId, insertPurchase.quantity, "purchase", { occurredAt: purchase.purchasedAt });
+      return purchase;
+    });
+  }
+
+  async getFoodCostVariance(from: Date, to: Date): Promise<FoodCostVarianceReport> {
+    const ingredientsArray = await db.select().from(ingredients);
+    const productsArray = await db.select().from(products);
+    const salesArray = await db.select().from(sales)
+      .where(and(gte(sales.createdAt, from), lte(sales.createdAt, to)));
+    const purchasesArray = await db.select().from(ingredientPurchases)
+      .where(and(gt(ingredientPurchases.purchasedAt, from), lte(ingredientPurchases.purchasedAt, to)));
+    const countsArray = await db.select().from(stockCounts)
+      .where(lte(stockCounts.countedAt, to))
+      .orderBy(desc(stockCounts.countedAt));
+
+    // What the recipes and modifiers say should have been used for everything sold,
+    // bundles by their components
+    const context = await this.loadRecipeCostContext();
+    const optionMap = new Map((await db.select().from(modifierOptions)).map(option => [option.id, option]));
+    const productMap = new Map(productsArray.map(product => [product.id, product]));
+    const theoretical = new Map<number, number>();
+    // Refunded food that was not put back was still used, so only restocked offsets count
+    salesArray.filter(sale => sale.type === "sale" || sale.stockRestored).forEach(sale => {
+      (sale.items as SaleItem[]).forEach(item => {
+        this.addModifierUsage(item, productMap.get(item.productId), optionMap, context, theoretical);
+        stockLines([item]).filter(line => !line.bundle).forEach(line => {
+          const product = productMap.get(line.productId);
+          const recipe = product?.recipeId ? context.recipeMap.get(product.recipeId) : undefined;
+          if (!product || !recipe || recipe.servings <= 0) return;
+          const batches = (parseFloat(product.recipePortions ?? "1") * line.quantity) / recipe.servings;
+          this.addRecipeUsage(recipe.id, batches, context, theoretical);
+        });
+      });
+    });
+
+    const purchased = new Map<number, number>();
+    purchasesArray.forEach(purchase => {
+      purchased.set(purchase.ingredientId, (purchased.get(purchase.ingredientId) || 0) + parseFloat(purchase.quantity));
+    });
+
+    // Counts are newest first, so the first match is the most recent one
+    const latestCount = (ingredientId: number, at: Date) =>
+      countsArray.find(count => count.ingredientId === ingredientId && count.countedAt <= at);
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    let theoreticalCost = 0;
+    let actualCost = 0;
+    let uncountedIngredients = 0;
+
+    const items = ingredientsArray.map(ingredient => {
+      const costPerUnit = parseFloat(ingredient.costPerUnit);
+      const theoreticalUsage = theoretical.get(ingredient.id) || 0;
+      const purchases = purchased.get(ingredient.id) || 0;
+      const opening = latestCount(ingredient.id, from);
+      const closing = latestCount(ingredient.id, to);
+      theoreticalCost += theoreticalUsage * costPerUnit;
+
+      if (!opening || !closing || closing.id === opening.id) {
+        uncountedIngredients++;
+        return {
+          ingredientId: ingredient.id,
+          name: ingredient.name,
+          unit: ingredient.unit,
+          costPerUnit,
+          openingStock: opening ? parseFloat(opening.quantity) : null,
+          purchases: round(purchases),
+          closingStock: null,
+          actualUsage: null,
+          theoreticalUsage: round(theoreticalUsage),
+          varianceQuantity: null,
+          varianceCost: null,
+          variancePercentage: null
+        };
+      }
+
+      const openingStock = parseFloat(opening.quantity);
+      const closingStock = parseFloat(closing.quantity);
+      const actualUsage = openingStock + purchases - closingStock;
+      const varianceQuantity = actualUsage - theoreticalUsage;
+      actualCost += actualUsage * costPerUnit;
+
+      return {
+        ingredientId: ingredient.id,
+        name: ingredient.name,
+        unit: ingredient.unit,
+        costPerUnit,
+        openingStock,
+        purchases: round(purchases),
+        closingStock,
+        actualUsage: round(actualUsage),
+        theoreticalUsage: round(theoreticalUsage),
+        varianceQuantity: round(varianceQuantity),
+        varianceCost: roundCurrency(varianceQuantity * costPerUnit),
+        variancePercentage: theoreticalUsage > 0 ? Math.round((varianceQuantity / theoreticalUsage) * 1000) / 10 : null
+      };
+    });
+
+    // Largest losses first; uncounted ingredients go last
+    items.sort((a, b) => (b.varianceCost ?? -Infinity) - (a.varianceCost ?? -Infinity));
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      theoreticalCost: roundCurrency(theoreticalCost),
+      actualCost: roundCurrency(actualCost),
+      varianceCost: roundCurrency(items.reduce((sum, item) => sum + (item.varianceCost ?? 0), 0)),
+      uncountedIngredients,
+      items
+    };
+  }
+
+  // Analytics methods
+  async getSalesAnalytics(days: number = 30): Promise<SalesAnalytics> {
+    const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const salesArray = await db.select().from(sales)
+      .where(gte(sales.createdAt, cutoffDate))
+      .orderBy(desc(sales.createdAt));
+
+    const salesWithDetails = [];
+    for (const sale of salesArray) {
+      const saleWithDetails = await this.getSaleWithDetails(sale.id);
+      if (saleWithDetails) {
+        salesWithDetails.push(saleWithDetails);
+      }
+    }
+
+    // Refunds and voids are negative, so totals are net. Refunded items that were not
+    // put back into stock still cost what they cost.
+    const saleProfit = (sale: SaleWithDetails) => sale.itemDetails.reduce((itemSum, item) => {
+      const itemCost = sale.type === "sale" || sale.stockRestored ? item.unitCost * item.quantity : 0;
+      const itemRevenue = item.total - item.discount;
+      return itemSum + (itemRevenue - itemCost);
+    }, 0);
+
+    const totalSales = salesWithDetails.reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
+    const totalProfit = salesWithDetails.reduce((sum, sale) => sum + saleProfit(sale), 0);
+    const totalRefunds = -salesWithDetails
+      .filter(sale => sale.type !== "sale")
+      .reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
+
+    // A voided sale is not an order
+    const orderCount = salesWithDetails.filter(sale => sale.type === "sale").length
+      - salesWithDetails.filter(sale => sale.type === "void").length;
+    const averageOrderValue = orderCount > 0 ? totalSales / orderCount : 0;
+
+    // Per cover: sales that recorded their guests, with the refunds and voids against them
+    const coveredSales = new Map(salesWithDetails
+      .filter(sale => sale.type === "sale" && sale.covers)
+      .map(sale => [sale.id, sale.covers!]));
+    const coveredTakings = salesWithDetails
+      .filter(sale => coveredSales.has(sale.type === "sale" ? sale.id : sale.originalSaleId ?? -1))
+      .reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
+    const totalCovers = Array.from(coveredSales.values()).reduce((sum, covers) => sum + covers, 0)
+      - salesWithDetails
+        .filter(sale => sale.type === "void" && sale.originalSaleId !== null)
+        .reduce((sum, sale) => sum + (coveredSales.get(sale.originalSaleId!) ?? 0), 0);
+    const spendPerCover = totalCovers > 0 ? roundCurrency(coveredTakings / totalCovers) : 0;
+
+    // Bundles count as the products they were made of, each with its share of the revenue
+    const soldProducts = salesWithDetails.flatMap(sale => sale.itemDetails.flatMap(item => item.components.length > 0
+      ? item.components
+      : [{ product: item.product, quantity: item.quantity, revenue: item.total - item.discount }]));
+
+    // Top selling products
+    const productSales = new Map<number, { product: Product; totalSold: number; revenue: number }>();
+    soldProducts.forEach(item => {
+      const existing = productSales.get(item.product.id);
+      if (existing) {
+        existing.totalSold += item.quantity;
+        existing.revenue += item.revenue;
+      } else {
+        productSales.set(item.product.id, {
+          product: item.product,
+          totalSold: item.quantity,
+          revenue: item.revenue
+        });
+      }
+    });
+
+    const topSellingProducts = Array.from(productSales.values())
+      .sort((a, b) => b.totalSold - a.totalSold)
+      .slice(0, 5);
+
+    // Sales by category
+    const salesByCategory: Record<string, number> = {};
+    soldProducts.forEach(item => {
+      const category = item.product.category;
+      salesByCategory[category] = (salesByCategory[category] || 0) + item.revenue;
+    });
+
+    // Sales trend (last 7 days)
+    const salesTrend = [];
+    for (let i = 6; i >= 0; i--) {
+      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
+      const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+      
+      const daySales = salesWithDetails.filter(sale => {
+        const saleDate = sale.createdAt ? new Date(sale.createdAt) : new Date();
+        return saleDate >= dayStart && saleDate < dayEnd;
+      });
+      
+      const dayRevenue = daySales.reduce((sum, sale) => sum + parseFloat(sale.totalAmount), 0);
+      const dayProfit = daySales.reduce((sum, sale) => sum + saleProfit(sale), 0);
+
+      salesTrend.push({
+        date: dayStart.toISOString().split('T')[0],
+        sales: dayRevenue,
+        profit: dayProfit
+      });
+    }
+
+    return {
+      totalSales,
+      totalProfit,
+      averageOrderValue,
+      totalRefunds: roundCurrency(totalRefunds),
+      totalCovers,
+      spendPerCover,
+      topSellingProducts,
+      salesByCategory,
+      salesTrend
+    };
+  }
+
+  async getMenuEngineering(days: number = 30): Promise<MenuEngineeringReport> {
+    const cutoffDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const salesArray = await db.select().from(sales).where(gte(sales.createdAt, cutoffDate));
+    const productsWithMargin = await this.getProductsWithMargin();
+
+    // Bundles count as the products they were made of, as in the sales analytics
+    const unitsSold = new Map<number, number>();
+    salesArray.forEach(sale => {
+      stockLines(sale.items as SaleItem[]).filter(line => !line.bundle).forEach(line => {
+        unitsSold.set(line.productId, (unitsSold.get(line.productId) || 0) + line.quantity);
+      });
+    });
+
+    // Only what is on the menu is classified, and only what sold sets the averages, so
+    // retired or unsold items do not move the thresholds
+    const menuProducts = productsWithMargin.filter(product => product.isActive !== false && !isBundle(product));
+    const soldProducts = menuProducts.filter(product => (unitsSold.get(product.id) || 0) > 0);
+    const totalUnitsSold = soldProducts.reduce((sum, product) => sum + (unitsSold.get(product.id) || 0), 0);
+    const totalContribution = soldProducts.reduce(
+      (sum, product) => sum + product.margin * (unitsSold.get(product.id) || 0), 0
+    );
+    // Weighted by what actually sold
+    const averageContributionMargin = totalUnitsSold > 0 ? totalContribution / totalUnitsSold : 0;
+    const popularityThreshold = soldProducts.length > 0
+      ? (totalUnitsSold / soldProducts.length) * 0.7
+      : 0;
+
+    const items = menuProducts.map(product => {
+      const sold = Math.max(unitsSold.get(product.id) || 0, 0);
+      const popular = sold > 0 && sold >= popularityThreshold;
+      const profitable = product.margin >= averageContributionMargin;
+      return {
+        productId: product.id,
+        name: product.name,
+        category: product.category,
+        unitsSold: sold,
+        menuMixPercentage: totalUnitsSold > 0 ? Math.round((sold / totalUnitsSold) * 10000) / 100 : 0,
+        price: parseFloat(product.price),
+        cost: parseFloat(product.cost),
+        contributionMargin: roundCurrency(product.margin),
+        totalContribution: roundCurrency(product.margin * sold),
+        classification: popular
+          ? (profitable ? "star" as const : "plowhorse" as const)
+          : (profitable ? "puzzle" as const : "dog" as const)
+      };
+    });
+
+    return {
+      days,
+      totalUnitsSold,
+      popularityThreshold: Math.round(popularityThreshold * 100) / 100,
+      averageContributionMargin: roundCurrency(averageContributionMargin),
+      items: items.sort((a, b) => b.totalContribution - a.totalContribution)
+    };
+  }
+
+  async getSummary(targetFoodCostPercentage: number): Promise<SummaryData> {
+    const ingredientsArray = await this.getIngredients();
+    // Prep items are costed inside the dishes that use them, not sold on their own
+    const recipesWithDetails = (await this.getRecipesWithDetails()).filter(recipe => !recipe.isPrepItem);
+
+    const totalInvestment = recipesWithDetails.reduce((sum, recipe) => sum + recipe.totalCost, 0);
+    const averageCost = recipesWithDetails.length > 0 ? totalInvestment / recipesWithDetails.length : 0;
+
+    const categoryBreakdown: Record<string, number> = {};
+    recipesWithDetails.forEach(recipe => {
+      categoryBreakdown[recipe.category] = roundCurrency((categoryBreakdown[recipe.category] || 0) + recipe.totalCost);
+    });
+
+    // Price each serving so that its cost is the target share of the selling price
+    const recipesSummary = recipesWithDetails.map(recipe => ({
+      id: recipe.id,
+      name: recipe.name,
+      category: recipe.category,
+      servings: recipe.servings,
+      totalCost: recipe.totalCost.toFixed(2),
+      costPerServing: recipe.costPerServing.toFixed(2),
+      suggestedPrice: (recipe.costPerServing / (targetFoodCostPercentage / 100)).toFixed(2)
+    }));
+
+    return {
+      totalIngredients: ingredientsArray.length,
+      totalRecipes: recipesWithDetails.length,
+      averageCost: averageCost.toFixed(2),
+      totalInvestment: totalInvestment.toFixed(2),
+      targetFoodCostPercentage,
+      categoryBreakdown,
+      recipes: recipesSummary
     };
   }
 }
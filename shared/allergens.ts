@@ -0,0 +1,45 @@
+// The 14 major allergens that must be declared on food sold to the public,
+// plus dietary suitability flags. Recipes and linked products inherit these
+// from their ingredients.
+
+export const ALLERGENS = [
+  { key: "celery", label: "Celery" },
+  { key: "gluten", label: "Cereals containing gluten" },
+  { key: "crustaceans", label: "Crustaceans" },
+  { key: "eggs", label: "Eggs" },
+  { key: "fish", label: "Fish" },
+  { key: "lupin", label: "Lupin" },
+  { key: "milk", label: "Milk" },
+  { key: "molluscs", label: "Molluscs" },
+  { key: "mustard", label: "Mustard" },
+  { key: "nuts", label: "Tree nuts" },
+  { key: "peanuts", label: "Peanuts" },
+  { key: "sesame", label: "Sesame" },
+  { key: "soya", label: "Soya" },
+  { key: "sulphites", label: "Sulphur dioxide and sulphites" },
+] as const;
+
+export const DIETARY_FLAGS = [
+  { key: "vegan", label: "Vegan" },
+  { key: "vegetarian", label: "Vegetarian" },
+  { key: "gluten_free", label: "Gluten-free" },
+  { key: "halal", label: "Halal" },
+] as const;
+
+export type Allergen = typeof ALLERGENS[number]["key"];
+export type DietaryFlag = typeof DIETARY_FLAGS[number]["key"];
+
+export const ALLERGEN_KEYS = ALLERGENS.map(allergen => allergen.key) as [Allergen, ...Allergen[]];
+export const DIETARY_FLAG_KEYS = DIETARY_FLAGS.map(flag => flag.key) as [DietaryFlag, ...DietaryFlag[]];
+
+// A dish contains every allergen of any of its parts
+export function unionAllergens(sets: Allergen[][]): Allergen[] {
+  const present = new Set(sets.flat());
+  return ALLERGEN_KEYS.filter(key => present.has(key));
+}
+
+// A dish is only vegan, halal, etc. when every one of its parts is
+export function intersectDietaryFlags(sets: DietaryFlag[][]): DietaryFlag[] {
+  if (sets.length === 0) return [];
+  return DIETARY_FLAG_KEYS.filter(key => sets.every(flags => flags.includes(key)));
+}
@@ -0,0 +1,92 @@
+// Bundles (meal deals). A bundle is rung up and priced as one line but is made of one
+// product per slot: those products are what leave stock, and they share its revenue.
+import type { BundleSlot, SaleItem, SaleItemComponent } from "./schema";
+import { PricingError, roundMoney, type PricingProduct } from "./pricing";
+
+export const isBundle = (product: { bundleSlots?: BundleSlot[] }) => (product.bundleSlots ?? []).length > 0;
+
+// The product chosen for each of a bundle's slots, with the slot's upcharge for it. A
+// slot with a single choice does not need to be answered.
+export function resolveBundle(
+  product: PricingProduct,
+  choices: number[],
+  catalogue: Map<number, PricingProduct>
+): Array<Omit<SaleItemComponent, "price">> {
+  const slots = product.bundleSlots ?? [];
+  const productName = product.name ?? `Product ${product.id}`;
+  if (choices.length > slots.length) {
+    throw new PricingError(`${productName} takes ${slots.length} choices, not ${choices.length}`);
+  }
+
+  return slots.map((slot, index) => {
+    const productId = choices[index] ?? (slot.choices.length === 1 ? slot.choices[0].productId : undefined);
+    if (productId === undefined) throw new PricingError(`${productName}: choose a ${slot.name.toLowerCase()}`);
+    const choice = slot.choices.find(candidate => candidate.productId === productId);
+    const component = catalogue.get(productId);
+    if (!choice || !component) {
+      throw new PricingError(`Product ${productId} is not available as the ${slot.name.toLowerCase()} of ${productName}`);
+    }
+    return {
+      slot: slot.name,
+      productId,
+      name: component.name ?? `Product ${productId}`,
+      quantity: slot.quantity,
+      upcharge: roundMoney(choice.upcharge)
+    };
+  });
+}
+
+// Shares one bundle's price out over its components. Each keeps its upcharge and the
+// rest goes by what the components sell for on their own; the last takes the remainder.
+export function allocateBundlePrice(
+  components: Array<Omit<SaleItemComponent, "price">>,
+  price: number,
+  catalogue: Map<number, PricingProduct>
+): SaleItemComponent[] {
+  const weights = components.map(component => Number(catalogue.get(component.productId)?.price ?? 0) * component.quantity);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const base = roundMoney(price - components.reduce((sum, component) => sum + component.upcharge, 0));
+
+  let left = base;
+  return components.map((component, index) => {
+    const share = index === components.length - 1
+      ? left
+      : roundMoney(totalWeight > 0 ? base * (weights[index] / totalWeight) : base / components.length);
+    left = roundMoney(left - share);
+    return { ...component, price: roundMoney(share + component.upcharge) };
+  });
+}
+
+// Shares an amount from a bundle line, such as its revenue, over its components by
+// their prices, so the shares add up to exactly the amount
+export function allocateToComponents(item: Pick<SaleItem, "components">, amount: number): number[] {
+  const components = item.components ?? [];
+  const totalPrice = components.reduce((sum, component) => sum + component.price, 0);
+  let left = amount;
+  return components.map((component, index) => {
+    const share = index === components.length - 1
+      ? left
+      : roundMoney(totalPrice !== 0 ? amount * (component.price / totalPrice) : amount / components.length);
+    left = roundMoney(left - share);
+    return share;
+  });
+}
+
+// What a sale's lines take from stock: each line's own product and the components of
+// bundles. Bundle lines are kept, marked, since their modifiers can still use ingredients.
+export function stockLines(
+  items: Array<Pick<SaleItem, "productId" | "quantity" | "components">>
+): Array<{ productId: number; quantity: number; bundle: boolean }> {
+  return items.flatMap(item => [
+    { productId: item.productId, quantity: item.quantity, bundle: (item.components ?? []).length > 0 },
+    ...(item.components ?? []).map(component => ({
+      productId: component.productId,
+      quantity: item.quantity * component.quantity,
+      bundle: false
+    }))
+  ]);
+}
+
+// "Ham sandwich, Cola, Muffin"
+export const describeComponents = (components: Array<{ name: string }> | undefined) =>
+  (components ?? []).map(component => component.name).join(", ");
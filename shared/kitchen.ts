@@ -0,0 +1,32 @@
+// Kitchen display: courses, and what of an order the kitchen has still to see
+import { COURSES, type KitchenTicket, type OrderLine } from "./schema";
+
+export const courseLabel = (course: number) => COURSES[course - 1] ?? `Course ${course}`;
+
+const lineKey = (line: OrderLine) => [
+  line.productId,
+  (line.bundleChoices ?? []).join(","),
+  [...(line.modifierIds ?? [])].sort((a, b) => a - b).join(","),
+  line.note ?? "",
+  line.course ?? 1
+].join(":");
+
+// An order's lines less what was already sent. Lines are matched by product, choices,
+// options, note and course, so merging or reordering lines at the till resends nothing.
+export function unsentLines(items: OrderLine[], sent: OrderLine[]): OrderLine[] {
+  const sentQuantities = new Map<string, number>();
+  sent.forEach(line => sentQuantities.set(lineKey(line), (sentQuantities.get(lineKey(line)) ?? 0) + line.quantity));
+
+  return items.flatMap(line => {
+    const key = lineKey(line);
+    const alreadySent = Math.min(sentQuantities.get(key) ?? 0, line.quantity);
+    sentQuantities.set(key, (sentQuantities.get(key) ?? 0) - alreadySent);
+    return line.quantity > alreadySent ? [{ ...line, quantity: line.quantity - alreadySent }] : [];
+  });
+}
+
+// Seconds from firing to bumping, or to now for a ticket still being made
+export const ticketSeconds = (ticket: Pick<KitchenTicket, "firedAt" | "bumpedAt">, now: number = Date.now()) =>
+  ticket.firedAt
+    ? Math.max(Math.floor(((ticket.bumpedAt ? new Date(ticket.bumpedAt).getTime() : now) - new Date(ticket.firedAt).getTime()) / 1000), 0)
+    : 0;
@@ -0,0 +1,66 @@
+// Modifier selection. Works out which options a line was rung up with and checks them
+// against the product's groups; priceSale adds their price deltas to the line.
+import type { ModifierGroupWithOptions, SaleItemModifier } from "./schema";
+import { PricingError, roundMoney } from "./pricing";
+
+export function describeSelectionRule(group: { minSelections: number; maxSelections: number | null }): string {
+  const { minSelections: min, maxSelections: max } = group;
+  if (min === 0) return max === null ? "Optional" : `Optional, up to ${max}`;
+  if (max === min) return min === 1 ? "Required" : `Choose ${min}`;
+  return max === null ? `Choose at least ${min}` : `Choose ${min} to ${max}`;
+}
+
+// Why a selection does not satisfy a group, if it does not
+export function checkGroupSelection(group: ModifierGroupWithOptions, count: number): string | undefined {
+  if (count < group.minSelections) {
+    return group.minSelections === 1
+      ? `Choose a ${group.name.toLowerCase()}`
+      : `Choose at least ${group.minSelections} ${group.name.toLowerCase()}`;
+  }
+  if (group.maxSelections !== null && count > group.maxSelections) {
+    return `Choose at most ${group.maxSelections} ${group.name.toLowerCase()}`;
+  }
+  return undefined;
+}
+
+// The chosen options for a product, in the order its groups are asked. Options must
+// be active and belong to one of the product's groups, and every group's minimum and
+// maximum must be met.
+export function resolveModifiers(
+  product: { id: number; name?: string; modifierGroupIds?: number[] },
+  optionIds: number[],
+  groups: Map<number, ModifierGroupWithOptions>
+): SaleItemModifier[] {
+  const productGroups = (product.modifierGroupIds ?? [])
+    .map(groupId => groups.get(groupId))
+    .filter((group): group is ModifierGroupWithOptions => group !== undefined);
+  const productName = product.name ?? `Product ${product.id}`;
+
+  const chosen = optionIds.map(optionId => {
+    for (const group of productGroups) {
+      const option = group.options.find(candidate => candidate.id === optionId && candidate.isActive);
+      if (option) return { group, option };
+    }
+    throw new PricingError(`Option ${optionId} is not available on ${productName}`);
+  });
+
+  const modifiers: SaleItemModifier[] = [];
+  for (const group of productGroups) {
+    const picked = chosen.filter(entry => entry.group.id === group.id);
+    const problem = checkGroupSelection(group, picked.length);
+    if (problem) throw new PricingError(`${productName}: ${problem}`);
+    picked.forEach(({ option }) => modifiers.push({
+      optionId: option.id,
+      groupId: group.id,
+      groupName: group.name,
+      name: option.name,
+      priceDelta: roundMoney(parseFloat(option.priceDelta)),
+      costDelta: roundMoney(parseFloat(option.costDelta))
+    }));
+  }
+  return modifiers;
+}
+
+// "Large, Oat milk, Extra shot"
+export const describeModifiers = (modifiers: SaleItemModifier[] | undefined) =>
+  (modifiers ?? []).map(modifier => modifier.name).join(", ");
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { findUnit } from "./units";
+
+// Nutrients declared per 100 g (or 100 mL for liquids) on ingredients
+export const NUTRIENTS = [
+  { key: "energyKcal", label: "Energy", unit: "kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+  { key: "saturatedFat", label: "of which saturates", unit: "g" },
+  { key: "carbohydrate", label: "Carbohydrate", unit: "g" },
+  { key: "sugars", label: "of which sugars", unit: "g" },
+  { key: "fibre", label: "Fibre", unit: "g" },
+  { key: "salt", label: "Salt", unit: "g" },
+] as const;
+
+export type NutrientKey = typeof NUTRIENTS[number]["key"];
+export type NutritionValues = Record<NutrientKey, number>;
+
+export const nutritionValuesSchema = z.object({
+  energyKcal: z.number().min(0),
+  protein: z.number().min(0),
+  fat: z.number().min(0),
+  saturatedFat: z.number().min(0),
+  carbohydrate: z.number().min(0),
+  sugars: z.number().min(0),
+  fibre: z.number().min(0),
+  salt: z.number().min(0),
+});
+
+export function emptyNutrition(): NutritionValues {
+  return {
+    energyKcal: 0,
+    protein: 0,
+    fat: 0,
+    saturatedFat: 0,
+    carbohydrate: 0,
+    sugars: 0,
+    fibre: 0,
+    salt: 0,
+  };
+}
+
+// Adds factor × values into target, in place
+export function addNutrition(target: NutritionValues, values: NutritionValues, factor: number = 1): NutritionValues {
+  NUTRIENTS.forEach(({ key }) => {
+    target[key] += values[key] * factor;
+  });
+  return target;
+}
+
+export function scaleNutrition(values: NutritionValues, factor: number): NutritionValues {
+  return addNutrition(emptyNutrition(), values, factor);
+}
+
+export function roundNutrition(values: NutritionValues): NutritionValues {
+  const rounded = emptyNutrition();
+  NUTRIENTS.forEach(({ key }) => {
+    rounded[key] = key === "energyKcal" ? Math.round(values[key]) : Math.round(values[key] * 10) / 10;
+  });
+  return rounded;
+}
+
+// Liquids bought by volume are declared per 100 mL, everything else per 100 g
+export function getNutritionBasisUnit(purchaseUnit: string): "g" | "ml" {
+  return findUnit(purchaseUnit)?.dimension === "volume" ? "ml" : "g";
+}
@@ -0,0 +1,8 @@
+// Open orders: tabs and table orders kept on the server until they are paid
+import type { OpenOrder, OrderLine } from "./schema";
+
+// "Sam's tab", "Table 4", or the order number for one with neither
+export const openOrderLabel = (order: Pick<OpenOrder, "id" | "name" | "tableNumber">) =>
+  order.name ?? (order.tableNumber ? `Table ${order.tableNumber}` : `Order ${order.id}`);
+
+export const orderItemCount = (items: OrderLine[]) => items.reduce((sum, item) => sum + item.quantity, 0);
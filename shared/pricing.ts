@@ -0,0 +1,200 @@
+// Canonical sale pricing. The server prices every sale from the catalogue with this,
+// so a client can only ever preview totals, never set them.
+import type { AppliedPromotion, BundleSlot, ModifierGroupWithOptions, OrderType, Promotion, SaleItem, TaxBreakdownLine } from "./schema";
+import { applyPromotions } from "./promotions";
+import { resolveModifiers } from "./modifiers";
+import { allocateBundlePrice, resolveBundle } from "./bundles";
+
+export interface PricingProduct {
+  id: number;
+  name?: string;
+  price: string | number;
+  category?: string;
+  taxRateId?: number | null;
+  modifierGroupIds?: number[];
+  bundleSlots?: BundleSlot[];
+}
+
+// The tax a line is charged under; rate is a percentage
+export interface TaxRule {
+  id: number | null;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+}
+
+export interface TaxRateSettings {
+  id: number;
+  name: string;
+  dineInRate: string;
+  takeawayRate: string | null;
+  pricesIncludeTax: boolean;
+  isDefault: boolean;
+}
+
+export interface OrderDiscount {
+  type: "percentage" | "fixed";
+  value: number;
+}
+
+export interface PricingOptions {
+  taxRuleFor: (product: PricingProduct) => TaxRule | null; // null: untaxed
+  discount?: OrderDiscount | null; // keyed in at the till, on top of promotions
+  promotions?: Promotion[]; // those available right now; see isPromotionAvailable
+  modifierGroups?: Map<number, ModifierGroupWithOptions>;
+}
+
+export interface PricedSale {
+  items: SaleItem[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  promotions: AppliedPromotion[];
+  taxBreakdown: TaxBreakdownLine[];
+}
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Picks the rule for a product: its own rate, then its category's, then the default
+// rate, then the fallback. Takeaway orders use a rate's takeaway percentage if it has one.
+export function createTaxRuleResolver(
+  rates: TaxRateSettings[],
+  categoryRates: Array<{ category: string; taxRateId: number }>,
+  orderType: OrderType,
+  fallback: TaxRule | null = null
+): (product: PricingProduct) => TaxRule | null {
+  const rateMap = new Map(rates.map(rate => [rate.id, rate]));
+  const categoryMap = new Map(categoryRates.map(entry => [entry.category, entry.taxRateId]));
+  const defaultRate = rates.find(rate => rate.isDefault);
+
+  return (product) => {
+    const rate = (product.taxRateId != null ? rateMap.get(product.taxRateId) : undefined)
+      ?? (product.category !== undefined ? rateMap.get(categoryMap.get(product.category) ?? -1) : undefined)
+      ?? defaultRate;
+    if (!rate) return fallback;
+    const percentage = orderType === "takeaway" && rate.takeawayRate !== null ? rate.takeawayRate : rate.dineInRate;
+    return { id: rate.id, name: rate.name, rate: parseFloat(percentage), inclusive: rate.pricesIncludeTax };
+  };
+}
+
+// Lines are priced individually, modifiers and bundle upcharges included, and rounded.
+// Line promotions come off their lines; order promotions and the till discount are spread
+// over the lines by what is left of them. Each line is taxed on what remains: tax-exclusive lines add their tax to
+// the total, tax-inclusive lines already contain it.
+export function priceSale(
+  lines: Array<{ productId: number; quantity: number; modifierIds?: number[]; bundleChoices?: number[]; note?: string }>,
+  catalogue: Map<number, PricingProduct>,
+  options: PricingOptions
+): PricedSale {
+  const priced = lines.map(line => {
+    const product = catalogue.get(line.productId);
+    if (!product) throw new PricingError(`Unknown product: ${line.productId}`);
+    const modifiers = resolveModifiers(product, line.modifierIds ?? [], options.modifierGroups ?? new Map());
+    const components = resolveBundle(product, line.bundleChoices ?? [], catalogue);
+    const price = roundMoney(
+      Number(product.price)
+      + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+      + components.reduce((sum, component) => sum + component.upcharge, 0)
+    );
+    // Option prices come from the catalogue, but their discounts can still outweigh the product
+    if (price < 0) {
+      throw new PricingError(`${product.name ?? `Product ${product.id}`} cannot cost less than nothing with the options chosen`);
+    }
+    return {
+      productId: line.productId,
+      category: product.category,
+      quantity: line.quantity,
+      price,
+      total: roundMoney(price * line.quantity),
+      ...(modifiers.length > 0 ? { modifiers } : {}),
+      ...(components.length > 0 ? { components: allocateBundlePrice(components, price, catalogue) } : {}),
+      ...(line.note ? { note: line.note } : {}),
+      rule: options.taxRuleFor(product)
+    };
+  });
+
+  const subtotal = roundMoney(priced.reduce((sum, item) => sum + item.total, 0));
+  const promotionResult = applyPromotions(priced, options.promotions ?? [], subtotal);
+  const applied = [...promotionResult.applied];
+  const afterLines = priced.map((item, index) => roundMoney(item.total - promotionResult.lineDiscounts[index]));
+  const afterLinesTotal = roundMoney(afterLines.reduce((sum, amount) => sum + amount, 0));
+
+  const discount = options.discount;
+  const remaining = roundMoney(afterLinesTotal - promotionResult.orderDiscount);
+  const manualDiscount = !discount
+    ? 0
+    : roundMoney(Math.min(remaining, discount.type === "percentage" ? remaining * (discount.value / 100) : discount.value));
+  if (manualDiscount > 0) {
+    applied.push({ promotionId: null, name: "Discount", couponCode: null, amount: manualDiscount });
+  }
+  const orderDiscount = roundMoney(promotionResult.orderDiscount + manualDiscount);
+
+  // The last line takes the rounding remainder so line discounts add up exactly
+  let orderDiscountLeft = orderDiscount;
+  const breakdown = new Map<string, TaxBreakdownLine>();
+  let exclusiveTax = 0;
+  const items: SaleItem[] = priced.map(({ rule, category, ...line }, index) => {
+    const share = index === priced.length - 1 || afterLinesTotal === 0
+      ? orderDiscountLeft
+      : roundMoney(orderDiscount * (afterLines[index] / afterLinesTotal));
+    orderDiscountLeft = roundMoney(orderDiscountLeft - share);
+    const item = { ...line, discount: roundMoney(promotionResult.lineDiscounts[index] + share) };
+    if (!rule) return item;
+
+    const net = item.total - item.discount;
+    const fraction = rule.rate / 100;
+    const taxAmount = roundMoney(rule.inclusive ? net - net / (1 + fraction) : net * fraction);
+    if (!rule.inclusive) exclusiveTax += taxAmount;
+
+    const key = `${rule.id}:${rule.rate}:${rule.inclusive}`;
+    const entry = breakdown.get(key)
+      ?? { taxRateId: rule.id, name: rule.name, rate: rule.rate, inclusive: rule.inclusive, taxableAmount: 0, taxAmount: 0 };
+    entry.taxableAmount = roundMoney(entry.taxableAmount + (rule.inclusive ? net - taxAmount : net));
+    entry.taxAmount = roundMoney(entry.taxAmount + taxAmount);
+    breakdown.set(key, entry);
+
+    return { ...item, taxRateId: rule.id, taxRate: rule.rate, taxAmount };
+  });
+
+  const discountAmount = roundMoney(subtotal - afterLinesTotal + orderDiscount);
+  const taxBreakdown = Array.from(breakdown.values());
+  return {
+    items,
+    subtotal,
+    discountAmount,
+    taxAmount: roundMoney(taxBreakdown.reduce((sum, entry) => sum + entry.taxAmount, 0)),
+    totalAmount: roundMoney(subtotal - discountAmount + exclusiveTax),
+    promotions: applied,
+    taxBreakdown
+  };
+}
+
+// Fields where what the client sent disagrees with the canonical price, for a 409
+export function findPricingMismatches(
+  sent: {
+    totalAmount?: number;
+    taxAmount?: number;
+    items: Array<{ productId: number; price?: number; total?: number }>;
+  },
+  priced: PricedSale
+): string[] {
+  const differs = (a: number | undefined, b: number) => a !== undefined && Math.abs(a - b) >= 0.005;
+  const mismatches: string[] = [];
+  if (differs(sent.totalAmount, priced.totalAmount)) mismatches.push("totalAmount");
+  if (differs(sent.taxAmount, priced.taxAmount)) mismatches.push("taxAmount");
+  sent.items.forEach((item, index) => {
+    if (differs(item.price, priced.items[index].price)) mismatches.push(`items[${index}].price`);
+    if (differs(item.total, priced.items[index].total)) mismatches.push(`items[${index}].total`);
+  });
+  return mismatches;
+}
@@ -0,0 +1,139 @@
+// Promotions engine. Works out which promotions a cart qualifies for and how much each
+// takes off; priceSale turns the result into line discounts.
+import type { AppliedPromotion, Promotion } from "./schema";
+import { roundMoney } from "./pricing";
+
+export interface PromotionLine {
+  productId: number;
+  category?: string;
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface PromotionResult {
+  // What line promotions take off each line, in cart order
+  lineDiscounts: number[];
+  orderDiscount: number;
+  applied: AppliedPromotion[];
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// Whether a promotion can be used at the given moment. Coupon promotions also need
+// their code; happy hour windows that end before they start run past midnight.
+export function isPromotionAvailable(promotion: Promotion, at: Date, couponCode?: string | null): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && at < promotion.startsAt) return false;
+  if (promotion.endsAt && at > promotion.endsAt) return false;
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) return false;
+  if (promotion.couponCode && (!couponCode || normalizeCouponCode(couponCode) !== promotion.couponCode)) return false;
+  if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(at.getDay())) return false;
+
+  if (promotion.startTime && promotion.endTime) {
+    const now = at.getHours() * 60 + at.getMinutes();
+    const start = minutesOf(promotion.startTime);
+    const end = minutesOf(promotion.endTime);
+    const inWindow = start <= end ? now >= start && now < end : now >= start || now < end;
+    if (!inWindow) return false;
+  }
+  return true;
+}
+
+function matchesLine(promotion: Promotion, line: PromotionLine): boolean {
+  if (promotion.productIds.length === 0 && promotion.categories.length === 0) return true;
+  return promotion.productIds.includes(line.productId)
+    || (line.category !== undefined && promotion.categories.includes(line.category));
+}
+
+// What one line promotion would take off each line
+function lineDiscountsFor(promotion: Promotion, lines: PromotionLine[]): number[] {
+  const value = parseFloat(promotion.value);
+  const discounts = lines.map(() => 0);
+
+  if (promotion.type === "buy_x_get_y") {
+    const buy = promotion.buyQuantity ?? 0;
+    const get = promotion.getQuantity ?? 0;
+    if (buy <= 0 || get <= 0) return discounts;
+
+    // Every group of buy + get units gets its cheapest get units discounted
+    const units: Array<{ lineIndex: number; price: number }> = [];
+    lines.forEach((line, lineIndex) => {
+      if (!matchesLine(promotion, line)) return;
+      for (let i = 0; i < Math.floor(line.quantity); i++) units.push({ lineIndex, price: line.price });
+    });
+    units.sort((a, b) => b.price - a.price);
+    const discountedUnits = Math.floor(units.length / (buy + get)) * get;
+    units.slice(units.length - discountedUnits).forEach(unit => {
+      discounts[unit.lineIndex] += unit.price * (Math.min(value, 100) / 100);
+    });
+    return discounts.map(roundMoney);
+  }
+
+  lines.forEach((line, index) => {
+    if (!matchesLine(promotion, line)) return;
+    const amount = promotion.type === "percentage"
+      ? line.total * (Math.min(value, 100) / 100)
+      : value * line.quantity;
+    discounts[index] = roundMoney(Math.min(amount, line.total));
+  });
+  return discounts;
+}
+
+// Line promotions do not stack: each line gets whichever one takes off the most.
+// Of the order promotions only the best applies, on what is left after line promotions.
+export function applyPromotions(lines: PromotionLine[], promotions: Promotion[], subtotal: number): PromotionResult {
+  const eligible = promotions.filter(promotion =>
+    promotion.minSubtotal === null || subtotal >= parseFloat(promotion.minSubtotal));
+
+  const lineDiscounts = lines.map(() => 0);
+  const winners: Array<Promotion | null> = lines.map(() => null);
+  eligible
+    .filter(promotion => promotion.type === "buy_x_get_y" || promotion.scope === "line")
+    .forEach(promotion => {
+      lineDiscountsFor(promotion, lines).forEach((amount, index) => {
+        if (amount > lineDiscounts[index]) {
+          lineDiscounts[index] = amount;
+          winners[index] = promotion;
+        }
+      });
+    });
+
+  const applied = new Map<number, AppliedPromotion>();
+  winners.forEach((promotion, index) => {
+    if (!promotion) return;
+    const entry = applied.get(promotion.id)
+      ?? { promotionId: promotion.id, name: promotion.name, couponCode: promotion.couponCode, amount: 0 };
+    entry.amount = roundMoney(entry.amount + lineDiscounts[index]);
+    applied.set(promotion.id, entry);
+  });
+
+  const remaining = roundMoney(subtotal - lineDiscounts.reduce((sum, amount) => sum + amount, 0));
+  let orderDiscount = 0;
+  let orderPromotion: Promotion | null = null;
+  for (const promotion of eligible) {
+    if (promotion.type === "buy_x_get_y" || promotion.scope !== "order") continue;
+    const value = parseFloat(promotion.value);
+    const amount = roundMoney(Math.min(remaining, promotion.type === "percentage" ? remaining * (value / 100) : value));
+    if (amount > orderDiscount) {
+      orderDiscount = amount;
+      orderPromotion = promotion;
+    }
+  }
+
+  const appliedList = Array.from(applied.values());
+  if (orderPromotion) {
+    appliedList.push({
+      promotionId: orderPromotion.id,
+      name: orderPromotion.name,
+      couponCode: orderPromotion.couponCode,
+      amount: orderDiscount
+    });
+  }
+  return { lineDiscounts, orderDiscount, applied: appliedList };
+}
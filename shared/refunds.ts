@@ -0,0 +1,178 @@
+// Refunds and voids. Neither touches the original sale: each is an offset sale whose
+// amounts are the negative of what is given back, so takings, tax and analytics net out.
+import type { AppliedPromotion, Sale, SaleItem, TaxBreakdownLine } from "./schema";
+import { roundMoney } from "./pricing";
+
+export interface SaleOffset {
+  items: SaleItem[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  promotions: AppliedPromotion[];
+  taxBreakdown: TaxBreakdownLine[];
+}
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+// What a line was charged: its discount and tax, and whether the tax was on top
+interface ChargedLine {
+  item: SaleItem;
+  discount: number;
+  taxAmount: number;
+  inclusive: boolean;
+  taxName: string;
+  rate: number;
+}
+
+const chargedAmount = (total: number, discount: number, taxAmount: number, inclusive: boolean) =>
+  roundMoney(total - discount + (inclusive ? 0 : taxAmount));
+
+// Sales from before line discounts and tax were recorded have their discount and tax
+// shared out by line value, and are taxed at their effective rate like the tax report
+function chargedLines(sale: Sale): ChargedLine[] {
+  const items = sale.items as SaleItem[];
+  const perLine = items.some(item => item.discount !== undefined);
+  const grossTotal = items.reduce((sum, item) => sum + item.total, 0);
+  const saleTax = parseFloat(sale.taxAmount || "0");
+  const saleTaxable = roundMoney(parseFloat(sale.totalAmount) - saleTax);
+  const effectiveRate = saleTaxable > 0 ? Math.round((saleTax / saleTaxable) * 1000) / 10 : 0;
+
+  let discountLeft = parseFloat(sale.discountAmount);
+  let taxLeft = saleTax;
+  return items.map((item, index) => {
+    if (perLine) {
+      const entry = sale.taxBreakdown.find(line => line.taxRateId === (item.taxRateId ?? null) && line.rate === item.taxRate);
+      return {
+        item,
+        discount: item.discount ?? 0,
+        taxAmount: item.taxAmount ?? 0,
+        inclusive: entry?.inclusive ?? false,
+        taxName: entry?.name ?? "Unassigned",
+        rate: item.taxRate ?? 0
+      };
+    }
+
+    const last = index === items.length - 1;
+    const share = grossTotal > 0 ? item.total / grossTotal : 0;
+    const discount = last ? discountLeft : roundMoney(parseFloat(sale.discountAmount) * share);
+    const taxAmount = last ? taxLeft : roundMoney(saleTax * share);
+    discountLeft = roundMoney(discountLeft - discount);
+    taxLeft = roundMoney(taxLeft - taxAmount);
+    return { item, discount, taxAmount, inclusive: false, taxName: "Unassigned", rate: effectiveRate };
+  });
+}
+
+// How much of each line of a sale has not yet been given back by the given offsets
+export function refundableQuantities(sale: Sale, offsets: Sale[]): number[] {
+  return (sale.items as SaleItem[]).map((item, index) => {
+    const returned = offsets
+      .flatMap(offset => offset.items as SaleItem[])
+      .filter(offsetItem => offsetItem.originalLine === index)
+      .reduce((sum, offsetItem) => sum - offsetItem.quantity, 0);
+    return Math.max(item.quantity - returned, 0);
+  });
+}
+
+// Works out the offset for giving back the given quantities of a sale's lines. Each
+// line gives back its share of what it was charged; the last of a line takes whatever
+// is left, so a line given back in several refunds nets to exactly zero.
+export function buildSaleOffset(
+  sale: Sale,
+  offsets: Sale[],
+  lines: Array<{ line: number; quantity: number }>
+): SaleOffset {
+  if (sale.type !== "sale") throw new RefundError("Only sales can be refunded or voided");
+  if (offsets.some(offset => offset.type === "void")) throw new RefundError(`Sale ${sale.id} has been voided`);
+
+  const charged = chargedLines(sale);
+  const remaining = refundableQuantities(sale, offsets);
+  const previous = offsets.flatMap(offset => offset.items as SaleItem[]);
+
+  const requested = new Map<number, number>();
+  lines.forEach(({ line, quantity }) => requested.set(line, (requested.get(line) || 0) + quantity));
+
+  const items: SaleItem[] = [];
+  const breakdown = new Map<string, TaxBreakdownLine>();
+  let totalAmount = 0;
+  for (const [line, quantity] of Array.from(requested.entries())) {
+    const entry = charged[line];
+    if (!entry) throw new RefundError(`Sale ${sale.id} has no line ${line + 1}`);
+    if (quantity > remaining[line] + 1e-9) {
+      throw new RefundError(`Only ${remaining[line]} of line ${line + 1} can still be refunded`);
+    }
+
+    const { item } = entry;
+    const returned = previous.filter(offsetItem => offsetItem.originalLine === line);
+    const alreadyBack = (value: (offsetItem: SaleItem) => number | undefined) =>
+      -returned.reduce((sum, offsetItem) => sum + (value(offsetItem) ?? 0), 0);
+    const isLast = Math.abs(quantity - remaining[line]) < 1e-9;
+    const portion = (value: number, back: number) =>
+      isLast ? roundMoney(value - back) : roundMoney(value * (quantity / item.quantity));
+
+    const total = portion(item.total, alreadyBack(offsetItem => offsetItem.total));
+    const discount = portion(entry.discount, alreadyBack(offsetItem => offsetItem.discount));
+    const taxAmount = portion(entry.taxAmount, alreadyBack(offsetItem => offsetItem.taxAmount));
+    totalAmount += chargedAmount(total, discount, taxAmount, entry.inclusive);
+
+    items.push({
+      productId: item.productId,
+      quantity: -quantity,
+      price: item.price,
+      total: -total,
+      discount: -discount,
+      taxRateId: item.taxRateId ?? null,
+      taxRate: entry.rate,
+      taxAmount: -taxAmount,
+      originalLine: line,
+      ...(item.modifiers ? { modifiers: item.modifiers } : {}),
+      ...(item.components ? { components: item.components } : {}),
+      ...(item.note ? { note: item.note } : {})
+    });
+
+    if (taxAmount === 0 && entry.rate === 0) continue;
+    const net = total - discount;
+    const key = `${item.taxRateId ?? null}:${entry.rate}:${entry.inclusive}`;
+    const tax = breakdown.get(key) ?? {
+      taxRateId: item.taxRateId ?? null,
+      name: entry.taxName,
+      rate: entry.rate,
+      inclusive: entry.inclusive,
+      taxableAmount: 0,
+      taxAmount: 0
+    };
+    tax.taxableAmount = roundMoney(tax.taxableAmount - (entry.inclusive ? net - taxAmount : net));
+    tax.taxAmount = roundMoney(tax.taxAmount - taxAmount);
+    breakdown.set(key, tax);
+  }
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.total, 0));
+  const discountAmount = roundMoney(items.reduce((sum, item) => sum + (item.discount ?? 0), 0));
+  // Promotions are given back in proportion to the discount given back
+  const saleDiscount = parseFloat(sale.discountAmount);
+  const ratio = saleDiscount > 0 ? -discountAmount / saleDiscount : 0;
+
+  return {
+    items,
+    subtotal,
+    discountAmount,
+    taxAmount: roundMoney(items.reduce((sum, item) => sum + (item.taxAmount ?? 0), 0)),
+    totalAmount: -roundMoney(totalAmount),
+    promotions: ratio > 0
+      ? sale.promotions.map(promotion => ({ ...promotion, amount: -roundMoney(promotion.amount * ratio) }))
+      : [],
+    taxBreakdown: Array.from(breakdown.values())
+  };
+}
+
+// Until shifts are tracked, a shift is the trading day a sale was rung up on
+export function isSameShift(saleDate: Date, at: Date): boolean {
+  return saleDate.getFullYear() === at.getFullYear()
+    && saleDate.getMonth() === at.getMonth()
+    && saleDate.getDate() === at.getDate();
+}
@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, decimal, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, jsonb, timestamp, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ALLERGEN_KEYS, DIETARY_FLAG_KEYS, type Allergen, type DietaryFlag } from "./allergens";
+import { nutritionValuesSchema, type NutritionValues } from "./nutrition";
+import { TENDER_TYPE_KEYS, type Tender } from "./tendering";
+import { findUnit } from "./units";
 
 // Products/Items for sale
 export const products = pgTable("products", {
@@ -15,19 +19,233 @@ export const products = pgTable("products", {
   supplier: text("supplier"),
   minStock: integer("min_stock").default(5),
   isActive: boolean("is_active").default(true),
+  // When linked to a recipe, cost is derived from recipe cost per serving × portions
+  recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "set null" }),
+  recipePortions: decimal("recipe_portions", { precision: 10, scale: 3 }).default("1"),
+  // Overrides the category's tax rate; see categoryTaxRates
+  taxRateId: integer("tax_rate_id").references(() => taxRates.id, { onDelete: "set null" }),
+  // Modifier groups offered when the product is rung up, in the order they are asked
+  modifierGroupIds: jsonb("modifier_group_ids").$type<number[]>().notNull().default([]),
+  // A bundle (meal deal) is made of one product from each slot and keeps no stock of its own
+  bundleSlots: jsonb("bundle_slots").$type<BundleSlot[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Takeaway orders can be taxed at a different rate from dine-in
+export const ORDER_TYPES = ["dine_in", "takeaway"] as const;
+export type OrderType = typeof ORDER_TYPES[number];
+
+// Refunds and voids are recorded as offset sales with negative amounts, so a sale is
+// never changed or removed once rung up
+export const SALE_TYPES = ["sale", "refund", "void"] as const;
+export type SaleType = typeof SALE_TYPES[number];
+
 // Sales transactions
 export const sales = pgTable("sales", {
   id: serial("id").primaryKey(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default("0"),
-  paymentMethod: text("payment_method").notNull(),
+  paymentMethod: text("payment_method").notNull(), // the tender type, or "split"
+  // How the total was paid; cashTendered is the cash handed over, changeDue what went back
+  tenders: jsonb("tenders").$type<Tender[]>().notNull().default([]),
+  cashTendered: decimal("cash_tendered", { precision: 10, scale: 2 }),
+  changeDue: decimal("change_due", { precision: 10, scale: 2 }).notNull().default("0"),
   items: jsonb("items").notNull(),
   customerId: text("customer_id"),
   cashierId: text("cashier_id").notNull(),
+  orderType: text("order_type").notNull().default("dine_in"),
+  // Guests served, for dine-in sales settled from a table or tab that recorded them
+  covers: integer("covers"),
+  // Promotions and discounts that make up discountAmount
+  promotions: jsonb("promotions").$type<AppliedPromotion[]>().notNull().default([]),
+  // Who signed off a till discount over the limit staff can give on their own
+  discountApprovedBy: text("discount_approved_by"),
+  // Tax charged per rate, so taxAmount can be reported by rate
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>().notNull().default([]),
+  // Items sold without enough stock when the negative stock policy is "flag"
+  stockIssues: jsonb("stock_issues").$type<StockShortage[]>().notNull().default([]),
+  type: text("type").notNull().default("sale"),
+  // Refunds and voids: the sale they offset, why, who signed it off and whether the
+  // items went back into stock
+  originalSaleId: integer("original_sale_id").references((): AnyPgColumn => sales.id),
+  reason: text("reason"),
+  approvedBy: text("approved_by"),
+  stockRestored: boolean("stock_restored").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Named tax rates, as percentages. A product is taxed at its own rate, else its
+// category's, else the default rate.
+export const taxRates = pgTable("tax_rates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  dineInRate: decimal("dine_in_rate", { precision: 6, scale: 3 }).notNull(),
+  takeawayRate: decimal("takeaway_rate", { precision: 6, scale: 3 }), // null: same as dine-in
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const categoryTaxRates = pgTable("category_tax_rates", {
+  id: serial("id").primaryKey(),
+  category: text("category").notNull().unique(),
+  taxRateId: integer("tax_rate_id").notNull().references(() => taxRates.id, { onDelete: "cascade" }),
+});
+
+// percentage: value % off; fixed: value off each matching item (line scope) or off the
+// order; buy_x_get_y: value % off the cheapest getQuantity of every buyQuantity + getQuantity
+export const PROMOTION_TYPES = ["percentage", "fixed", "buy_x_get_y"] as const;
+export const PROMOTION_SCOPES = ["line", "order"] as const;
+
+// Promotions applied at checkout. Line promotions apply to the listed products and
+// categories (all products if both are empty); an order gets its best order promotion.
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  scope: text("scope").notNull().default("line"),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  productIds: jsonb("product_ids").$type<number[]>().notNull().default([]),
+  categories: jsonb("categories").$type<string[]>().notNull().default([]),
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  // Happy hour: days of the week (0 = Sunday, empty = every day) and "HH:MM" times
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().notNull().default([]),
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  // Coupon promotions only apply when their code is entered at the till
+  couponCode: text("coupon_code").unique(),
+  usageLimit: integer("usage_limit"),
+  usageCount: integer("usage_count").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Choices offered on a product, such as size or milk. A group with minSelections
+// above zero is required; a null maxSelections allows any number.
+export const modifierGroups = pgTable("modifier_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  minSelections: integer("min_selections").notNull().default(0),
+  maxSelections: integer("max_selections"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const modifierOptions = pgTable("modifier_options", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => modifierGroups.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  priceDelta: decimal("price_delta", { precision: 10, scale: 2 }).notNull().default("0"),
+  costDelta: decimal("cost_delta", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Ingredients the option uses on top of the product, per item, in each ingredient's
+  // unit. A negative quantity (e.g. "no cheese") only takes that ingredient off what the
+  // product's recipe uses; it never adds stock.
+  ingredientDeltas: jsonb("ingredient_deltas").$type<ModifierIngredientDelta[]>().notNull().default([]),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// settling: claimed by a terminal that is taking payment for it; merged: its items were
+// moved onto another order
+export const OPEN_ORDER_STATUSES = ["open", "settling", "settled", "merged"] as const;
+export type OpenOrderStatus = typeof OPEN_ORDER_STATUSES[number];
+
+// Orders kept on the server until they are paid, so any terminal can pick them up: a
+// tab by name, or a table's order. Items are priced when the order is settled.
+export const openOrders = pgTable("open_orders", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  tableNumber: text("table_number"),
+  orderType: text("order_type").notNull().default("dine_in"),
+  covers: integer("covers"),
+  items: jsonb("items").$type<OrderLine[]>().notNull().default([]),
+  // What has gone to the kitchen, and the latest course it has been told to start on
+  sentItems: jsonb("sent_items").$type<OrderLine[]>().notNull().default([]),
+  firedCourse: integer("fired_course").notNull().default(1),
+  status: text("status").notNull().default("open"),
+  // Goes up with every change, so a terminal cannot overwrite changes it has not seen
+  version: integer("version").notNull().default(1),
+  saleId: integer("sale_id").references(() => sales.id, { onDelete: "set null" }),
+  mergedIntoId: integer("merged_into_id").references((): AnyPgColumn => openOrders.id, { onDelete: "set null" }),
+  openedBy: text("opened_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Parts of the floor plan, such as "Main room" or "Terrace"
+export const floorAreas = pgTable("floor_areas", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What is stored for a table; "ordered" is shown instead of "seated" once its order has items
+export const TABLE_STATUSES = ["free", "seated", "bill_requested", "dirty"] as const;
+export type TableStatus = typeof TABLE_STATUSES[number];
+export type TableDisplayStatus = TableStatus | "ordered";
+
+export const TABLE_SHAPES = ["square", "round"] as const;
+// Cells in each area's layout grid
+export const FLOOR_GRID = { columns: 12, rows: 8 } as const;
+
+// Tables on the floor plan. An open order is at a table when its tableNumber matches the
+// table's number. posX and posY place the table on its area's grid.
+export const diningTables = pgTable("dining_tables", {
+  id: serial("id").primaryKey(),
+  areaId: integer("area_id").notNull().references(() => floorAreas.id, { onDelete: "cascade" }),
+  number: text("number").notNull().unique(),
+  seats: integer("seats").notNull(),
+  posX: integer("pos_x").notNull().default(0),
+  posY: integer("pos_y").notNull().default(0),
+  shape: text("shape").notNull().default("square"),
+  status: text("status").notNull().default("free"),
+  seatedAt: timestamp("seated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Courses in the order they are served; order lines without one go with the first
+export const COURSES = ["Starters", "Mains", "Desserts"] as const;
+
+// Where order lines are made, such as the bar, the grill or the pastry section
+export const kitchenStations = pgTable("kitchen_stations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The station that makes a category's products; categories without one, such as
+// bottled drinks, are not sent to the kitchen
+export const categoryStations = pgTable("category_stations", {
+  id: serial("id").primaryKey(),
+  category: text("category").notNull().unique(),
+  stationId: integer("station_id").notNull().references(() => kitchenStations.id, { onDelete: "cascade" }),
+});
+
+// held: a later course waiting to be fired; pending: on the station's screen; bumped: done
+export const KITCHEN_TICKET_STATUSES = ["held", "pending", "bumped"] as const;
+export type KitchenTicketStatus = typeof KITCHEN_TICKET_STATUSES[number];
+
+// One station's share of one course of an order. Its preparation time runs from firedAt
+// to bumpedAt.
+export const kitchenTickets = pgTable("kitchen_tickets", {
+  id: serial("id").primaryKey(),
+  stationId: integer("station_id").notNull().references(() => kitchenStations.id, { onDelete: "cascade" }),
+  openOrderId: integer("open_order_id").references(() => openOrders.id, { onDelete: "set null" }),
+  saleId: integer("sale_id").references(() => sales.id, { onDelete: "set null" }),
+  label: text("label").notNull(), // "Table 4", "Sam", "Takeaway #31"
+  course: integer("course").notNull().default(1),
+  items: jsonb("items").$type<KitchenTicketItem[]>().notNull(),
+  status: text("status").notNull().default("pending"),
   createdAt: timestamp("created_at").defaultNow(),
+  firedAt: timestamp("fired_at"),
+  bumpedAt: timestamp("bumped_at"),
 });
 
 // Operational costs
@@ -42,17 +260,125 @@ export const operationalCosts = pgTable("operational_costs", {
   frequency: text("frequency"), // daily, weekly, monthly
 });
 
+// Ingredients purchased from suppliers
+export const ingredients = pgTable("ingredients", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  unit: text("unit").notNull(),
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 4 }).notNull(),
+  supplier: text("supplier"),
+  densityGPerMl: decimal("density_g_per_ml", { precision: 10, scale: 4 }), // allows mass <-> volume
+  pieceWeightG: decimal("piece_weight_g", { precision: 10, scale: 3 }), // "each weighs N g"
+  yieldPercentage: decimal("yield_percentage", { precision: 5, scale: 2 }).notNull().default("100"), // usable share after trimming
+  allergens: jsonb("allergens").$type<Allergen[]>().notNull().default([]),
+  dietaryFlags: jsonb("dietary_flags").$type<DietaryFlag[]>().notNull().default([]),
+  nutritionPer100: jsonb("nutrition_per_100").$type<NutritionValues>(), // per 100 g, or 100 mL for liquids
+  // On hand, in the purchase unit; moved only by sales, purchases and counts
+  stockQuantity: decimal("stock_quantity", { precision: 12, scale: 3 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Recipes (dishes) built from ingredients
+export const recipes = pgTable("recipes", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  servings: integer("servings").notNull().default(1),
+  // Prep items (sauces, doughs, stocks) are made in batches and used as lines of other recipes
+  isPrepItem: boolean("is_prep_item").notNull().default(false),
+  yieldQuantity: decimal("yield_quantity", { precision: 10, scale: 3 }),
+  yieldUnit: text("yield_unit"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Lines of a recipe: either an ingredient or a prep item (sub-recipe)
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
+  ingredientId: integer("ingredient_id").references(() => ingredients.id),
+  subRecipeId: integer("sub_recipe_id").references(() => recipes.id),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unit: text("unit"), // defaults to the ingredient's purchase unit or the prep item's yield unit
+  yieldPercentage: decimal("yield_percentage", { precision: 5, scale: 2 }), // overrides the ingredient default
+});
+
+// Immutable snapshot of a recipe taken on every save
+export const recipeVersions = pgTable("recipe_versions", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  servings: integer("servings").notNull(),
+  isPrepItem: boolean("is_prep_item").notNull().default(false),
+  yieldQuantity: decimal("yield_quantity", { precision: 10, scale: 3 }),
+  yieldUnit: text("yield_unit"),
+  lines: jsonb("lines").$type<RecipeVersionLine[]>().notNull(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+  costPerServing: decimal("cost_per_serving", { precision: 10, scale: 2 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Physical stock counts, in the ingredient's purchase unit
+export const stockCounts = pgTable("stock_counts", {
+  id: serial("id").primaryKey(),
+  ingredientId: integer("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  countedAt: timestamp("counted_at").defaultNow().notNull(),
+  countedBy: text("counted_by"),
+  note: text("note"),
+});
+
+// Deliveries received from suppliers, in the ingredient's purchase unit
+export const ingredientPurchases = pgTable("ingredient_purchases", {
+  id: serial("id").primaryKey(),
+  ingredientId: integer("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 4 }).notNull(),
+  supplier: text("supplier"),
+  invoiceNumber: text("invoice_number"),
+  purchasedAt: timestamp("purchased_at").defaultNow().notNull(),
+});
+
+// Every change to an ingredient's stock, so sales can be reversed exactly as applied
+export const ingredientStockMovements = pgTable("ingredient_stock_movements", {
+  id: serial("id").primaryKey(),
+  ingredientId: integer("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }).notNull(),
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull(), // negative when stock is used
+  reason: text("reason").notNull(), // sale, refund, purchase, count
+  saleId: integer("sale_id"), // kept without a foreign key so history survives the sale
+  productId: integer("product_id"),
+  // When the stock actually moved: a purchase's purchasedAt or a count's countedAt, which
+  // can be earlier than when the movement was recorded
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Cost tracking history
 export const costHistory = pgTable("cost_history", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").references(() => products.id),
-  oldCost: decimal("old_cost", { precision: 10, scale: 2 }).notNull(),
-  newCost: decimal("new_cost", { precision: 10, scale: 2 }).notNull(),
+  ingredientId: integer("ingredient_id").references(() => ingredients.id, { onDelete: "cascade" }),
+  oldCost: decimal("old_cost", { precision: 10, scale: 4 }).notNull(),
+  newCost: decimal("new_cost", { precision: 10, scale: 4 }).notNull(),
   reason: text("reason"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Schema definitions
+export const bundleSlotSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  quantity: z.number().int().positive().default(1),
+  choices: z.array(z.object({
+    productId: z.number().int().positive(),
+    upcharge: z.number().min(0).default(0),
+  })).min(1, "A slot needs at least one choice"),
+});
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   createdAt: true,
@@ -62,22 +388,312 @@ export const insertProductSchema = createInsertSchema(products).omit({
   stock: z.number().int().min(0).default(0),
   minStock: z.number().int().min(0).default(5),
   isActive: z.boolean().default(true),
+  recipeId: z.number().int().positive().nullable().optional(),
+  recipePortions: z.number().positive().default(1),
+  taxRateId: z.number().int().positive().nullable().optional(),
+  modifierGroupIds: z.array(z.number().int().positive()).default([]),
+  bundleSlots: z.array(bundleSlotSchema).default([]),
+});
+
+export const tenderSchema = z.object({
+  type: z.enum(TENDER_TYPE_KEYS),
+  amount: z.number().positive(),
+  reference: z.string().nullable().optional(),
 });
 
 export const insertSaleSchema = createInsertSchema(sales).omit({
   id: true,
+  stockIssues: true,
+  type: true,
+  originalSaleId: true,
+  reason: true,
+  approvedBy: true,
+  stockRestored: true,
   createdAt: true,
 }).extend({
+  subtotal: z.number().min(0).optional(),
+  discountAmount: z.number().min(0).optional(),
   totalAmount: z.number().positive(),
   taxAmount: z.number().min(0).optional(),
+  orderType: z.enum(ORDER_TYPES).optional(),
+  covers: z.number().int().positive().nullable().optional(),
+  tenders: z.array(tenderSchema).optional(),
+  cashTendered: z.number().positive().nullable().optional(),
+  changeDue: z.number().min(0).optional(),
+  promotions: z.array(z.object({
+    promotionId: z.number().nullable(),
+    name: z.string(),
+    couponCode: z.string().nullable(),
+    amount: z.number(),
+  })).optional(),
+  taxBreakdown: z.array(z.object({
+    taxRateId: z.number().nullable(),
+    name: z.string(),
+    rate: z.number(),
+    inclusive: z.boolean(),
+    taxableAmount: z.number(),
+    taxAmount: z.number(),
+  })).optional(),
   items: z.array(z.object({
     productId: z.number(),
     quantity: z.number().positive(),
     price: z.number(),
     total: z.number(),
+    discount: z.number().optional(),
+    taxRateId: z.number().nullable().optional(),
+    taxRate: z.number().optional(),
+    taxAmount: z.number().optional(),
+    modifiers: z.array(z.object({
+      optionId: z.number(),
+      groupId: z.number(),
+      groupName: z.string(),
+      name: z.string(),
+      priceDelta: z.number(),
+      costDelta: z.number(),
+    })).optional(),
+    components: z.array(z.object({
+      slot: z.string(),
+      productId: z.number(),
+      name: z.string(),
+      quantity: z.number(),
+      upcharge: z.number(),
+      price: z.number(),
+    })).optional(),
+    note: z.string().optional(),
   })),
 });
 
+export const orderDiscountSchema = z.object({
+  type: z.enum(["percentage", "fixed"]),
+  value: z.number().positive(),
+}).refine(discount => discount.type !== "percentage" || discount.value <= 100, {
+  message: "A percentage discount cannot exceed 100",
+});
+
+// A line as rung up at the till, before it is priced
+export const orderLineSchema = z.object({
+  productId: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+  // Chosen modifier options; repeat an option to have it more than once
+  modifierIds: z.array(z.number().int().positive()).optional(),
+  // For a bundle, the product chosen for each slot in slot order
+  bundleChoices: z.array(z.number().int().positive()).optional(),
+  note: z.string().trim().max(200).optional(),
+  course: z.number().int().min(1).max(COURSES.length).optional(),
+});
+
+// What a till sends to ring up a sale. Prices and totals are optional: the server
+// prices from the catalogue and rejects any that were sent but do not match.
+export const saleRequestSchema = z.object({
+  items: z.array(orderLineSchema.extend({
+    price: z.number().optional(),
+    total: z.number().optional(),
+  })).min(1, "A sale needs at least one item"),
+  discount: orderDiscountSchema.nullable().optional(),
+  // Needed when the discount is over the limit staff can give on their own
+  discountApprovedBy: z.string().trim().min(1).nullable().optional(),
+  couponCode: z.string().trim().min(1).nullable().optional(),
+  orderType: z.enum(ORDER_TYPES).default("dine_in"),
+  covers: z.number().int().positive().nullable().optional(),
+  totalAmount: z.number().optional(),
+  taxAmount: z.number().optional(),
+  // Either tenders, or a payment method that pays the whole total
+  paymentMethod: z.string().min(1).optional(),
+  tenders: z.array(tenderSchema).optional(),
+  cashTendered: z.number().positive().nullable().optional(),
+  customerId: z.string().nullable().optional(),
+  cashierId: z.string().min(1),
+});
+
+// Gives back some or all of a sale's lines; line is the index into the sale's items
+export const saleRefundSchema = z.object({
+  lines: z.array(z.object({
+    line: z.number().int().min(0),
+    quantity: z.number().positive(),
+  })).min(1, "A refund needs at least one line"),
+  reason: z.string().trim().min(1, "A reason is required"),
+  approvedBy: z.string().trim().min(1, "A refund needs an approver"),
+  cashierId: z.string().min(1),
+  // How the money goes back; defaults to how the sale was paid if that was one tender type
+  tenderType: z.enum(TENDER_TYPE_KEYS).optional(),
+  restoreStock: z.boolean().default(true),
+});
+
+// Cancels a whole sale during the shift it was rung up in
+export const saleVoidSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+  approvedBy: z.string().trim().min(1).nullable().optional(),
+  cashierId: z.string().min(1),
+  restoreStock: z.boolean().default(true),
+});
+
+const optionalLabel = z.string().trim().min(1).nullable().optional();
+const coversSchema = z.number().int().positive().max(999).nullable().optional();
+
+export const insertOpenOrderSchema = createInsertSchema(openOrders).omit({
+  id: true,
+  sentItems: true,
+  firedCourse: true,
+  status: true,
+  version: true,
+  saleId: true,
+  mergedIntoId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: optionalLabel,
+  tableNumber: optionalLabel,
+  orderType: z.enum(ORDER_TYPES).default("dine_in"),
+  covers: coversSchema,
+  items: z.array(orderLineSchema).default([]),
+  openedBy: z.string().min(1),
+}).refine(order => order.name || order.tableNumber, {
+  message: "Give the order a name or a table",
+  path: ["name"],
+});
+
+// Replaces what is on an order; version is the one the terminal last loaded
+export const updateOpenOrderSchema = z.object({
+  name: optionalLabel,
+  tableNumber: optionalLabel,
+  orderType: z.enum(ORDER_TYPES).optional(),
+  covers: coversSchema,
+  items: z.array(orderLineSchema).optional(),
+  version: z.number().int().positive(),
+});
+
+export const openOrderItemsSchema = z.object({
+  items: z.array(orderLineSchema).min(1, "Add at least one item"),
+});
+
+export const transferOpenOrderSchema = z.object({
+  tableNumber: z.string().trim().min(1, "A table is required"),
+});
+
+export const mergeOpenOrderSchema = z.object({
+  intoOrderId: z.number().int().positive(),
+});
+
+// Pays an open order; its items, order type and covers come from the order
+export const settleOpenOrderSchema = saleRequestSchema.omit({ items: true, orderType: true, covers: true }).extend({
+  version: z.number().int().positive().optional(),
+});
+
+export const insertFloorAreaSchema = createInsertSchema(floorAreas).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  sortOrder: z.number().int().default(0),
+});
+
+export const insertDiningTableSchema = createInsertSchema(diningTables).omit({
+  id: true,
+  status: true,
+  seatedAt: true,
+  createdAt: true,
+}).extend({
+  areaId: z.number().int().positive(),
+  number: z.string().trim().min(1, "Table number is required"),
+  seats: z.number().int().positive().max(99),
+  posX: z.number().int().min(0).max(FLOOR_GRID.columns - 1).default(0),
+  posY: z.number().int().min(0).max(FLOOR_GRID.rows - 1).default(0),
+  shape: z.enum(TABLE_SHAPES).default("square"),
+});
+
+// Sits a party at a free table, opening the table's order
+export const seatTableSchema = z.object({
+  covers: z.number().int().positive().max(999),
+  openedBy: z.string().min(1),
+});
+
+export const tableStatusSchema = z.object({
+  status: z.enum(TABLE_STATUSES),
+});
+
+export const fireCourseSchema = z.object({
+  course: z.number().int().min(1).max(COURSES.length),
+});
+
+export const insertKitchenStationSchema = createInsertSchema(kitchenStations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  sortOrder: z.number().int().default(0),
+});
+
+export const categoryStationSchema = z.object({
+  category: z.string().min(1),
+  stationId: z.number().int().positive().nullable(),
+});
+
+export const insertTaxRateSchema = createInsertSchema(taxRates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  dineInRate: z.number().min(0).max(100),
+  takeawayRate: z.number().min(0).max(100).nullable().optional(),
+  pricesIncludeTax: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+});
+
+export const insertPromotionSchema = createInsertSchema(promotions).omit({
+  id: true,
+  usageCount: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(PROMOTION_TYPES),
+  scope: z.enum(PROMOTION_SCOPES).default("line"),
+  value: z.number().positive(),
+  buyQuantity: z.number().int().positive().nullable().optional(),
+  getQuantity: z.number().int().positive().nullable().optional(),
+  productIds: z.array(z.number().int().positive()).default([]),
+  categories: z.array(z.string().min(1)).default([]),
+  minSubtotal: z.number().positive().nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM").nullable().optional(),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM").nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  couponCode: z.string().trim().min(1).transform(code => code.toUpperCase()).nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const modifierOptionLineSchema = z.object({
+  id: z.number().int().positive().optional(), // an existing option to keep
+  name: z.string().min(1, "Name is required"),
+  priceDelta: z.number().default(0),
+  costDelta: z.number().default(0),
+  ingredientDeltas: z.array(z.object({
+    ingredientId: z.number().int().positive(),
+    quantity: z.number().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  })).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export const insertModifierGroupSchema = createInsertSchema(modifierGroups).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  minSelections: z.number().int().min(0).default(0),
+  maxSelections: z.number().int().positive().nullable().optional(),
+  options: z.array(modifierOptionLineSchema).min(1, "A group needs at least one option"),
+}).refine(group => group.maxSelections == null || group.maxSelections >= group.minSelections, {
+  message: "Maximum selections cannot be less than the minimum",
+  path: ["maxSelections"],
+});
+
+// Assigns a category's tax rate; a null taxRateId clears it back to the default
+export const categoryTaxRateSchema = z.object({
+  category: z.string().min(1),
+  taxRateId: z.number().int().positive().nullable(),
+});
+
 export const insertOperationalCostSchema = createInsertSchema(operationalCosts).omit({
   id: true,
 }).extend({
@@ -86,6 +702,47 @@ export const insertOperationalCostSchema = createInsertSchema(operationalCosts).
   isRecurring: z.boolean().default(false),
 });
 
+export const insertIngredientSchema = createInsertSchema(ingredients).omit({
+  id: true,
+  stockQuantity: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  category: z.string().min(1, "Category is required"),
+  // Recipe lines are costed by converting to this unit, so it has to be one we know
+  unit: z.string().min(1, "Unit is required").refine(unit => findUnit(unit) !== undefined, "Unknown unit"),
+  costPerUnit: z.number().positive(),
+  densityGPerMl: z.number().positive().nullable().optional(),
+  pieceWeightG: z.number().positive().nullable().optional(),
+  yieldPercentage: z.number().positive().max(100).default(100),
+  allergens: z.array(z.enum(ALLERGEN_KEYS)).default([]),
+  dietaryFlags: z.array(z.enum(DIETARY_FLAG_KEYS)).default([]),
+  nutritionPer100: nutritionValuesSchema.nullable().optional(),
+});
+
+export const recipeIngredientLineSchema = z.object({
+  ingredientId: z.number().int().min(0),
+  subRecipeId: z.number().int().min(0).optional(),
+  quantity: z.number().min(0),
+  unit: z.string().optional(),
+  yieldPercentage: z.number().positive().max(100).optional(),
+});
+
+export const insertRecipeSchema = createInsertSchema(recipes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  category: z.string().min(1, "Category is required"),
+  servings: z.number().int().positive(),
+  isPrepItem: z.boolean().default(false),
+  yieldQuantity: z.number().positive().nullable().optional(),
+  yieldUnit: z.string().nullable().optional(),
+  ingredients: z.array(recipeIngredientLineSchema),
+});
+
 export const insertCostHistorySchema = createInsertSchema(costHistory).omit({
   id: true,
   updatedAt: true,
@@ -93,15 +750,73 @@ export const insertCostHistorySchema = createInsertSchema(costHistory).omit({
   oldCost: z.number(),
   newCost: z.number(),
   productId: z.number().optional(),
+  ingredientId: z.number().optional(),
+});
+
+export const insertStockCountSchema = createInsertSchema(stockCounts).omit({
+  id: true,
+}).extend({
+  ingredientId: z.number().int().positive(),
+  quantity: z.number().min(0),
+  countedAt: z.coerce.date().optional(),
+});
+
+export const insertIngredientPurchaseSchema = createInsertSchema(ingredientPurchases).omit({
+  id: true,
+}).extend({
+  ingredientId: z.number().int().positive(),
+  quantity: z.number().positive(),
+  unitCost: z.number().positive(),
+  purchasedAt: z.coerce.date().optional(),
 });
 
 // Types
+export type BundleSlot = z.infer<typeof bundleSlotSchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertSale = z.infer<typeof insertSaleSchema>;
+export type SaleRequest = z.infer<typeof saleRequestSchema>;
+export type SaleRefund = z.infer<typeof saleRefundSchema>;
+export type SaleVoid = z.infer<typeof saleVoidSchema>;
+export type OrderLine = z.infer<typeof orderLineSchema>;
+export type InsertOpenOrder = z.infer<typeof insertOpenOrderSchema>;
+export type UpdateOpenOrder = z.infer<typeof updateOpenOrderSchema>;
+export type SettleOpenOrder = z.infer<typeof settleOpenOrderSchema>;
+export type OpenOrder = typeof openOrders.$inferSelect;
 export type Sale = typeof sales.$inferSelect;
+export type InsertFloorArea = z.infer<typeof insertFloorAreaSchema>;
+export type FloorArea = typeof floorAreas.$inferSelect;
+export type InsertDiningTable = z.infer<typeof insertDiningTableSchema>;
+export type DiningTable = typeof diningTables.$inferSelect;
+export type SeatTable = z.infer<typeof seatTableSchema>;
+export type InsertKitchenStation = z.infer<typeof insertKitchenStationSchema>;
+export type KitchenStation = typeof kitchenStations.$inferSelect;
+export type CategoryStation = typeof categoryStations.$inferSelect;
+export type KitchenTicket = typeof kitchenTickets.$inferSelect;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type CategoryTaxRate = typeof categoryTaxRates.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+export type PromotionType = typeof PROMOTION_TYPES[number];
+export type ModifierOptionLine = z.infer<typeof modifierOptionLineSchema>;
+export type InsertModifierGroup = z.infer<typeof insertModifierGroupSchema>;
+export type ModifierGroup = typeof modifierGroups.$inferSelect;
+export type ModifierOption = typeof modifierOptions.$inferSelect;
 export type InsertOperationalCost = z.infer<typeof insertOperationalCostSchema>;
 export type OperationalCost = typeof operationalCosts.$inferSelect;
+export type InsertIngredient = z.infer<typeof insertIngredientSchema>;
+export type Ingredient = typeof ingredients.$inferSelect;
+export type RecipeIngredientLine = z.infer<typeof recipeIngredientLineSchema>;
+export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
+export type Recipe = typeof recipes.$inferSelect;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+export type RecipeVersion = typeof recipeVersions.$inferSelect;
+export type InsertStockCount = z.infer<typeof insertStockCountSchema>;
+export type StockCount = typeof stockCounts.$inferSelect;
+export type InsertIngredientPurchase = z.infer<typeof insertIngredientPurchaseSchema>;
+export type IngredientPurchase = typeof ingredientPurchases.$inferSelect;
+export type IngredientStockMovement = typeof ingredientStockMovements.$inferSelect;
 export type InsertCostHistory = z.infer<typeof insertCostHistorySchema>;
 export type CostHistory = typeof costHistory.$inferSelect;
 
@@ -111,6 +826,153 @@ export interface SaleItem {
   quantity: number;
   price: number;
   total: number;
+  // Everything taken off this line: its own promotions plus its share of order discounts
+  discount?: number;
+  // Tax this line carried, at the rate (a percentage) it was sold under
+  taxRateId?: number | null;
+  taxRate?: number;
+  taxAmount?: number;
+  // On refunds and voids, the index of the line given back in the original sale
+  originalLine?: number;
+  // Options chosen for the line; price already includes their price deltas
+  modifiers?: SaleItemModifier[];
+  // For a bundle, the products it was made up of; their prices share out the line's
+  components?: SaleItemComponent[];
+  note?: string; // cooking instructions
+}
+
+// A modifier option as sold, kept by name so tickets and history survive menu changes
+export interface SaleItemModifier {
+  optionId: number;
+  groupId: number;
+  groupName: string;
+  name: string;
+  priceDelta: number;
+  costDelta: number;
+}
+
+// One product in a bundle as sold. quantity is per bundle; price is the component's
+// share of one bundle's price, upcharge included, so a bundle's components add up to it.
+export interface SaleItemComponent {
+  slot: string;
+  productId: number;
+  name: string;
+  quantity: number;
+  upcharge: number;
+  price: number;
+}
+
+export interface ModifierIngredientDelta {
+  ingredientId: number;
+  quantity: number;
+}
+
+export interface ModifierGroupWithOptions extends ModifierGroup {
+  options: ModifierOption[];
+}
+
+// A promotion as applied to a sale; promotionId is null for a discount keyed in at the till
+export interface AppliedPromotion {
+  promotionId: number | null;
+  name: string;
+  couponCode: string | null;
+  amount: number;
+}
+
+// Tax on a sale for one rate. Amounts are after the order discount; for
+// tax-inclusive rates taxableAmount excludes the tax.
+export interface TaxBreakdownLine {
+  taxRateId: number | null;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxReportLine extends TaxBreakdownLine {
+  orderType: OrderType;
+  saleCount: number;
+}
+
+export interface TakingsReport {
+  from: string;
+  to: string;
+  tenders: Array<{
+    type: string;
+    count: number;
+    amount: number;
+  }>;
+  total: number; // net of refunds and voids
+  refunded: number; // paid back by refunds and voids
+  cashTendered: number;
+  changeGiven: number;
+}
+
+export interface TaxReport {
+  from: string;
+  to: string;
+  lines: TaxReportLine[];
+  totalTaxable: number;
+  totalTax: number;
+}
+
+// reject: a sale that would take stock below zero fails; flag: it goes through and is marked
+export const NEGATIVE_STOCK_POLICIES = ["reject", "flag"] as const;
+export type NegativeStockPolicy = typeof NEGATIVE_STOCK_POLICIES[number];
+
+// A product that could not be covered from stock; for recipe-linked products the
+// shortfall is in the listed ingredients (quantities in their purchase units)
+export interface StockShortage {
+  productId: number;
+  productName: string;
+  requested: number;
+  available: number | null;
+  ingredients: Array<{
+    ingredientId: number;
+    name: string;
+    unit: string;
+    required: number;
+    available: number;
+  }>;
+}
+
+// A line on a kitchen ticket. Bundle components are routed on their own, each naming
+// the bundle it came in.
+export interface KitchenTicketItem {
+  productId: number;
+  name: string;
+  quantity: number;
+  modifiers: string[];
+  bundle?: string;
+  note?: string;
+}
+
+// Average preparation times, from firing to bumping, of tickets bumped between from and to.
+// A ticket's time counts towards every product on it.
+export interface KitchenReport {
+  from: string;
+  to: string;
+  stations: Array<{
+    stationId: number;
+    name: string;
+    tickets: number;
+    averageSeconds: number;
+  }>;
+  products: Array<{
+    productId: number;
+    name: string;
+    station: string;
+    quantity: number;
+    tickets: number;
+    averageSeconds: number;
+  }>;
+}
+
+// A table as shown on the floor plan, with the order open at it
+export interface DiningTableWithOrder extends DiningTable {
+  displayStatus: TableDisplayStatus;
+  order: OpenOrder | null;
 }
 
 // Enhanced sale with product details
@@ -120,7 +982,124 @@ export interface SaleWithDetails extends Sale {
     quantity: number;
     price: number;
     total: number;
+    discount: number;
+    unitCost: number; // the product's cost, or its components' for a bundle, plus its modifiers'
+    modifiers: SaleItemModifier[];
+    // A bundle's products with their share of its revenue, net of discount
+    components: Array<{
+      product: Product;
+      quantity: number;
+      revenue: number;
+    }>;
+    note?: string;
+  }>;
+}
+
+// Recipe with costed ingredient lines
+export interface RecipeWithDetails extends Recipe {
+  // quantity is the edible portion; cost includes what is lost to trimming
+  ingredientDetails: Array<{
+    ingredient: Ingredient;
+    quantity: number;
+    unit: string;
+    yieldPercentage: number;
+    asPurchasedQuantity: number;
+    asPurchasedCost: number;
+    cost: number;
+  }>;
+  subRecipeDetails: Array<{
+    recipe: Recipe;
+    quantity: number;
+    unit: string;
+    cost: number;
+  }>;
+  totalCost: number;
+  costPerServing: number;
+  asPurchasedCost: number;
+  trimLossCost: number;
+  costPerYieldUnit: number | null;
+  allergens: Allergen[];
+  dietaryFlags: DietaryFlag[];
+  nutritionTotal: NutritionValues;
+  nutritionPerServing: NutritionValues;
+  nutritionComplete: boolean; // false when some ingredient has no nutrition data or cannot be weighed
+  warnings: string[];
+}
+
+// A recipe line as captured in a version, with the name and cost at that moment
+export interface RecipeVersionLine {
+  ingredientId: number | null;
+  subRecipeId: number | null;
+  name: string;
+  quantity: number;
+  unit: string;
+  yieldPercentage: number | null;
+  cost: number;
+}
+
+export interface RecipeVersionDiff {
+  recipeId: number;
+  fromVersion: number;
+  toVersion: number;
+  fieldChanges: Array<{
+    field: "name" | "category" | "servings" | "isPrepItem" | "yieldQuantity" | "yieldUnit";
+    from: string | number | boolean | null;
+    to: string | number | boolean | null;
+  }>;
+  added: RecipeVersionLine[];
+  removed: RecipeVersionLine[];
+  changed: Array<{
+    name: string;
+    from: RecipeVersionLine;
+    to: RecipeVersionLine;
   }>;
+  totalCostChange: number;
+  costPerServingChange: number;
+}
+
+// Scale a recipe either to a number of servings or to a yield of its batch
+export const scaleRecipeSchema = z.object({
+  servings: z.coerce.number().positive().optional(),
+  yieldQuantity: z.coerce.number().positive().optional(),
+  yieldUnit: z.string().min(1).optional(),
+}).refine(data => (data.servings === undefined) !== (data.yieldQuantity === undefined), {
+  message: "Provide either servings or yieldQuantity",
+});
+
+export type ScaleRecipeTarget = z.infer<typeof scaleRecipeSchema>;
+
+// quantity/unit are rounded for the kitchen; exactQuantity is in the recipe's own unit
+export interface ScaledRecipeLine {
+  ingredientId: number | null;
+  subRecipeId: number | null;
+  name: string;
+  quantity: number;
+  unit: string;
+  exactQuantity: number;
+  cost: number;
+}
+
+export interface ScaledRecipeSection {
+  recipeId: number;
+  name: string;
+  isPrepItem: boolean;
+  factor: number;
+  servings: number;
+  yieldQuantity: number | null;
+  yieldUnit: string | null;
+  lines: ScaledRecipeLine[];
+  cost: number;
+}
+
+export interface ScaledRecipe {
+  recipeId: number;
+  name: string;
+  factor: number;
+  // Prep items come first, in the order they need making; the recipe itself is last
+  sections: ScaledRecipeSection[];
+  batchCost: number;
+  costPerServing: number;
+  warnings: string[];
 }
 
 // Product with margin calculations
@@ -130,11 +1109,35 @@ export interface ProductWithMargin extends Product {
   isLowStock: boolean;
 }
 
+// Product with allergens and dietary flags inherited from its recipe. allergens also
+// takes in what its modifier options can add. Without a recipe nothing is known, so
+// allergensKnown is false rather than the product looking allergen-free.
+export interface ProductWithAllergens extends Product {
+  allergens: Allergen[];
+  allergensKnown: boolean;
+  dietaryFlags: DietaryFlag[];
+}
+
+export interface AllergenMatrix {
+  allergens: Allergen[];
+  items: Array<{
+    productId: number;
+    name: string;
+    category: string;
+    hasRecipe: boolean;
+    contains: Record<Allergen, boolean>;
+    dietaryFlags: DietaryFlag[];
+  }>;
+}
+
 // Analytics interfaces
 export interface SalesAnalytics {
-  totalSales: number;
+  totalSales: number; // net of refunds and voids
   totalProfit: number;
   averageOrderValue: number;
+  totalRefunds: number;
+  totalCovers: number; // guests served at sales that recorded them, less voided ones
+  spendPerCover: number; // net takings of those sales per guest
   topSellingProducts: Array<{
     product: Product;
     totalSold: number;
@@ -148,6 +1151,77 @@ export interface SalesAnalytics {
   }>;
 }
 
+// Menu engineering quadrants: popularity (menu mix) against contribution margin
+export type MenuEngineeringClass = "star" | "plowhorse" | "puzzle" | "dog";
+
+export interface MenuEngineeringItem {
+  productId: number;
+  name: string;
+  category: string;
+  unitsSold: number;
+  menuMixPercentage: number;
+  price: number;
+  cost: number;
+  contributionMargin: number;
+  totalContribution: number;
+  classification: MenuEngineeringClass;
+}
+
+export interface MenuEngineeringReport {
+  days: number;
+  totalUnitsSold: number;
+  // Items selling at least 70% of the average menu-mix share count as popular
+  popularityThreshold: number;
+  averageContributionMargin: number;
+  items: MenuEngineeringItem[];
+}
+
+// Usage quantities are in the ingredient's purchase unit; a positive variance means
+// more was used than the recipes account for (over-portioning, waste or theft)
+export interface FoodCostVarianceItem {
+  ingredientId: number;
+  name: string;
+  unit: string;
+  costPerUnit: number;
+  openingStock: number | null;
+  purchases: number;
+  closingStock: number | null;
+  actualUsage: number | null;
+  theoreticalUsage: number;
+  varianceQuantity: number | null;
+  varianceCost: number | null;
+  variancePercentage: number | null;
+}
+
+export interface FoodCostVarianceReport {
+  from: string;
+  to: string;
+  theoreticalCost: number;
+  actualCost: number;
+  varianceCost: number;
+  // Ingredients without an opening and closing count cannot be compared
+  uncountedIngredients: number;
+  items: FoodCostVarianceItem[];
+}
+
+export interface SummaryData {
+  totalIngredients: number;
+  totalRecipes: number;
+  averageCost: string;
+  totalInvestment: string;
+  targetFoodCostPercentage: number;
+  categoryBreakdown: Record<string, number>;
+  recipes: Array<{
+    id: number;
+    name: string;
+    category: string;
+    servings: number;
+    totalCost: string;
+    costPerServing: string;
+    suggestedPrice: string;
+  }>;
+}
+
 export interface InventoryAlert {
   productId: number;
   productName: string;
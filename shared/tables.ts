@@ -0,0 +1,18 @@
+// Floor plan tables and how busy they are
+import type { DiningTable, OpenOrder, TableDisplayStatus } from "./schema";
+
+export const TABLE_STATUS_LABELS: Record<TableDisplayStatus, string> = {
+  free: "Free",
+  seated: "Seated",
+  ordered: "Ordered",
+  bill_requested: "Bill requested",
+  dirty: "Needs clearing",
+};
+
+// A table with an open order is in use whatever was last stored for it, such as one
+// parked to from the till
+export function tableDisplayStatus(table: Pick<DiningTable, "status">, order: Pick<OpenOrder, "items"> | null): TableDisplayStatus {
+  if (!order) return table.status === "dirty" ? "dirty" : "free";
+  if (table.status === "bill_requested") return "bill_requested";
+  return order.items.length > 0 ? "ordered" : "seated";
+}
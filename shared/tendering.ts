@@ -0,0 +1,78 @@
+// How a sale is paid for. A sale can be split over several tenders; only cash can be
+// overpaid, and the excess is given back as change.
+import { roundMoney } from "./pricing";
+
+export const TENDER_TYPES = [
+  { key: "cash", label: "Cash" },
+  { key: "card", label: "Card" },
+  { key: "voucher", label: "Voucher" },
+  { key: "gift_card", label: "Gift card" },
+  { key: "mobile_wallet", label: "Mobile wallet" },
+] as const;
+
+export type TenderType = typeof TENDER_TYPES[number]["key"];
+
+export const TENDER_TYPE_KEYS = TENDER_TYPES.map(tender => tender.key) as [TenderType, ...TenderType[]];
+
+// amount is what the tender pays towards the sale; reference is a card, voucher or gift card number
+export interface Tender {
+  type: TenderType;
+  amount: number;
+  reference?: string | null;
+}
+
+export interface SettledPayment {
+  tenders: Tender[];
+  paymentMethod: string; // the tender type, or "split" for several
+  cashTendered: number | null;
+  changeDue: number;
+}
+
+export class TenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TenderError";
+  }
+}
+
+export function tenderLabel(type: string): string {
+  return TENDER_TYPES.find(tender => tender.key === type)?.label ?? type;
+}
+
+// Checks the tenders pay exactly the total and works out change from the cash handed
+// over. A sale sent with just a payment method is paid in full by that method.
+export function settleTenders(
+  totalAmount: number,
+  payment: { tenders?: Tender[] | null; paymentMethod?: string | null; cashTendered?: number | null }
+): SettledPayment {
+  let tenders = payment.tenders ?? [];
+  if (tenders.length === 0) {
+    const type = TENDER_TYPE_KEYS.find(key => key === payment.paymentMethod);
+    if (!type) throw new TenderError("A sale needs a payment method or tenders");
+    tenders = [{ type, amount: totalAmount }];
+  }
+  tenders = tenders.map(tender => ({ ...tender, amount: roundMoney(tender.amount) }));
+
+  const paid = roundMoney(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  if (Math.abs(paid - totalAmount) >= 0.005) {
+    throw new TenderError(`Tenders add up to ${paid.toFixed(2)} but the sale total is ${totalAmount.toFixed(2)}`);
+  }
+
+  const cash = roundMoney(tenders.filter(tender => tender.type === "cash").reduce((sum, tender) => sum + tender.amount, 0));
+  let cashTendered: number | null = null;
+  if (payment.cashTendered !== undefined && payment.cashTendered !== null) {
+    if (cash === 0) throw new TenderError("Cash tendered was given but nothing is paid in cash");
+    cashTendered = roundMoney(payment.cashTendered);
+    if (cashTendered < cash) {
+      throw new TenderError(`Cash tendered ${cashTendered.toFixed(2)} is less than the ${cash.toFixed(2)} due in cash`);
+    }
+  }
+
+  const types = Array.from(new Set(tenders.map(tender => tender.type)));
+  return {
+    tenders,
+    paymentMethod: types.length === 1 ? types[0] : "split",
+    cashTendered,
+    changeDue: cashTendered !== null ? roundMoney(cashTendered - cash) : 0
+  };
+}
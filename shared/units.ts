@@ -0,0 +1,175 @@
+// Unit-of-measure conversion shared by the client and server.
+// Every unit converts to a base unit of its dimension: grams, millilitres or pieces.
+
+export type UnitDimension = "mass" | "volume" | "count";
+
+export interface UnitDefinition {
+  key: string;
+  label: string;
+  dimension: UnitDimension;
+  toBase: number;
+  aliases: string[];
+}
+
+// Ingredient-specific facts that allow converting across dimensions
+export interface ConversionProfile {
+  densityGPerMl?: number | null;
+  pieceWeightG?: number | null;
+}
+
+export const UNITS: UnitDefinition[] = [
+  { key: "mg", label: "Milligram (mg)", dimension: "mass", toBase: 0.001, aliases: ["milligram", "milligrams"] },
+  { key: "g", label: "Gram (g)", dimension: "mass", toBase: 1, aliases: ["gram", "grams", "gr"] },
+  { key: "kg", label: "Kilogram (kg)", dimension: "mass", toBase: 1000, aliases: ["kilogram", "kilograms", "kilo"] },
+  { key: "oz", label: "Ounce (oz)", dimension: "mass", toBase: 28.349523125, aliases: ["ounce", "ounces"] },
+  { key: "lb", label: "Pound (lb)", dimension: "mass", toBase: 453.59237, aliases: ["pound", "pounds", "lbs"] },
+  { key: "ml", label: "Milliliter (mL)", dimension: "volume", toBase: 1, aliases: ["milliliter", "millilitre", "milliliters", "millilitres"] },
+  { key: "l", label: "Liter (L)", dimension: "volume", toBase: 1000, aliases: ["liter", "litre", "liters", "litres"] },
+  { key: "tsp", label: "Teaspoon", dimension: "volume", toBase: 4.92892, aliases: ["teaspoon", "teaspoons"] },
+  { key: "tbsp", label: "Tablespoon", dimension: "volume", toBase: 14.7868, aliases: ["tablespoon", "tablespoons"] },
+  { key: "floz", label: "Fluid ounce (fl oz)", dimension: "volume", toBase: 29.5735, aliases: ["fl oz", "fluid ounce", "fluid ounces"] },
+  { key: "cup", label: "Cup", dimension: "volume", toBase: 236.588, aliases: ["cups"] },
+  { key: "pc", label: "Piece (pc)", dimension: "count", toBase: 1, aliases: ["piece", "pieces", "each", "ea", "unit"] },
+  { key: "dozen", label: "Dozen", dimension: "count", toBase: 12, aliases: ["dz"] },
+];
+
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnitConversionError";
+  }
+}
+
+const unitLookup = new Map<string, UnitDefinition>();
+UNITS.forEach(unit => {
+  [unit.key, unit.label, ...unit.aliases].forEach(name => unitLookup.set(name.toLowerCase(), unit));
+});
+
+// Accepts a key ("kg"), an alias ("kilogram") or a display label ("Kilogram (kg)")
+export function findUnit(name: string | null | undefined): UnitDefinition | undefined {
+  if (!name) return undefined;
+  const normalized = name.trim().toLowerCase();
+  const direct = unitLookup.get(normalized);
+  if (direct) return direct;
+
+  const abbreviation = normalized.match(/\(([^)]+)\)/);
+  return abbreviation ? unitLookup.get(abbreviation[1].trim()) : undefined;
+}
+
+function toGrams(amount: number, unit: UnitDefinition, profile: ConversionProfile): number | undefined {
+  const base = amount * unit.toBase;
+  if (unit.dimension === "mass") return base;
+  if (unit.dimension === "volume") return profile.densityGPerMl ? base * profile.densityGPerMl : undefined;
+  return profile.pieceWeightG ? base * profile.pieceWeightG : undefined;
+}
+
+function fromGrams(grams: number, unit: UnitDefinition, profile: ConversionProfile): number | undefined {
+  if (unit.dimension === "mass") return grams / unit.toBase;
+  if (unit.dimension === "volume") return profile.densityGPerMl ? grams / profile.densityGPerMl / unit.toBase : undefined;
+  return profile.pieceWeightG ? grams / profile.pieceWeightG / unit.toBase : undefined;
+}
+
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  profile: ConversionProfile = {}
+): number {
+  const from = findUnit(fromUnit);
+  const to = findUnit(toUnit);
+  if (!from) throw new UnitConversionError(`Unknown unit: ${fromUnit}`);
+  if (!to) throw new UnitConversionError(`Unknown unit: ${toUnit}`);
+
+  if (from.dimension === to.dimension) {
+    return (quantity * from.toBase) / to.toBase;
+  }
+
+  // Cross-dimension conversions go through grams using density or piece weight
+  const grams = toGrams(quantity, from, profile);
+  const result = grams === undefined ? undefined : fromGrams(grams, to, profile);
+  if (result === undefined) {
+    throw new UnitConversionError(
+      `Cannot convert ${from.key} to ${to.key} without ${
+        from.dimension === "count" || to.dimension === "count" ? "a piece weight" : "a density"
+      }`
+    );
+  }
+  return result;
+}
+
+export function canConvert(fromUnit: string, toUnit: string, profile: ConversionProfile = {}): boolean {
+  try {
+    convertQuantity(1, fromUnit, toUnit, profile);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Units a recipe line may use for an ingredient bought in the given unit
+export function getCompatibleUnits(purchaseUnit: string, profile: ConversionProfile = {}): UnitDefinition[] {
+  return UNITS.filter(unit => canConvert(unit.key, purchaseUnit, profile));
+}
+
+// Builds a profile from stored ingredient columns, which arrive as decimal strings
+export function getConversionProfile(source: {
+  densityGPerMl?: string | number | null;
+  pieceWeightG?: string | number | null;
+}): ConversionProfile {
+  const toNumber = (value: string | number | null | undefined) =>
+    value === null || value === undefined || value === "" ? null : Number(value);
+  return {
+    densityGPerMl: toNumber(source.densityGPerMl),
+    pieceWeightG: toNumber(source.pieceWeightG),
+  };
+}
+
+// Larger units a scaled quantity is moved into once it reaches a whole one
+const KITCHEN_STEP_UP: Record<string, { unit: string; threshold: number }> = {
+  mg: { unit: "g", threshold: 1000 },
+  g: { unit: "kg", threshold: 1000 },
+  oz: { unit: "lb", threshold: 16 },
+  ml: { unit: "l", threshold: 1000 },
+  tsp: { unit: "tbsp", threshold: 3 },
+  tbsp: { unit: "cup", threshold: 16 },
+  floz: { unit: "cup", threshold: 8 },
+};
+
+function roundTo(value: number, step: number): number {
+  return Math.round(Math.round(value / step) * step * 1000) / 1000;
+}
+
+// Rounds a scaled quantity to something a cook can weigh or measure,
+// moving to a larger unit where that reads better (1250 g becomes 1.25 kg)
+export function roundKitchenQuantity(quantity: number, unitName: string): { quantity: number; unit: string } {
+  let unit = findUnit(unitName);
+  if (!unit) return { quantity: roundTo(quantity, 0.01), unit: unitName };
+
+  let amount = quantity;
+  let step = KITCHEN_STEP_UP[unit.key];
+  while (step && amount >= step.threshold) {
+    const next = findUnit(step.unit)!;
+    amount = (amount * unit.toBase) / next.toBase;
+    unit = next;
+    step = KITCHEN_STEP_UP[unit.key];
+  }
+
+  switch (unit.key) {
+    case "pc":
+      // Nobody cracks a third of an egg
+      return { quantity: Math.max(1, Math.ceil(amount - 0.001)), unit: unit.key };
+    case "tsp":
+    case "tbsp":
+    case "cup":
+      return { quantity: Math.max(0.25, roundTo(amount, 0.25)), unit: unit.key };
+    case "kg":
+    case "l":
+    case "lb":
+      return { quantity: roundTo(amount, amount < 10 ? 0.05 : 0.1), unit: unit.key };
+    default:
+      if (amount < 1) return { quantity: roundTo(amount, 0.01), unit: unit.key };
+      if (amount < 10) return { quantity: roundTo(amount, 0.5), unit: unit.key };
+      if (amount < 100) return { quantity: roundTo(amount, 1), unit: unit.key };
+      return { quantity: roundTo(amount, 5), unit: unit.key };
+  }
+}